@@ -11,6 +11,12 @@ const taskRoutes = require('./server/routes/tasks');
 const challengeRoutes = require('./server/routes/challenges');
 const userRoutes = require('./server/routes/users');
 const scoreRoutes = require('./server/routes/scores');
+const jobRoutes = require('./server/routes/jobs');
+const restPeriodRoutes = require('./server/routes/restPeriods');
+const achievementRoutes = require('./server/routes/achievements');
+const activityRoutes = require('./server/routes/activity');
+const { startScheduler } = require('./server/jobs');
+const { schedulerEnabled, storageDriver, uploadsDir } = require('./server/config/app');
 
 dotenv.config();
 
@@ -38,12 +44,24 @@ app.use(cors({
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
+// Locally stored uploads. The frontend runs on another origin, which helmet's
+// default Cross-Origin-Resource-Policy would stop from showing them.
+if (storageDriver === 'local') {
+  app.use('/uploads', express.static(uploadsDir, {
+    setHeaders: (res) => res.set('Cross-Origin-Resource-Policy', 'cross-origin'),
+  }));
+}
+
 // Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/tasks', taskRoutes);
 app.use('/api/challenges', challengeRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/scores', scoreRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/rest-periods', restPeriodRoutes);
+app.use('/api/achievements', achievementRoutes);
+app.use('/api/activity', activityRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
@@ -67,4 +85,8 @@ app.use('*', (req, res) => {
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
   console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+
+  if (schedulerEnabled) {
+    startScheduler();
+  }
 });
\ No newline at end of file
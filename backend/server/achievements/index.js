@@ -0,0 +1,223 @@
+const supabase = require('../config/supabase');
+const { getStreaks } = require('../services/streaks');
+const rules = require('./rules');
+
+// Events that trigger an evaluation: 'completion' after progress is logged,
+// 'challenge' after a challenge the user was in completes ({ challengeId })
+const EVENTS = ['completion', 'challenge'];
+
+// Run an async lookup at most once per evaluation
+function once(load) {
+  let promise;
+  return () => {
+    promise = promise || load();
+    return promise;
+  };
+}
+
+// What rules can look up about the user
+function createContext(userId, payload) {
+  return {
+    userId,
+
+    getStreaks: once(() => getStreaks(userId)),
+
+    getCompletionCount: once(async () => {
+      const { count, error } = await supabase
+        .from('task_completions')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .gt('value', 0);
+
+      if (error) {
+        throw error;
+      }
+
+      return count || 0;
+    }),
+
+    getPerfectDayCount: once(async () => {
+      const { count, error } = await supabase
+        .from('daily_scores')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .gt('total_possible_points', 0)
+        .eq('is_excused', false)
+        .gte('percentage_score', 100);
+
+      if (error) {
+        throw error;
+      }
+
+      return count || 0;
+    }),
+
+    // Most hours ever logged on one task
+    getMostTaskHours: once(async () => {
+      const { data, error } = await supabase.rpc('get_most_task_hours', { p_user_id: userId });
+
+      if (error) {
+        throw error;
+      }
+
+      return Number(data);
+    }),
+
+    // The user's completed challenges, oldest first
+    getChallengeResults: once(async () => {
+      const { data, error } = await supabase
+        .from('challenge_participants')
+        .select('challenge:challenges!inner(id, challenge_type, status, winner_id, end_date)')
+        .eq('user_id', userId)
+        .eq('status', 'accepted')
+        .eq('challenge.status', 'completed');
+
+      if (error) {
+        throw error;
+      }
+
+      return data
+        .map(({ challenge }) => ({
+          challenge_id: challenge.id,
+          challenge_type: challenge.challenge_type,
+          end_date: challenge.end_date,
+          won: challenge.winner_id === userId,
+        }))
+        .sort((a, b) => (a.end_date < b.end_date ? -1 : 1));
+    }),
+
+    // The challenge that triggered a 'challenge' event, with everyone's
+    // rating going into it
+    getChallenge: once(async () => {
+      if (!payload.challengeId) {
+        return null;
+      }
+
+      const { data, error } = await supabase
+        .from('challenges')
+        .select('id, winner_id, ratings:rating_history(user_id, rating_before)')
+        .eq('id', payload.challengeId)
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      return data;
+    }),
+  };
+}
+
+function describe(rule, unlockedAt = null) {
+  return {
+    key: rule.key,
+    name: rule.name,
+    description: rule.description,
+    icon: rule.icon,
+    unlocked_at: unlockedAt,
+  };
+}
+
+async function getUnlockedRows(userIds) {
+  const { data, error } = await supabase
+    .from('user_achievements')
+    .select('user_id, achievement_key, unlocked_at')
+    .in('user_id', userIds);
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+// Check the user's not-yet-unlocked achievements for an event and store any
+// that are now earned. Returns the newly unlocked ones. Never throws: a failed
+// check shouldn't fail the request that triggered it, and the next event
+// checks again.
+async function evaluateAchievements(userId, event, payload = {}) {
+  try {
+    if (!EVENTS.includes(event)) {
+      throw new Error(`Unknown achievement event: ${event}`);
+    }
+
+    const unlocked = new Set((await getUnlockedRows([userId])).map(row => row.achievement_key));
+    const candidates = rules.filter(rule => rule.events.includes(event) && !unlocked.has(rule.key));
+
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const ctx = createContext(userId, payload);
+    const earned = [];
+
+    for (const rule of candidates) {
+      if (await rule.check(ctx)) {
+        earned.push(rule);
+      }
+    }
+
+    if (earned.length === 0) {
+      return [];
+    }
+
+    // A concurrent evaluation may have stored some already; only report the
+    // ones this call inserted
+    const { data, error } = await supabase
+      .from('user_achievements')
+      .upsert(
+        earned.map(rule => ({ user_id: userId, achievement_key: rule.key })),
+        { onConflict: 'user_id,achievement_key', ignoreDuplicates: true }
+      )
+      .select('achievement_key, unlocked_at');
+
+    if (error) {
+      throw error;
+    }
+
+    return data.map(row => describe(rules.find(rule => rule.key === row.achievement_key), row.unlocked_at));
+  } catch (error) {
+    console.error('Evaluate achievements error:', error);
+    return [];
+  }
+}
+
+// Every achievement, with when the user unlocked it (null while locked)
+async function getAchievements(userId) {
+  const rows = await getUnlockedRows([userId]);
+
+  return rules.map(rule => describe(
+    rule,
+    rows.find(row => row.achievement_key === rule.key)?.unlocked_at || null
+  ));
+}
+
+// Unlocked achievements for several users, newest first, keyed by user id
+async function getUnlockedBadges(userIds) {
+  const badges = Object.fromEntries(userIds.map(id => [id, []]));
+
+  if (userIds.length === 0) {
+    return badges;
+  }
+
+  const rows = await getUnlockedRows(userIds);
+
+  rows
+    .sort((a, b) => (a.unlocked_at < b.unlocked_at ? 1 : -1))
+    .forEach(row => {
+      const rule = rules.find(r => r.key === row.achievement_key);
+      // Rows for a since-removed rule are skipped
+      if (rule) {
+        badges[row.user_id].push(describe(rule, row.unlocked_at));
+      }
+    });
+
+  return badges;
+}
+
+module.exports = {
+  EVENTS,
+  evaluateAchievements,
+  getAchievements,
+  getUnlockedBadges,
+};
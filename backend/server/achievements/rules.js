@@ -0,0 +1,104 @@
+// Every achievement, with the events that can unlock it. `check` gets an
+// evaluation context (see ./index.js) whose lookups are loaded on first use,
+// so rules only cost a query when they actually need one.
+//
+// Keys are stored in user_achievements: never rename one.
+const rules = [
+  {
+    key: 'first_completion',
+    name: 'Getting Started',
+    description: 'Log progress on a task for the first time',
+    icon: 'sparkles',
+    events: ['completion'],
+    check: async ctx => (await ctx.getCompletionCount()) > 0,
+  },
+  {
+    key: 'first_perfect_day',
+    name: 'Perfect Day',
+    description: 'Score 100% on a day with tasks due',
+    icon: 'star',
+    events: ['completion'],
+    check: async ctx => (await ctx.getPerfectDayCount()) > 0,
+  },
+  {
+    key: 'streak_7',
+    name: 'On a Roll',
+    description: 'Keep your overall streak going for 7 days',
+    icon: 'flame',
+    events: ['completion'],
+    check: async ctx => (await ctx.getStreaks()).overall.longest >= 7,
+  },
+  {
+    key: 'streak_30',
+    name: 'Unstoppable',
+    description: 'Keep your overall streak going for 30 days',
+    icon: 'flame',
+    events: ['completion'],
+    check: async ctx => (await ctx.getStreaks()).overall.longest >= 30,
+  },
+  {
+    key: 'streak_100',
+    name: 'Centurion',
+    description: 'Keep your overall streak going for 100 days',
+    icon: 'crown',
+    events: ['completion'],
+    check: async ctx => (await ctx.getStreaks()).overall.longest >= 100,
+  },
+  {
+    key: 'task_hours_100',
+    name: 'Dedicated',
+    description: 'Log 100 hours on a single task',
+    icon: 'clock',
+    events: ['completion'],
+    check: async ctx => (await ctx.getMostTaskHours()) >= 100,
+  },
+  {
+    key: 'first_win',
+    name: 'First Victory',
+    description: 'Win a challenge',
+    icon: 'trophy',
+    events: ['challenge'],
+    check: async ctx => (await ctx.getChallengeResults()).some(result => result.won),
+  },
+  {
+    key: 'win_streak_5',
+    name: 'Dominant',
+    description: 'Win 5 challenges in a row',
+    icon: 'medal',
+    events: ['challenge'],
+    check: async ctx => {
+      let run = 0;
+      for (const result of await ctx.getChallengeResults()) {
+        run = result.won ? run + 1 : 0;
+        if (run >= 5) return true;
+      }
+      return false;
+    },
+  },
+  {
+    key: 'group_champion',
+    name: 'Top of the Podium',
+    description: 'Win a group challenge',
+    icon: 'users',
+    events: ['challenge'],
+    check: async ctx => (await ctx.getChallengeResults())
+      .some(result => result.won && result.challenge_type === 'group'),
+  },
+  {
+    key: 'giant_slayer',
+    name: 'Giant Slayer',
+    description: 'Win a challenge against someone rated higher than you',
+    icon: 'sword',
+    events: ['challenge'],
+    check: async ctx => {
+      const challenge = await ctx.getChallenge();
+      if (!challenge || challenge.winner_id !== ctx.userId) return false;
+
+      const mine = challenge.ratings.find(r => r.user_id === ctx.userId);
+      return !!mine && challenge.ratings
+        .some(r => r.user_id !== ctx.userId && Number(r.rating_before) > Number(mine.rating_before));
+    },
+  },
+];
+
+module.exports = rules;
@@ -0,0 +1,34 @@
+const path = require('path');
+require('dotenv').config();
+
+const parseNumber = (value, fallback) => {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+};
+
+module.exports = {
+  // How many days back completions can still be logged or edited
+  completionBackfillDays: parseNumber(process.env.COMPLETION_BACKFILL_DAYS, 3),
+
+  // How long an invitation to a challenge stays open
+  inviteExpiryDays: parseNumber(process.env.INVITE_EXPIRY_DAYS, 7),
+
+  // Run background jobs in this process (turn off when several API instances
+  // share a database and another process runs the jobs)
+  schedulerEnabled: process.env.SCHEDULER_ENABLED !== 'false',
+
+  // Shared secret that lets cron callers trigger jobs without a user session
+  jobServiceKey: process.env.JOB_SERVICE_KEY || null,
+
+  // Where uploaded files such as avatars are kept: 'local' disk or 'supabase' storage
+  storageDriver: process.env.STORAGE_DRIVER || 'local',
+
+  // Directory the local storage driver writes to; served at /uploads
+  uploadsDir: process.env.UPLOADS_DIR || path.join(__dirname, '..', '..', 'uploads'),
+
+  // Address this API is reached at, for links to locally stored files
+  publicUrl: process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || 3001}`,
+
+  // Supabase Storage bucket the supabase storage driver uses
+  storageBucket: process.env.STORAGE_BUCKET || 'avatars',
+};
@@ -0,0 +1,128 @@
+const supabase = require('../config/supabase');
+const { getStandings } = require('../services/challenges');
+const { getRatingChanges } = require('../services/ratings');
+const { evaluateAchievements } = require('../achievements');
+const { recordChallengeActivity } = require('../services/activity');
+const { getLocalDate, getProfileTimeZone } = require('../utils/dates');
+
+// Hand out the achievements and feed entries for completed challenges that
+// haven't had them yet, including any a failed run left behind. Both are safe
+// to repeat.
+async function finishCompletedChallenges() {
+  const { data: challenges, error } = await supabase
+    .from('challenges')
+    .select('*, participants:challenge_participants(user_id, status)')
+    .eq('status', 'completed')
+    .is('followups_done_at', null);
+
+  if (error) {
+    throw error;
+  }
+
+  for (const challenge of challenges) {
+    // One challenge failing is retried on the next run without holding up the rest
+    try {
+      for (const participant of challenge.participants.filter(p => p.status === 'accepted')) {
+        await evaluateAchievements(participant.user_id, 'challenge', { challengeId: challenge.id });
+      }
+
+      if (challenge.winner_id) {
+        await recordChallengeActivity(challenge, 'challenge_won', [challenge.winner_id]);
+      }
+
+      const { error: updateError } = await supabase
+        .from('challenges')
+        .update({ followups_done_at: new Date().toISOString() })
+        .eq('id', challenge.id);
+
+      if (updateError) {
+        throw updateError;
+      }
+    } catch (error) {
+      console.error(`Finish challenge ${challenge.id} error:`, error);
+    }
+  }
+}
+
+// Complete one active challenge if its last day is over for every
+// participant. Returns whether this run completed it.
+async function completeChallenge(challenge) {
+  const participants = challenge.participants.filter(p => p.status === 'accepted');
+
+  // Only finish once the end date is over in every participant's timezone,
+  // so every day of the window is complete and the result is the same
+  // whoever triggers the run
+  const endedForEveryone = participants
+    .every(p => getLocalDate(getProfileTimeZone(p.profile?.timezone)) > challenge.end_date);
+
+  if (!endedForEveryone) {
+    return false;
+  }
+
+  // Scored by the challenge's metric over the whole window
+  const standings = await getStandings(challenge, participants);
+  const leaders = standings.filter(s => s.rank === 1);
+  const winnerId = leaders.length === 1 ? leaders[0].user_id : null;
+
+  // Ratings account for every placing, including shared first places
+  const ratingChanges = await getRatingChanges(standings);
+
+  // The status change and the result are stored together, and only by the
+  // run that moves the challenge out of 'active', so overlapping runs can't
+  // count a win twice and a failure can't leave a result half written
+  const { data: claimed, error } = await supabase.rpc('complete_challenge', {
+    p_challenge_id: challenge.id,
+    p_winner_id: winnerId,
+    p_standings: standings,
+    p_rating_changes: ratingChanges,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return claimed;
+}
+
+// Complete active challenges whose last day is over for every participant
+async function completeChallenges() {
+  // UTC+14 is the first timezone to reach a date, so nothing can have ended
+  // anywhere before the day after the end date has started there
+  const earliestToday = getLocalDate('Pacific/Kiritimati');
+
+  // Get active challenges that may have ended
+  const { data: challenges, error } = await supabase
+    .from('challenges')
+    .select(`
+      *,
+      participants:challenge_participants(user_id, status, profile:profiles(timezone))
+    `)
+    .eq('status', 'active')
+    .lt('end_date', earliestToday);
+
+  if (error) {
+    throw error;
+  }
+
+  let completedCount = 0;
+  let failedCount = 0;
+
+  // A challenge that fails stays active and is tried again on the next run,
+  // without holding up the others
+  for (const challenge of challenges) {
+    try {
+      if (await completeChallenge(challenge)) {
+        completedCount++;
+      }
+    } catch (error) {
+      failedCount++;
+      console.error(`Complete challenge ${challenge.id} error:`, error);
+    }
+  }
+
+  await finishCompletedChallenges();
+
+  return { completed: completedCount, failed: failedCount };
+}
+
+module.exports = completeChallenges;
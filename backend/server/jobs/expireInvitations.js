@@ -0,0 +1,28 @@
+const supabase = require('../config/supabase');
+const { transitionChallenge } = require('../services/challenges');
+
+// Expire pending challenges whose invitations were not answered in time
+async function expireInvitations() {
+  const { data: challenges, error } = await supabase
+    .from('challenges')
+    .select('id, status')
+    .eq('status', 'pending')
+    .lt('expires_at', new Date().toISOString());
+
+  if (error) {
+    throw error;
+  }
+
+  let expiredCount = 0;
+
+  for (const challenge of challenges) {
+    const { error: transitionError } = await transitionChallenge(challenge, 'expired');
+    if (!transitionError) {
+      expiredCount++;
+    }
+  }
+
+  return { expired: expiredCount };
+}
+
+module.exports = expireInvitations;
@@ -0,0 +1,122 @@
+const crypto = require('crypto');
+const os = require('os');
+const supabase = require('../config/supabase');
+const completeChallenges = require('./completeChallenges');
+const expireInvitations = require('./expireInvitations');
+const rolloverScores = require('./rolloverScores');
+const startScheduledChallenges = require('./startScheduledChallenges');
+
+const MINUTE = 60 * 1000;
+
+// Each job runs on its own interval. A job must be safe to run again at any
+// time: the lease below stops overlapping runs, but a run can still be
+// repeated after a crash or a manual trigger.
+const jobs = {
+  'rollover-scores': {
+    run: rolloverScores,
+    intervalMs: 60 * MINUTE,
+  },
+  'complete-challenges': {
+    run: completeChallenges,
+    intervalMs: 15 * MINUTE,
+  },
+  'start-scheduled-challenges': {
+    run: startScheduledChallenges,
+    intervalMs: 15 * MINUTE,
+  },
+  'expire-invitations': {
+    run: expireInvitations,
+    intervalMs: 60 * MINUTE,
+  },
+};
+
+// Longest a run may hold the lease before another instance can take over
+const LOCK_TTL_SECONDS = 10 * 60;
+
+const instanceId = `${os.hostname()}:${process.pid}:${crypto.randomUUID()}`;
+
+// Run a job once unless another run currently holds its lease
+async function runJob(name) {
+  if (!Object.hasOwn(jobs, name)) {
+    throw new Error(`Unknown job: ${name}`);
+  }
+  const job = jobs[name];
+
+  const { data: acquired, error: lockError } = await supabase.rpc('acquire_job_lock', {
+    p_name: name,
+    p_owner: instanceId,
+    p_ttl_seconds: LOCK_TTL_SECONDS,
+  });
+
+  if (lockError) {
+    throw lockError;
+  }
+
+  if (!acquired) {
+    return { skipped: true, reason: 'Job is already running' };
+  }
+
+  let result;
+  try {
+    result = await job.run();
+    return result;
+  } catch (error) {
+    result = { error: error.message };
+    throw error;
+  } finally {
+    const { error: releaseError } = await supabase.rpc('release_job_lock', {
+      p_name: name,
+      p_owner: instanceId,
+      p_result: result,
+    });
+    if (releaseError) {
+      console.error(`Release job lock error (${name}):`, releaseError);
+    }
+  }
+}
+
+// Get when each job last ran and what happened
+async function getJobStatuses() {
+  const { data, error } = await supabase
+    .from('job_locks')
+    .select('*');
+
+  if (error) {
+    throw error;
+  }
+
+  return Object.entries(jobs).map(([name, job]) => {
+    const lock = data.find(row => row.name === name);
+    return {
+      name,
+      interval_minutes: job.intervalMs / MINUTE,
+      running: Boolean(lock?.locked_until && new Date(lock.locked_until) > new Date()),
+      last_started_at: lock?.last_started_at || null,
+      last_finished_at: lock?.last_finished_at || null,
+      last_result: lock?.last_result || null,
+    };
+  });
+}
+
+function startScheduler() {
+  Object.entries(jobs).forEach(([name, job]) => {
+    const tick = async () => {
+      try {
+        const result = await runJob(name);
+        if (!result?.skipped) {
+          console.log(`Job ${name} finished:`, JSON.stringify(result));
+        }
+      } catch (error) {
+        console.error(`Job ${name} error:`, error);
+      }
+    };
+
+    // Catch up shortly after startup, then run on the interval
+    setTimeout(tick, 5000);
+    setInterval(tick, job.intervalMs);
+  });
+
+  console.log(`Scheduler started: ${Object.keys(jobs).join(', ')}`);
+}
+
+module.exports = { jobs, runJob, getJobStatuses, startScheduler };
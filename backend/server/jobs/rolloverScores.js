@@ -0,0 +1,14 @@
+const supabase = require('../config/supabase');
+
+// Fill in 0% scores for every user's finished days that had tasks due
+async function rolloverScores() {
+  const { data, error } = await supabase.rpc('rollover_daily_scores');
+
+  if (error) {
+    throw error;
+  }
+
+  return { filled: data };
+}
+
+module.exports = rolloverScores;
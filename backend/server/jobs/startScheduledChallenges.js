@@ -0,0 +1,38 @@
+const supabase = require('../config/supabase');
+const { transitionChallenge } = require('../services/challenges');
+const { getLocalDate, getProfileTimeZone } = require('../utils/dates');
+
+// Start scheduled challenges once their start date arrives for the creator
+async function startScheduledChallenges() {
+  // UTC+14 is the first timezone to reach a date, so nothing can be due to
+  // start anywhere before then
+  const earliestToday = getLocalDate('Pacific/Kiritimati');
+
+  const { data: challenges, error } = await supabase
+    .from('challenges')
+    .select('id, status, start_date, creator_profile:profiles!challenges_creator_id_fkey(timezone)')
+    .eq('status', 'scheduled')
+    .lte('start_date', earliestToday);
+
+  if (error) {
+    throw error;
+  }
+
+  let startedCount = 0;
+
+  for (const challenge of challenges) {
+    // Challenge dates are calendar days in the creator's timezone
+    if (getLocalDate(getProfileTimeZone(challenge.creator_profile?.timezone)) < challenge.start_date) {
+      continue;
+    }
+
+    const { error: transitionError } = await transitionChallenge(challenge, 'active');
+    if (!transitionError) {
+      startedCount++;
+    }
+  }
+
+  return { started: startedCount };
+}
+
+module.exports = startScheduledChallenges;
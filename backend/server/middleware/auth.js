@@ -1,5 +1,7 @@
+const crypto = require('crypto');
 const jwt = require('jsonwebtoken');
 const supabase = require('../config/supabase');
+const { jobServiceKey } = require('../config/app');
 
 const authenticateToken = async (req, res, next) => {
   const authHeader = req.headers['authorization'];
@@ -25,4 +27,40 @@ const authenticateToken = async (req, res, next) => {
   }
 };
 
-module.exports = { authenticateToken };
\ No newline at end of file
+const isServiceKey = (key) => {
+  if (!jobServiceKey || typeof key !== 'string') {
+    return false;
+  }
+  const expected = Buffer.from(jobServiceKey);
+  const actual = Buffer.from(key);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+// Allow either the job service key (for cron callers) or a signed-in admin
+const authenticateAdmin = async (req, res, next) => {
+  if (isServiceKey(req.headers['x-service-key'])) {
+    req.isService = true;
+    return next();
+  }
+
+  await authenticateToken(req, res, async () => {
+    try {
+      const { data: admin } = await supabase
+        .from('admin_users')
+        .select('user_id')
+        .eq('user_id', req.user.id)
+        .maybeSingle();
+
+      if (!admin) {
+        return res.status(403).json({ error: 'Admin access required' });
+      }
+
+      next();
+    } catch (error) {
+      console.error('Admin middleware error:', error);
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+  });
+};
+
+module.exports = { authenticateToken, authenticateAdmin };
\ No newline at end of file
@@ -0,0 +1,18 @@
+const express = require('express');
+const { authenticateToken } = require('../middleware/auth');
+const { getAchievements } = require('../achievements');
+
+const router = express.Router();
+
+// Get every achievement, with when the user unlocked it
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const achievements = await getAchievements(req.user.id);
+    res.json({ achievements });
+  } catch (error) {
+    console.error('Get achievements error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,24 @@
+const express = require('express');
+const { authenticateToken } = require('../middleware/auth');
+const { getFeed } = require('../services/activity');
+
+const router = express.Router();
+
+// Get a page of the user's and their friends' activity, newest first
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const { before } = req.query;
+
+    if (before !== undefined && Number.isNaN(Date.parse(before))) {
+      return res.status(400).json({ error: 'before must be a timestamp' });
+    }
+
+    const feed = await getFeed(req.user.id, before || null);
+    res.json(feed);
+  } catch (error) {
+    console.error('Get activity feed error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
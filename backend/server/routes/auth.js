@@ -1,13 +1,34 @@
+const crypto = require('crypto');
 const express = require('express');
 const supabase = require('../config/supabase');
+const storage = require('../storage');
 const { authenticateToken } = require('../middleware/auth');
+const { isValidTimeZone } = require('../utils/dates');
+const { PRIVACY_LEVELS } = require('../services/privacy');
+const { ACTIVITY_TYPES } = require('../services/activity');
+const {
+  MAX_DISPLAY_NAME_LENGTH,
+  MAX_BIO_LENGTH,
+  getUsernameError,
+  getNextUsernameChange,
+  parseAvatar,
+} = require('../utils/profiles');
 
 const router = express.Router();
 
 // Sign up
 router.post('/signup', async (req, res) => {
   try {
-    const { email, password, username, displayName } = req.body;
+    const { email, password, username, displayName, timezone } = req.body;
+
+    if (timezone !== undefined && !isValidTimeZone(timezone)) {
+      return res.status(400).json({ error: 'Invalid timezone' });
+    }
+
+    const usernameError = getUsernameError(username);
+    if (usernameError) {
+      return res.status(400).json({ error: usernameError });
+    }
 
     // Check if username already exists
     const { data: existingUser } = await supabase
@@ -41,6 +62,7 @@ router.post('/signup', async (req, res) => {
           id: data.user.id,
           username,
           display_name: displayName,
+          timezone: timezone || 'UTC',
         });
 
       if (profileError) {
@@ -133,11 +155,243 @@ router.get('/me', authenticateToken, async (req, res) => {
       return res.status(400).json({ error: error.message });
     }
 
-    res.json({ user: req.user, profile });
+    res.json({
+      user: req.user,
+      profile,
+      next_username_change: getNextUsernameChange(profile.username_changed_at),
+    });
   } catch (error) {
     console.error('Get user error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+// Update current user's profile and settings
+router.put('/me', authenticateToken, async (req, res) => {
+  try {
+    const {
+      display_name,
+      username,
+      bio,
+      timezone,
+      streak_threshold,
+      discoverable,
+      stats_visibility,
+      challenge_privacy,
+      activity_opt_out,
+    } = req.body;
+    const updates = {};
+
+    if (display_name !== undefined) {
+      const displayName = typeof display_name === 'string' ? display_name.trim() : '';
+      if (!displayName || displayName.length > MAX_DISPLAY_NAME_LENGTH) {
+        return res.status(400).json({ error: `Display name must be 1-${MAX_DISPLAY_NAME_LENGTH} characters` });
+      }
+      updates.display_name = displayName;
+    }
+
+    if (bio !== undefined) {
+      if (bio !== null && typeof bio !== 'string') {
+        return res.status(400).json({ error: 'Bio must be text' });
+      }
+      const trimmed = bio?.trim() || null;
+      if (trimmed && trimmed.length > MAX_BIO_LENGTH) {
+        return res.status(400).json({ error: `Bio can be at most ${MAX_BIO_LENGTH} characters` });
+      }
+      updates.bio = trimmed;
+    }
+
+    if (timezone !== undefined) {
+      if (!isValidTimeZone(timezone)) {
+        return res.status(400).json({ error: 'Invalid timezone' });
+      }
+      updates.timezone = timezone;
+    }
+
+    if (streak_threshold !== undefined) {
+      const threshold = Number(streak_threshold);
+      if (!Number.isInteger(threshold) || threshold < 1 || threshold > 100) {
+        return res.status(400).json({ error: 'Streak threshold must be a whole percentage between 1 and 100' });
+      }
+      updates.streak_threshold = threshold;
+    }
+
+    if (discoverable !== undefined) {
+      if (typeof discoverable !== 'boolean') {
+        return res.status(400).json({ error: 'Discoverable must be true or false' });
+      }
+      updates.discoverable = discoverable;
+    }
+
+    if (stats_visibility !== undefined) {
+      if (!PRIVACY_LEVELS.includes(stats_visibility)) {
+        return res.status(400).json({ error: `Stats visibility must be one of: ${PRIVACY_LEVELS.join(', ')}` });
+      }
+      updates.stats_visibility = stats_visibility;
+    }
+
+    if (challenge_privacy !== undefined) {
+      if (!PRIVACY_LEVELS.includes(challenge_privacy)) {
+        return res.status(400).json({ error: `Challenge privacy must be one of: ${PRIVACY_LEVELS.join(', ')}` });
+      }
+      updates.challenge_privacy = challenge_privacy;
+    }
+
+    if (activity_opt_out !== undefined) {
+      if (!Array.isArray(activity_opt_out) || activity_opt_out.some(type => !ACTIVITY_TYPES.includes(type))) {
+        return res.status(400).json({ error: `Activity opt-outs must be a list of: ${ACTIVITY_TYPES.join(', ')}` });
+      }
+      updates.activity_opt_out = [...new Set(activity_opt_out)];
+    }
+
+    if (username !== undefined) {
+      const usernameError = getUsernameError(username);
+      if (usernameError) {
+        return res.status(400).json({ error: usernameError });
+      }
+
+      const { data: current, error: currentError } = await supabase
+        .from('profiles')
+        .select('username, username_changed_at')
+        .eq('id', req.user.id)
+        .single();
+
+      if (currentError) {
+        return res.status(400).json({ error: currentError.message });
+      }
+
+      if (username !== current.username) {
+        const nextChange = getNextUsernameChange(current.username_changed_at);
+        if (nextChange) {
+          return res.status(403).json({
+            error: `You can change your username again on ${nextChange.toISOString().slice(0, 10)}`,
+          });
+        }
+
+        const { data: taken } = await supabase
+          .from('profiles')
+          .select('id')
+          .eq('username', username)
+          .maybeSingle();
+
+        if (taken) {
+          return res.status(409).json({ error: 'Username already exists' });
+        }
+
+        // The database stamps username_changed_at
+        updates.username = username;
+      }
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({ error: 'Nothing to update' });
+    }
+
+    const { data: profile, error } = await supabase
+      .from('profiles')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', req.user.id)
+      .select()
+      .single();
+
+    // Unique violation: someone took the username since it was checked
+    if (error?.code === '23505') {
+      return res.status(409).json({ error: 'Username already exists' });
+    }
+
+    // The cooldown trigger caught a change the check above let through, such
+    // as two renames at once
+    if (error?.code === '42501') {
+      return res.status(403).json({ error: error.message });
+    }
+
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    res.json({
+      profile,
+      next_username_change: getNextUsernameChange(profile.username_changed_at),
+    });
+  } catch (error) {
+    console.error('Update user error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Where a user's avatars are stored. Only files under it are ever deleted on
+// their behalf, since avatar_url can point anywhere.
+const avatarKeyPrefix = userId => `avatars/${userId}/`;
+
+// Point the profile at a new avatar URL (or none) and delete the old file.
+// A failed delete only leaves an orphaned file, so it doesn't fail the request.
+async function replaceAvatar(userId, avatarUrl) {
+  const { data: current } = await supabase
+    .from('profiles')
+    .select('avatar_url')
+    .eq('id', userId)
+    .single();
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .update({ avatar_url: avatarUrl, updated_at: new Date().toISOString() })
+    .eq('id', userId)
+    .select()
+    .single();
+
+  if (error) {
+    return { error };
+  }
+
+  if (current?.avatar_url && current.avatar_url !== avatarUrl) {
+    storage.remove(current.avatar_url, avatarKeyPrefix(userId)).catch(removeError => {
+      console.error('Remove avatar error:', removeError);
+    });
+  }
+
+  return { profile };
+}
+
+// Upload a new avatar, sent as a base64 data URL in `image`
+router.put('/me/avatar', authenticateToken, async (req, res) => {
+  try {
+    const { avatar, error: avatarError } = parseAvatar(req.body.image);
+    if (avatarError) {
+      return res.status(400).json({ error: avatarError });
+    }
+
+    // A fresh key per upload, so caches never show the old image
+    const key = `${avatarKeyPrefix(req.user.id)}${crypto.randomUUID()}.${avatar.extension}`;
+    const avatarUrl = await storage.save(key, avatar.buffer, avatar.contentType);
+
+    const { profile, error } = await replaceAvatar(req.user.id, avatarUrl);
+
+    if (error) {
+      await storage.remove(avatarUrl, avatarKeyPrefix(req.user.id));
+      return res.status(400).json({ error: error.message });
+    }
+
+    res.json({ profile });
+  } catch (error) {
+    console.error('Upload avatar error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Remove the current avatar
+router.delete('/me/avatar', authenticateToken, async (req, res) => {
+  try {
+    const { profile, error } = await replaceAvatar(req.user.id, null);
+
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    res.json({ profile });
+  } catch (error) {
+    console.error('Remove avatar error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 module.exports = router;
\ No newline at end of file
@@ -1,20 +1,45 @@
 const express = require('express');
 const supabase = require('../config/supabase');
-const { authenticateToken } = require('../middleware/auth');
+const { authenticateToken, authenticateAdmin } = require('../middleware/auth');
+const { runJob } = require('../jobs');
+const { inviteExpiryDays } = require('../config/app');
+const { getUserToday } = require('../services/profiles');
+const { getRefusingInvitees } = require('../services/privacy');
+const {
+  MIN_GROUP_SIZE,
+  MAX_GROUP_SIZE,
+  MIN_ACTIVE_PARTICIPANTS,
+  DURATION_TYPES,
+  DEFAULT_MAX_EXCUSED_DAYS,
+  MAX_EXCUSED_DAYS_LIMIT,
+  CHALLENGE_SELECT,
+  CHALLENGE_DETAIL_SELECT,
+  getUserChallengeIds,
+  settleGroupInvitations,
+  getChallengeEndDate,
+  transitionChallenge,
+  startChallenge,
+  getChallengeStandings,
+  getChallengeProgress,
+} = require('../services/challenges');
+const { parseMetric } = require('../utils/challengeMetrics');
+const { isDateString } = require('../utils/dates');
 
 const router = express.Router();
 
 // Get user's challenges
 router.get('/', authenticateToken, async (req, res) => {
   try {
+    const challengeIds = await getUserChallengeIds(req.user.id);
+
+    if (challengeIds.length === 0) {
+      return res.json({ challenges: [] });
+    }
+
     const { data, error } = await supabase
       .from('challenges')
-      .select(`
-        *,
-        creator_profile:profiles!challenges_creator_id_fkey(username, display_name),
-        challenger_profile:profiles!challenges_challenger_id_fkey(username, display_name)
-      `)
-      .or(`creator_id.eq.${req.user.id},challenger_id.eq.${req.user.id}`)
+      .select(CHALLENGE_SELECT)
+      .in('id', challengeIds)
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -31,49 +56,116 @@ router.get('/', authenticateToken, async (req, res) => {
 // Create challenge
 router.post('/', authenticateToken, async (req, res) => {
   try {
-    const { challenger_username, duration_type, duration_count } = req.body;
+    const {
+      challenge_type = 'duel',
+      challenger_username,
+      usernames,
+      name,
+      duration_type,
+      duration_count,
+      start_date,
+      max_excused_days = DEFAULT_MAX_EXCUSED_DAYS,
+    } = req.body;
 
-    // Find challenger by username
-    const { data: challengerData, error: challengerError } = await supabase
-      .from('profiles')
-      .select('id')
-      .eq('username', challenger_username)
-      .maybeSingle();
+    const { metric, error: metricError } = parseMetric(req.body);
+    if (metricError) {
+      return res.status(400).json({ error: metricError });
+    }
+
+    const durationCount = Number(duration_count);
+    if (!DURATION_TYPES.includes(duration_type) || !Number.isInteger(durationCount) || durationCount < 1) {
+      return res.status(400).json({ error: 'Duration must be a whole number of days, weeks, months or years' });
+    }
+
+    const maxExcusedDays = Number(max_excused_days);
+    if (!Number.isInteger(maxExcusedDays) || maxExcusedDays < 0 || maxExcusedDays > MAX_EXCUSED_DAYS_LIMIT) {
+      return res.status(400).json({ error: `Excused days must be a whole number between 0 and ${MAX_EXCUSED_DAYS_LIMIT}` });
+    }
+
+    let invitees;
+
+    if (challenge_type === 'duel') {
+      // Find challenger by username
+      const { data: challengerData, error: challengerError } = await supabase
+        .from('profiles')
+        .select('id, username, challenge_privacy')
+        .eq('username', challenger_username)
+        .maybeSingle();
+
+      if (challengerError || !challengerData) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      invitees = [challengerData];
+    } else if (challenge_type === 'group') {
+      const requested = [...new Set(
+        (Array.isArray(usernames) ? usernames : []).map(u => String(u).trim()).filter(Boolean)
+      )];
+
+      if (requested.length < MIN_GROUP_SIZE - 1 || requested.length > MAX_GROUP_SIZE - 1) {
+        return res.status(400).json({
+          error: `Group challenges need between ${MIN_GROUP_SIZE - 1} and ${MAX_GROUP_SIZE - 1} other participants`,
+        });
+      }
+
+      // Find every invitee by username
+      const { data: profiles, error: profilesError } = await supabase
+        .from('profiles')
+        .select('id, username, challenge_privacy')
+        .in('username', requested);
 
-    if (challengerError || !challengerData) {
-      return res.status(404).json({ error: 'User not found' });
+      if (profilesError) {
+        return res.status(400).json({ error: profilesError.message });
+      }
+
+      const missing = requested.filter(username => !profiles.some(p => p.username === username));
+      if (missing.length > 0) {
+        return res.status(404).json({ error: `User not found: ${missing.join(', ')}` });
+      }
+
+      invitees = profiles;
+    } else {
+      return res.status(400).json({ error: 'Challenge type must be duel or group' });
     }
 
-    if (challengerData.id === req.user.id) {
+    if (invitees.some(invitee => invitee.id === req.user.id)) {
       return res.status(400).json({ error: 'You cannot challenge yourself' });
     }
 
-    // Calculate end date
-    const startDate = new Date();
-    let endDate = new Date();
+    // Invitees choose who can challenge them, and blocks work both ways
+    const refusing = await getRefusingInvitees(req.user.id, invitees);
+    if (refusing.length > 0) {
+      return res.status(403).json({
+        error: `Not accepting challenges from you: ${refusing.map(invitee => invitee.username).join(', ')}`,
+      });
+    }
 
-    switch (duration_type) {
-      case 'day':
-        endDate.setDate(startDate.getDate() + duration_count);
-        break;
-      case 'week':
-        endDate.setDate(startDate.getDate() + (duration_count * 7));
-        break;
-      case 'month':
-        endDate.setMonth(startDate.getMonth() + duration_count);
-        break;
-      case 'year':
-        endDate.setFullYear(startDate.getFullYear() + duration_count);
-        break;
+    // Challenge dates are calendar days in the creator's timezone. Without a
+    // chosen start date the dates are provisional until it's accepted.
+    const today = await getUserToday(req.user.id);
+
+    if (start_date && (!isDateString(start_date) || start_date < today)) {
+      return res.status(400).json({ error: 'Start date must be today or later' });
     }
 
+    const startDate = start_date || today;
+    const expiresAt = new Date(Date.now() + inviteExpiryDays * 24 * 60 * 60 * 1000);
+
     const { data, error } = await supabase
       .from('challenges')
       .insert({
         creator_id: req.user.id,
-        challenger_id: challengerData.id,
-        start_date: startDate.toISOString().split('T')[0],
-        end_date: endDate.toISOString().split('T')[0],
+        challenger_id: challenge_type === 'duel' ? invitees[0].id : null,
+        challenge_type,
+        name: challenge_type === 'group' && name ? String(name).trim() : null,
+        ...metric,
+        scheduled_start_date: start_date || null,
+        duration_type,
+        duration_count: durationCount,
+        max_excused_days: maxExcusedDays,
+        start_date: startDate,
+        end_date: getChallengeEndDate(startDate, duration_type, durationCount),
+        expires_at: expiresAt.toISOString(),
         status: 'pending',
       })
       .select()
@@ -83,6 +175,19 @@ router.post('/', authenticateToken, async (req, res) => {
       return res.status(400).json({ error: error.message });
     }
 
+    // The creator is in from the start; everyone else has to accept
+    const { error: participantsError } = await supabase
+      .from('challenge_participants')
+      .insert([
+        { challenge_id: data.id, user_id: req.user.id, status: 'accepted', responded_at: new Date().toISOString() },
+        ...invitees.map(invitee => ({ challenge_id: data.id, user_id: invitee.id, status: 'invited' })),
+      ]);
+
+    if (participantsError) {
+      await supabase.from('challenges').delete().eq('id', data.id);
+      return res.status(400).json({ error: participantsError.message });
+    }
+
     res.status(201).json({ challenge: data });
   } catch (error) {
     console.error('Create challenge error:', error);
@@ -90,37 +195,174 @@ router.post('/', authenticateToken, async (req, res) => {
   }
 });
 
+// Get a challenge with everyone's day-by-day progress
+router.get('/:id', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const { data: challenge, error: fetchError } = await supabase
+      .from('challenges')
+      .select(CHALLENGE_DETAIL_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (fetchError || !challenge || !challenge.participants.some(p => p.user_id === req.user.id)) {
+      return res.status(404).json({ error: 'Challenge not found' });
+    }
+
+    const today = await getUserToday(req.user.id);
+    const progress = await getChallengeProgress(challenge, today);
+
+    res.json({ challenge, today, ...progress });
+  } catch (error) {
+    console.error('Get challenge error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get the standings of a challenge by its metric
+router.get('/:id/standings', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const { data: challenge, error: fetchError } = await supabase
+      .from('challenges')
+      .select(CHALLENGE_DETAIL_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (fetchError || !challenge || !challenge.participants.some(p => p.user_id === req.user.id)) {
+      return res.status(404).json({ error: 'Challenge not found' });
+    }
+
+    if (challenge.status !== 'active' && challenge.status !== 'completed') {
+      return res.status(400).json({ error: 'Standings are available once a challenge has started' });
+    }
+
+    const standings = await getChallengeStandings(challenge);
+
+    res.json({
+      metric: challenge.metric,
+      standings: standings.map(standing => {
+        const { profile } = challenge.participants.find(p => p.user_id === standing.user_id);
+        return {
+          ...standing,
+          username: profile.username,
+          display_name: profile.display_name,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('Get challenge standings error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Respond to challenge
 router.put('/:id/respond', authenticateToken, async (req, res) => {
   try {
     const { id } = req.params;
     const { accept } = req.body;
-    const status = accept ? 'active' : 'cancelled';
 
-    const { data, error } = await supabase
+    const { data: challenge, error: fetchError } = await supabase
       .from('challenges')
-      .update({ status })
+      .select('*, participants:challenge_participants(user_id, status)')
       .eq('id', id)
-      .eq('challenger_id', req.user.id)
-      .select()
-      .single();
+      .maybeSingle();
 
-    if (error) {
-      return res.status(400).json({ error: error.message });
+    if (fetchError || !challenge) {
+      return res.status(404).json({ error: 'Challenge not found' });
+    }
+
+    const participant = challenge.participants.find(p => p.user_id === req.user.id);
+    if (!participant || participant.status !== 'invited') {
+      return res.status(400).json({ error: 'You have no pending invitation for this challenge' });
+    }
+    if (challenge.status !== 'pending') {
+      return res.status(409).json({ error: `This challenge is ${challenge.status}, not pending` });
+    }
+
+    // Invitations run out even if the expire-invitations job hasn't caught up
+    if (challenge.expires_at && new Date(challenge.expires_at) < new Date()) {
+      await transitionChallenge(challenge, 'expired');
+      return res.status(409).json({ error: 'This invitation has expired' });
+    }
+
+    const participantStatus = accept ? 'accepted' : 'declined';
+    const { data: responded, error: respondError } = await supabase
+      .from('challenge_participants')
+      .update({ status: participantStatus, responded_at: new Date().toISOString() })
+      .eq('challenge_id', id)
+      .eq('user_id', req.user.id)
+      .eq('status', 'invited')
+      .select('user_id');
+
+    if (respondError) {
+      return res.status(400).json({ error: respondError.message });
+    }
+
+    if (responded.length === 0) {
+      return res.status(409).json({ error: 'You already answered this invitation' });
+    }
+
+    // A duel starts or ends with the one answer; a group waits for everyone.
+    // The group's answers are read again now this one is stored, otherwise
+    // two last answers at once would each still see the other as invited.
+    let outcome = participantStatus;
+    if (challenge.challenge_type === 'group') {
+      const { data: participants, error: participantsError } = await supabase
+        .from('challenge_participants')
+        .select('user_id, status')
+        .eq('challenge_id', id);
+
+      if (participantsError) {
+        return res.status(400).json({ error: participantsError.message });
+      }
+
+      challenge.participants = participants;
+      outcome = settleGroupInvitations(participants);
+    }
+
+    if (!outcome) {
+      return res.json({ challenge });
     }
 
-    res.json({ challenge: data });
+    const result = outcome === 'accepted'
+      ? await startChallenge(challenge)
+      : await transitionChallenge(challenge, 'declined');
+
+    // Both of two last answers can settle a group; when the other got there
+    // first, this answer is still recorded
+    if (result.error && challenge.challenge_type === 'group') {
+      const { data: current, error: currentError } = await supabase
+        .from('challenges')
+        .select('*, participants:challenge_participants(user_id, status)')
+        .eq('id', id)
+        .single();
+
+      if (currentError) {
+        return res.status(400).json({ error: currentError.message });
+      }
+
+      return res.json({ challenge: current });
+    }
+
+    if (result.error) {
+      return res.status(409).json({ error: result.error });
+    }
+
+    res.json({ challenge: result.challenge });
   } catch (error) {
     console.error('Respond to challenge error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Cancel challenge (creator only, pending only)
+// Cancel challenge (creator only, before it starts)
 router.put('/:id/cancel', authenticateToken, async (req, res) => {
   try {
     const { id } = req.params;
-    // Only the creator can cancel, and only if pending
+    // Only the creator can cancel, and only if pending or scheduled
     const { data: challenge, error: fetchError } = await supabase
       .from('challenges')
       .select('*')
@@ -132,91 +374,75 @@ router.put('/:id/cancel', authenticateToken, async (req, res) => {
     if (challenge.creator_id !== req.user.id) {
       return res.status(403).json({ error: 'Only the creator can cancel this challenge' });
     }
-    if (challenge.status !== 'pending') {
-      return res.status(400).json({ error: 'Only pending challenges can be cancelled' });
-    }
-    const { data, error } = await supabase
-      .from('challenges')
-      .update({ status: 'cancelled' })
-      .eq('id', id)
-      .select()
-      .single();
-    if (error) {
-      return res.status(400).json({ error: error.message });
+    const result = await transitionChallenge(challenge, 'cancelled');
+    if (result.error) {
+      return res.status(409).json({ error: result.error });
     }
-    res.json({ challenge: data });
+    res.json({ challenge: result.challenge });
   } catch (error) {
     console.error('Cancel challenge error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Complete challenges (run periodically)
-router.post('/complete', authenticateToken, async (req, res) => {
+// Start a group challenge before everyone has answered (creator only)
+router.put('/:id/start', authenticateToken, async (req, res) => {
   try {
-    const today = new Date().toISOString().split('T')[0];
+    const { id } = req.params;
 
-    // Get active challenges that have ended
-    const { data: challenges, error } = await supabase
+    const { data: challenge, error: fetchError } = await supabase
       .from('challenges')
-      .select('*')
-      .eq('status', 'active')
-      .lte('end_date', today);
+      .select('*, participants:challenge_participants(user_id, status)')
+      .eq('id', id)
+      .maybeSingle();
 
-    if (error) {
-      return res.status(400).json({ error: error.message });
+    if (fetchError || !challenge) {
+      return res.status(404).json({ error: 'Challenge not found' });
+    }
+    if (challenge.creator_id !== req.user.id) {
+      return res.status(403).json({ error: 'Only the creator can start this challenge' });
+    }
+    if (challenge.challenge_type !== 'group') {
+      return res.status(400).json({ error: 'Only group challenges can be started early' });
+    }
+    if (challenge.status !== 'pending') {
+      return res.status(409).json({ error: `This challenge is ${challenge.status}, not pending` });
     }
 
-    for (const challenge of challenges) {
-      // Calculate average scores for both participants
-      const { data: creatorScores } = await supabase
-        .from('daily_scores')
-        .select('percentage_score')
-        .eq('user_id', challenge.creator_id)
-        .gte('score_date', challenge.start_date)
-        .lte('score_date', challenge.end_date);
-
-      const { data: challengerScores } = await supabase
-        .from('daily_scores')
-        .select('percentage_score')
-        .eq('user_id', challenge.challenger_id)
-        .gte('score_date', challenge.start_date)
-        .lte('score_date', challenge.end_date);
-
-      const creatorAvg = creatorScores.length > 0 
-        ? creatorScores.reduce((sum, s) => sum + s.percentage_score, 0) / creatorScores.length 
-        : 0;
-
-      const challengerAvg = challengerScores.length > 0 
-        ? challengerScores.reduce((sum, s) => sum + s.percentage_score, 0) / challengerScores.length 
-        : 0;
-
-      let winnerId = null;
-      if (creatorAvg > challengerAvg) {
-        winnerId = challenge.creator_id;
-      } else if (challengerAvg > creatorAvg) {
-        winnerId = challenge.challenger_id;
-      }
+    const acceptedCount = challenge.participants.filter(p => p.status === 'accepted').length;
+    if (acceptedCount < MIN_ACTIVE_PARTICIPANTS) {
+      return res.status(400).json({ error: 'Wait until at least one invitee has accepted' });
+    }
 
-      // Update challenge status
-      await supabase
-        .from('challenges')
-        .update({ 
-          status: 'completed',
-          winner_id: winnerId 
-        })
-        .eq('id', challenge.id);
-
-      // Update user win/loss counts
-      if (winnerId) {
-        const loserId = winnerId === challenge.creator_id ? challenge.challenger_id : challenge.creator_id;
-        
-        await supabase.rpc('increment_wins', { user_id: winnerId });
-        await supabase.rpc('increment_losses', { user_id: loserId });
-      }
+    const result = await startChallenge(challenge);
+    if (result.error) {
+      return res.status(409).json({ error: result.error });
+    }
+
+    // Anyone who hasn't answered misses out
+    await supabase
+      .from('challenge_participants')
+      .update({ status: 'declined', responded_at: new Date().toISOString() })
+      .eq('challenge_id', id)
+      .eq('status', 'invited');
+
+    res.json({ challenge: result.challenge });
+  } catch (error) {
+    console.error('Start challenge error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Complete challenges (also runs on the scheduler)
+router.post('/complete', authenticateAdmin, async (req, res) => {
+  try {
+    const result = await runJob('complete-challenges');
+
+    if (result.skipped) {
+      return res.status(409).json({ error: result.reason });
     }
 
-    res.json({ message: `Completed ${challenges.length} challenges` });
+    res.json({ message: `Completed ${result.completed} challenges` });
   } catch (error) {
     console.error('Complete challenges error:', error);
     res.status(500).json({ error: 'Internal server error' });
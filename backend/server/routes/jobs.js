@@ -0,0 +1,40 @@
+const express = require('express');
+const { authenticateAdmin } = require('../middleware/auth');
+const { jobs, runJob, getJobStatuses } = require('../jobs');
+
+const router = express.Router();
+
+// Get job statuses
+router.get('/', authenticateAdmin, async (req, res) => {
+  try {
+    const statuses = await getJobStatuses();
+    res.json({ jobs: statuses });
+  } catch (error) {
+    console.error('Get jobs error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Run a job now
+router.post('/:name/run', authenticateAdmin, async (req, res) => {
+  try {
+    const { name } = req.params;
+
+    if (!Object.hasOwn(jobs, name)) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const result = await runJob(name);
+
+    if (result.skipped) {
+      return res.status(409).json({ error: result.reason });
+    }
+
+    res.json({ job: name, result });
+  } catch (error) {
+    console.error('Run job error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
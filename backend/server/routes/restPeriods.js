@@ -0,0 +1,136 @@
+const express = require('express');
+const supabase = require('../config/supabase');
+const { authenticateToken } = require('../middleware/auth');
+const { completionBackfillDays } = require('../config/app');
+const { isScoreDateLocked } = require('../services/scores');
+const { getUserToday } = require('../services/profiles');
+const { MAX_REST_PERIOD_DAYS, getRestPeriods, setDaysExcused } = require('../services/restPeriods');
+const { addDays, daysBetween, isDateString } = require('../utils/dates');
+
+const router = express.Router();
+
+// Get the user's rest periods
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const restPeriods = await getRestPeriods(req.user.id);
+    res.json({ restPeriods });
+  } catch (error) {
+    console.error('Get rest periods error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Add a rest day or vacation. Like completions, it can reach back into the
+// backfill window but no further, and not into a finished challenge.
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const { start_date, end_date = start_date, reason } = req.body;
+
+    if (!isDateString(start_date) || !isDateString(end_date) || end_date < start_date) {
+      return res.status(400).json({ error: 'Rest periods need a start date and an end date on or after it' });
+    }
+
+    if (daysBetween(start_date, end_date) + 1 > MAX_REST_PERIOD_DAYS) {
+      return res.status(400).json({ error: `Rest periods can be at most ${MAX_REST_PERIOD_DAYS} days long` });
+    }
+
+    const today = await getUserToday(req.user.id);
+    const earliestDate = addDays(today, -completionBackfillDays);
+
+    if (start_date < earliestDate) {
+      return res.status(400).json({ error: `Rest periods can start at most ${completionBackfillDays} days ago` });
+    }
+
+    for (let date = start_date; date <= end_date && date <= today; date = addDays(date, 1)) {
+      if (await isScoreDateLocked(req.user.id, date)) {
+        return res.status(403).json({ error: 'A day in this range counted toward a finished challenge and can no longer be changed' });
+      }
+    }
+
+    const overlapping = await getRestPeriods(req.user.id, start_date, end_date);
+    if (overlapping.length > 0) {
+      return res.status(409).json({ error: 'This overlaps another rest period' });
+    }
+
+    const { data, error } = await supabase
+      .from('rest_periods')
+      .insert({
+        user_id: req.user.id,
+        start_date,
+        end_date,
+        reason: typeof reason === 'string' && reason.trim() ? reason.trim() : null,
+      })
+      .select('id, start_date, end_date, reason, created_at')
+      .single();
+
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    await setDaysExcused(req.user.id, start_date, end_date, true);
+
+    res.status(201).json({ restPeriod: data });
+  } catch (error) {
+    console.error('Create rest period error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Remove a rest period. One that started before the backfill window can't be
+// undone, only cut short: it ends yesterday and today counts again.
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    const { data: restPeriod, error: findError } = await supabase
+      .from('rest_periods')
+      .select('id, start_date, end_date')
+      .eq('id', req.params.id)
+      .eq('user_id', req.user.id)
+      .single();
+
+    if (findError) {
+      return res.status(404).json({ error: 'Rest period not found' });
+    }
+
+    const today = await getUserToday(req.user.id);
+    const earliestDate = addDays(today, -completionBackfillDays);
+
+    if (restPeriod.start_date >= earliestDate) {
+      const { error } = await supabase
+        .from('rest_periods')
+        .delete()
+        .eq('id', restPeriod.id);
+
+      if (error) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      await setDaysExcused(req.user.id, restPeriod.start_date, restPeriod.end_date, false);
+
+      return res.json({ message: 'Rest period removed' });
+    }
+
+    if (restPeriod.end_date < today) {
+      return res.status(400).json({ error: 'This rest period is over and can no longer be changed' });
+    }
+
+    const { data, error } = await supabase
+      .from('rest_periods')
+      .update({ end_date: addDays(today, -1) })
+      .eq('id', restPeriod.id)
+      .select('id, start_date, end_date, reason, created_at')
+      .single();
+
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    await setDaysExcused(req.user.id, today, restPeriod.end_date, false);
+
+    res.json({ message: 'Rest period ended', restPeriod: data });
+  } catch (error) {
+    console.error('Delete rest period error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
@@ -1,15 +1,62 @@
 const express = require('express');
 const supabase = require('../config/supabase');
 const { authenticateToken } = require('../middleware/auth');
+const { getDueTasks, getLoggableTasks, fillMissedDays } = require('../services/scores');
+const { getUserToday } = require('../services/profiles');
+const { getStreaks } = require('../services/streaks');
+const { getRestPeriods } = require('../services/restPeriods');
+const { getAnalytics } = require('../services/analytics');
+const { getDayDetail } = require('../services/days');
+const { CHALLENGE_SELECT, getUserChallengeIds } = require('../services/challenges');
+const { addDays, getMonthRange, isDateString } = require('../utils/dates');
+const { getTaskProgress } = require('../utils/taskTypes');
+const { parseAnalyticsRange } = require('../utils/analytics');
 
 const router = express.Router();
 
+const HEATMAP_DAYS = 365;
+
+// The user's results in challenges that ended between two dates
+async function getChallengeResults(userId, start, end) {
+  const challengeIds = await getUserChallengeIds(userId);
+  const { data: challenges } = await supabase
+    .from('challenges')
+    .select(CHALLENGE_SELECT)
+    .in('id', challengeIds)
+    .eq('status', 'completed')
+    .gte('end_date', start)
+    .lte('end_date', end);
+
+  return (challenges || [])
+    .filter(challenge => challenge.participants
+      .some(p => p.user_id === userId && p.status === 'accepted'))
+    .map(challenge => {
+      const me = challenge.participants.find(p => p.user_id === userId);
+      const opponents = challenge.participants
+        .filter(p => p.user_id !== userId && p.status === 'accepted');
+
+      return {
+        date: challenge.end_date,
+        won: challenge.winner_id === userId,
+        opponent: challenge.challenge_type === 'group'
+          ? challenge.name || `${opponents.length} others`
+          : opponents[0]?.profile.display_name,
+        challenge_id: challenge.id,
+        challenge_type: challenge.challenge_type,
+        rank: me?.rank ?? null,
+        participant_count: opponents.length + 1,
+      };
+    });
+}
+
 // Get dashboard stats
 router.get('/dashboard', authenticateToken, async (req, res) => {
   try {
-    const today = new Date().toISOString().split('T')[0];
-    const weekAgo = new Date();
-    weekAgo.setDate(weekAgo.getDate() - 7);
+    const today = await getUserToday(req.user.id);
+    const weekAgo = addDays(today, -7);
+
+    // Roll over any finished days that had tasks due but nothing logged
+    await fillMissedDays(req.user.id, addDays(today, -1));
 
     // Get user profile
     const { data: profile } = await supabase
@@ -26,30 +73,35 @@ router.get('/dashboard', authenticateToken, async (req, res) => {
       .eq('score_date', today)
       .maybeSingle();
 
+    // Whether today is a rest day
+    const todayRestPeriods = await getRestPeriods(req.user.id, today, today);
+
     // Get active challenges count
     const { count: activeChallengesCount } = await supabase
-      .from('challenges')
-      .select('*', { count: 'exact', head: true })
-      .or(`creator_id.eq.${req.user.id},challenger_id.eq.${req.user.id}`)
-      .eq('status', 'active');
+      .from('challenge_participants')
+      .select('challenge_id, challenge:challenges!inner(status)', { count: 'exact', head: true })
+      .eq('user_id', req.user.id)
+      .eq('status', 'accepted')
+      .eq('challenge.status', 'active');
 
-    // Get weekly average
+    // Get weekly average, leaving out excused days
     const { data: weeklyScores } = await supabase
       .from('daily_scores')
       .select('percentage_score')
       .eq('user_id', req.user.id)
-      .gte('score_date', weekAgo.toISOString().split('T')[0]);
+      .gte('score_date', weekAgo)
+      .gt('total_possible_points', 0)
+      .eq('is_excused', false);
 
     const weeklyAverage = weeklyScores?.length 
       ? weeklyScores.reduce((sum, score) => sum + score.percentage_score, 0) / weeklyScores.length
       : 0;
 
-    // Get today's tasks with completions
-    const { data: tasks } = await supabase
-      .from('tasks')
-      .select('*')
-      .eq('user_id', req.user.id)
-      .eq('is_active', true);
+    // Get the tasks that can be logged today with completions. Times-per-week
+    // tasks show up even when they don't count toward today's score yet.
+    const tasks = await getLoggableTasks(req.user.id, today);
+    const dueTasks = await getDueTasks(req.user.id, today);
+    const dueIds = new Set(dueTasks.map(task => task.id));
 
     const { data: completions } = await supabase
       .from('task_completions')
@@ -57,32 +109,45 @@ router.get('/dashboard', authenticateToken, async (req, res) => {
       .eq('user_id', req.user.id)
       .eq('completion_date', today);
 
-    const todayTasks = tasks?.map(task => {
+    const streaks = await getStreaks(req.user.id);
+
+    const todayTasks = tasks.map(task => {
       const completion = completions?.find(c => c.task_id === task.id);
-      const completedDuration = completion?.actual_duration_hours || 0;
-      const earnedPoints = completion?.earned_points || 0;
-      const completionPercentage = task.duration_hours > 0 
-        ? Math.min((completedDuration / task.duration_hours) * 100, 100)
-        : 0;
+      const value = completion ? Number(completion.value) : 0;
+      // An avoided habit earns its points until it's logged as broken
+      const earnedPoints = completion
+        ? Number(completion.earned_points)
+        : (task.task_type === 'avoid' ? task.points : 0);
 
       return {
         id: task.id,
         name: task.name,
+        task_type: task.task_type,
         duration_hours: task.duration_hours,
+        target_count: task.target_count,
+        unit: task.unit,
         points: task.points,
-        completed_duration: completedDuration,
+        is_due: dueIds.has(task.id),
+        value,
+        completed_duration: completion ? Number(completion.actual_duration_hours) : 0,
         earned_points: earnedPoints,
-        completion_percentage: completionPercentage,
+        completion_percentage: getTaskProgress(task, value),
+        current_streak: streaks.tasks[task.id]?.current || 0,
       };
-    }) || [];
+    });
 
     res.json({
       stats: {
         todayScore: todayScore?.percentage_score || 0,
+        todayExcused: todayRestPeriods.length > 0,
         totalWins: profile?.total_wins || 0,
         totalLosses: profile?.total_losses || 0,
         activeChallenges: activeChallengesCount || 0,
         weeklyAverage,
+        currentStreak: streaks.overall.current,
+        longestStreak: streaks.overall.longest,
+        streakFreezes: streaks.overall.freezes,
+        streakThreshold: streaks.overall.threshold,
       },
       todayTasks
     });
@@ -92,49 +157,77 @@ router.get('/dashboard', authenticateToken, async (req, res) => {
   }
 });
 
+// Get the user's overall and per-task streaks
+router.get('/streaks', authenticateToken, async (req, res) => {
+  try {
+    const streaks = await getStreaks(req.user.id);
+    res.json(streaks);
+  } catch (error) {
+    console.error('Get streaks error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get score trends and per-task statistics for a date range
+router.get('/analytics', authenticateToken, async (req, res) => {
+  try {
+    const today = await getUserToday(req.user.id);
+
+    const { range, error: rangeError } = parseAnalyticsRange(req.query, today);
+    if (rangeError) {
+      return res.status(400).json({ error: rangeError });
+    }
+
+    const analytics = await getAnalytics(req.user.id, range, today);
+    res.json(analytics);
+  } catch (error) {
+    console.error('Get analytics error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get one day's score, tasks as they were defined that day, and the
+// challenges it counted toward
+router.get('/days/:date', authenticateToken, async (req, res) => {
+  try {
+    if (!isDateString(req.params.date)) {
+      return res.status(400).json({ error: 'Date must be in YYYY-MM-DD format' });
+    }
+
+    const day = await getDayDetail(req.user.id, req.params.date);
+    res.json(day);
+  } catch (error) {
+    console.error('Get day detail error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Get calendar data
 router.get('/calendar', authenticateToken, async (req, res) => {
   try {
     const { month, year } = req.query;
-    const date = new Date(year, month - 1, 1);
-    const monthStart = new Date(date.getFullYear(), date.getMonth(), 1);
-    const monthEnd = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+    const { start: monthStart, end: monthEnd } = getMonthRange(Number(year), Number(month));
 
     // Get daily scores for the month
     const { data: scores } = await supabase
       .from('daily_scores')
       .select('*')
       .eq('user_id', req.user.id)
-      .gte('score_date', monthStart.toISOString().split('T')[0])
-      .lte('score_date', monthEnd.toISOString().split('T')[0]);
+      .gte('score_date', monthStart)
+      .lte('score_date', monthEnd);
+
+    // Rest periods overlapping the month, so excused days show even before they're scored
+    const restPeriods = await getRestPeriods(req.user.id, monthStart, monthEnd);
 
     // Get challenge results for the month
-    const { data: challenges } = await supabase
-      .from('challenges')
-      .select(`
-        *,
-        creator_profile:profiles!challenges_creator_id_fkey(username, display_name),
-        challenger_profile:profiles!challenges_challenger_id_fkey(username, display_name)
-      `)
-      .or(`creator_id.eq.${req.user.id},challenger_id.eq.${req.user.id}`)
-      .eq('status', 'completed')
-      .gte('end_date', monthStart.toISOString().split('T')[0])
-      .lte('end_date', monthEnd.toISOString().split('T')[0]);
-
-    const challengeResults = challenges?.map(challenge => ({
-      date: challenge.end_date,
-      won: challenge.winner_id === req.user.id,
-      opponent: challenge.creator_id === req.user.id 
-        ? challenge.challenger_profile.display_name 
-        : challenge.creator_profile.display_name,
-      challenge_id: challenge.id,
-    })) || [];
+    const challengeResults = await getChallengeResults(req.user.id, monthStart, monthEnd);
 
     // Calculate monthly stats
     const wins = challengeResults.filter(r => r.won).length;
     const losses = challengeResults.filter(r => !r.won).length;
-    const avgScore = scores?.length 
-      ? scores.reduce((sum, score) => sum + score.percentage_score, 0) / scores.length 
+    const countedScores = scores?.filter(score => score.total_possible_points > 0 && !score.is_excused) || [];
+    const avgScore = countedScores.length 
+      ? countedScores.reduce((sum, score) => sum + score.percentage_score, 0) / countedScores.length 
       : 0;
     const bestDay = scores?.reduce((best, current) => 
       !best || current.percentage_score > best.percentage_score ? current : best
@@ -142,6 +235,7 @@ router.get('/calendar', authenticateToken, async (req, res) => {
 
     res.json({
       dayScores: scores || [],
+      restPeriods,
       challengeResults,
       monthlyStats: {
         totalWins: wins,
@@ -156,4 +250,66 @@ router.get('/calendar', authenticateToken, async (req, res) => {
   }
 });
 
-module.exports = router;
\ No newline at end of file
+// Get a compact year of daily scores (the 365 days ending on `end`, today by
+// default) for the heatmap
+router.get('/calendar/year', authenticateToken, async (req, res) => {
+  try {
+    const today = await getUserToday(req.user.id);
+    const end = req.query.end || today;
+
+    if (!isDateString(end)) {
+      return res.status(400).json({ error: 'End date must be formatted as YYYY-MM-DD' });
+    }
+
+    const start = addDays(end, -(HEATMAP_DAYS - 1));
+
+    // A missed day should show as 0%, not as a day off
+    await fillMissedDays(req.user.id, addDays(today, -1));
+
+    const { data: scores, error } = await supabase
+      .from('daily_scores')
+      .select('score_date, percentage_score, total_possible_points, is_excused')
+      .eq('user_id', req.user.id)
+      .gte('score_date', start)
+      .lte('score_date', end)
+      .order('score_date');
+
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const restPeriods = await getRestPeriods(req.user.id, start, end);
+    const challengeResults = await getChallengeResults(req.user.id, start, end);
+
+    const days = scores.map(score => ({
+      date: score.score_date,
+      // null when nothing was due
+      percentage: score.total_possible_points > 0 ? Number(score.percentage_score) : null,
+      excused: score.is_excused,
+    }));
+
+    const counted = days.filter(day => day.percentage !== null && !day.excused);
+
+    res.json({
+      start,
+      end,
+      today,
+      days,
+      restPeriods,
+      challengeResults,
+      stats: {
+        countedDays: counted.length,
+        averageScore: counted.length
+          ? counted.reduce((sum, day) => sum + day.percentage, 0) / counted.length
+          : 0,
+        totalWins: challengeResults.filter(r => r.won).length,
+        totalLosses: challengeResults.filter(r => !r.won).length,
+      },
+    });
+  } catch (error) {
+    console.error('Get calendar year error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
@@ -1,9 +1,46 @@
 const express = require('express');
 const supabase = require('../config/supabase');
 const { authenticateToken } = require('../middleware/auth');
+const { completionBackfillDays } = require('../config/app');
+const {
+  getDueTasks,
+  getLoggableTasks,
+  logTaskCompletion,
+  calculateDailyScore,
+  isScoreDateLocked,
+} = require('../services/scores');
+const { SESSION_SELECT, getRunningSessions, stopSession } = require('../services/sessions');
+const { getUserToday } = require('../services/profiles');
+const { getStreaks } = require('../services/streaks');
+const { evaluateAchievements } = require('../achievements');
+const { recordCompletionActivity } = require('../services/activity');
+const { RECURRENCE_FIELDS, parseRecurrence } = require('../utils/recurrence');
+const { TASK_TYPE_FIELDS, parseTaskType } = require('../utils/taskTypes');
+const { parseSessionMode } = require('../utils/sessions');
+const { addDays, isDateString } = require('../utils/dates');
 
 const router = express.Router();
 
+const MAX_NOTES_LENGTH = 1000;
+
+// Resolve the date a completion request refers to (defaults to the user's
+// today) and check it falls inside the backfill window
+async function resolveCompletionDate(userId, requestedDate) {
+  const today = await getUserToday(userId);
+  const earliestDate = addDays(today, -completionBackfillDays);
+  const date = requestedDate || today;
+
+  if (!isDateString(date)) {
+    return { error: 'Date must be in YYYY-MM-DD format' };
+  }
+
+  if (date > today || date < earliestDate) {
+    return { error: `Completions can only be logged for the last ${completionBackfillDays} days` };
+  }
+
+  return { date, today, earliestDate };
+}
+
 // Get user's tasks
 router.get('/', authenticateToken, async (req, res) => {
   try {
@@ -18,7 +55,22 @@ router.get('/', authenticateToken, async (req, res) => {
       return res.status(400).json({ error: error.message });
     }
 
-    res.json({ tasks: data });
+    const today = await getUserToday(req.user.id);
+    const dueTasks = await getDueTasks(req.user.id, today);
+    const dueIds = new Set(dueTasks.map(task => task.id));
+    const loggableTasks = await getLoggableTasks(req.user.id, today);
+    const loggableIds = new Set(loggableTasks.map(task => task.id));
+    const streaks = await getStreaks(req.user.id);
+
+    res.json({
+      tasks: data.map(task => ({
+        ...task,
+        is_due_today: dueIds.has(task.id),
+        is_loggable_today: loggableIds.has(task.id),
+        current_streak: streaks.tasks[task.id]?.current || 0,
+        longest_streak: streaks.tasks[task.id]?.longest || 0,
+      })),
+    });
   } catch (error) {
     console.error('Get tasks error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -28,15 +80,26 @@ router.get('/', authenticateToken, async (req, res) => {
 // Create task
 router.post('/', authenticateToken, async (req, res) => {
   try {
-    const { name, duration_hours, points } = req.body;
+    const { name, points } = req.body;
+
+    const { taskType, error: taskTypeError } = parseTaskType(req.body);
+    if (taskTypeError) {
+      return res.status(400).json({ error: taskTypeError });
+    }
+
+    const { recurrence, error: recurrenceError } = parseRecurrence(req.body);
+    if (recurrenceError) {
+      return res.status(400).json({ error: recurrenceError });
+    }
 
     const { data, error } = await supabase
       .from('tasks')
       .insert({
         user_id: req.user.id,
         name,
-        duration_hours,
         points,
+        ...taskType,
+        ...recurrence,
       })
       .select()
       .single();
@@ -56,11 +119,43 @@ router.post('/', authenticateToken, async (req, res) => {
 router.put('/:id', authenticateToken, async (req, res) => {
   try {
     const { id } = req.params;
-    const { name, duration_hours, points } = req.body;
+    const { name, points } = req.body;
+
+    const { data: task, error: fetchError } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', req.user.id)
+      .maybeSingle();
+
+    if (fetchError || !task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    // The type, scoring and schedule only change when the request touches
+    // them. Fields left out keep their current values, so e.g. a new target or
+    // new weekdays alone are enough.
+    let taskType = {};
+    if (TASK_TYPE_FIELDS.some(field => req.body[field] !== undefined)) {
+      const parsed = parseTaskType({ ...task, ...req.body });
+      if (parsed.error) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      taskType = parsed.taskType;
+    }
+
+    let recurrence = {};
+    if (RECURRENCE_FIELDS.some(field => req.body[field] !== undefined)) {
+      const parsed = parseRecurrence({ ...task, ...req.body });
+      if (parsed.error) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      recurrence = parsed.recurrence;
+    }
 
     const { data, error } = await supabase
       .from('tasks')
-      .update({ name, duration_hours, points })
+      .update({ name, points, ...taskType, ...recurrence })
       .eq('id', id)
       .eq('user_id', req.user.id)
       .select()
@@ -70,6 +165,9 @@ router.put('/:id', authenticateToken, async (req, res) => {
       return res.status(400).json({ error: error.message });
     }
 
+    // The edit takes effect from today; earlier days keep the old definition
+    await calculateDailyScore(req.user.id, await getUserToday(req.user.id));
+
     res.json({ task: data });
   } catch (error) {
     console.error('Update task error:', error);
@@ -92,6 +190,21 @@ router.delete('/:id', authenticateToken, async (req, res) => {
       return res.status(400).json({ error: error.message });
     }
 
+    // A timer left running on a deleted task is discarded
+    const { error: sessionError } = await supabase
+      .from('task_sessions')
+      .delete()
+      .eq('task_id', id)
+      .eq('user_id', req.user.id)
+      .is('ended_at', null);
+
+    if (sessionError) {
+      return res.status(400).json({ error: sessionError.message });
+    }
+
+    // The task stops counting from today; earlier days still include it
+    await calculateDailyScore(req.user.id, await getUserToday(req.user.id));
+
     res.json({ message: 'Task deleted successfully' });
   } catch (error) {
     console.error('Delete task error:', error);
@@ -99,14 +212,56 @@ router.delete('/:id', authenticateToken, async (req, res) => {
   }
 });
 
+// Get completions for a date within the backfill window
+router.get('/completions', authenticateToken, async (req, res) => {
+  try {
+    const { date, today, earliestDate, error: dateError } = await resolveCompletionDate(req.user.id, req.query.date);
+    if (dateError) {
+      return res.status(400).json({ error: dateError });
+    }
+
+    const { data, error } = await supabase
+      .from('task_completions')
+      .select('task_id, value')
+      .eq('user_id', req.user.id)
+      .eq('completion_date', date);
+
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const completions = {};
+    data.forEach(completion => {
+      completions[completion.task_id] = Number(completion.value);
+    });
+
+    const dueTasks = await getDueTasks(req.user.id, date);
+    const loggableTasks = await getLoggableTasks(req.user.id, date);
+    const locked = await isScoreDateLocked(req.user.id, date);
+
+    res.json({
+      date,
+      today,
+      earliest_date: earliestDate,
+      locked,
+      due_task_ids: dueTasks.map(task => task.id),
+      loggable_task_ids: loggableTasks.map(task => task.id),
+      completions,
+    });
+  } catch (error) {
+    console.error('Get completions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Get today's completions
 router.get('/completions/today', authenticateToken, async (req, res) => {
   try {
-    const today = new Date().toISOString().split('T')[0];
+    const today = await getUserToday(req.user.id);
     
     const { data, error } = await supabase
       .from('task_completions')
-      .select('task_id, actual_duration_hours')
+      .select('task_id, value')
       .eq('user_id', req.user.id)
       .eq('completion_date', today);
 
@@ -116,7 +271,7 @@ router.get('/completions/today', authenticateToken, async (req, res) => {
 
     const completions = {};
     data.forEach(completion => {
-      completions[completion.task_id] = completion.actual_duration_hours;
+      completions[completion.task_id] = Number(completion.value);
     });
 
     res.json({ completions });
@@ -129,86 +284,162 @@ router.get('/completions/today', authenticateToken, async (req, res) => {
 // Update task completion
 router.post('/completions', authenticateToken, async (req, res) => {
   try {
-    const { task_id, actual_duration_hours } = req.body;
-    const today = new Date().toISOString().split('T')[0];
+    const { task_id, completion_date } = req.body;
+    // Older clients send hours as actual_duration_hours
+    const value = Number(req.body.value ?? req.body.actual_duration_hours);
+
+    if (!Number.isFinite(value) || value < 0) {
+      return res.status(400).json({ error: 'Value must be 0 or more' });
+    }
+
+    // Notes are left alone unless sent; null or blank clears them
+    const { notes } = req.body;
+    if (notes !== undefined && notes !== null
+      && (typeof notes !== 'string' || notes.length > MAX_NOTES_LENGTH)) {
+      return res.status(400).json({ error: `Notes must be text of at most ${MAX_NOTES_LENGTH} characters` });
+    }
+
+    const { date, error: dateError } = await resolveCompletionDate(req.user.id, completion_date);
+    if (dateError) {
+      return res.status(400).json({ error: dateError });
+    }
+
+    if (await isScoreDateLocked(req.user.id, date)) {
+      return res.status(403).json({ error: 'This day counted toward a finished challenge and can no longer be edited' });
+    }
 
-    // Get task details to calculate earned points
+    // Deleted tasks can't be logged any more
     const { data: task, error: taskError } = await supabase
       .from('tasks')
-      .select('duration_hours, points')
+      .select('id')
       .eq('id', task_id)
       .eq('user_id', req.user.id)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (taskError) {
+      return res.status(400).json({ error: taskError.message });
+    }
+
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    // Points for the task's type are worked out by the database
+    let data = await logTaskCompletion(req.user.id, task_id, date, value);
+
+    if (notes !== undefined) {
+      const { data: withNotes, error: notesError } = await supabase
+        .from('task_completions')
+        .update({ notes: notes?.trim() || null })
+        .eq('id', data.id)
+        .select()
+        .single();
+
+      if (notesError) {
+        return res.status(400).json({ error: notesError.message });
+      }
+
+      data = withNotes;
+    }
+
+    // Calculate and update daily score
+    await calculateDailyScore(req.user.id, date);
+
+    const achievements = await evaluateAchievements(req.user.id, 'completion');
+    await recordCompletionActivity(req.user.id, task_id, date);
+
+    res.json({ completion: data, achievements });
+  } catch (error) {
+    console.error('Update completion error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get the user's running timer and Pomodoro sessions
+router.get('/sessions', authenticateToken, async (req, res) => {
+  try {
+    const sessions = await getRunningSessions(req.user.id);
+
+    // Clients time sessions against the server's clock
+    res.json({ sessions, server_time: new Date().toISOString() });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Start a timer or Pomodoro session on a duration task
+router.post('/:id/sessions', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const { session, error: modeError } = parseSessionMode(req.body);
+    if (modeError) {
+      return res.status(400).json({ error: modeError });
+    }
+
+    const { data: task, error: taskError } = await supabase
+      .from('tasks')
+      .select('id, task_type')
+      .eq('id', id)
+      .eq('user_id', req.user.id)
+      .eq('is_active', true)
       .single();
 
     if (taskError) {
       return res.status(400).json({ error: taskError.message });
     }
 
-    const earnedPoints = task.duration_hours > 0 
-      ? (actual_duration_hours / task.duration_hours) * task.points 
-      : 0;
+    if (task.task_type !== 'duration') {
+      return res.status(400).json({ error: 'Only tasks logged in hours can be timed' });
+    }
 
-    // Upsert completion
     const { data, error } = await supabase
-      .from('task_completions')
-      .upsert({
-        user_id: req.user.id,
-        task_id,
-        completion_date: today,
-        actual_duration_hours,
-        earned_points: Math.min(earnedPoints, task.points),
-      })
-      .select()
+      .from('task_sessions')
+      .insert({ user_id: req.user.id, task_id: id, ...session })
+      .select(SESSION_SELECT)
       .single();
 
+    // Unique violation: another device already started one
+    if (error?.code === '23505') {
+      return res.status(409).json({ error: 'This task already has a running session' });
+    }
+
     if (error) {
       return res.status(400).json({ error: error.message });
     }
 
-    // Calculate and update daily score
-    await calculateDailyScore(req.user.id, today);
-
-    res.json({ completion: data });
+    res.status(201).json({ session: data });
   } catch (error) {
-    console.error('Update completion error:', error);
+    console.error('Start session error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Helper function to calculate daily score
-async function calculateDailyScore(userId, date) {
+// Stop a running session and add its time to the completions of the days it covered
+router.put('/sessions/:id/stop', authenticateToken, async (req, res) => {
   try {
-    // Get all user's active tasks
-    const { data: tasks } = await supabase
-      .from('tasks')
-      .select('id, points')
-      .eq('user_id', userId)
-      .eq('is_active', true);
+    const today = await getUserToday(req.user.id);
+    const result = await stopSession(req.user.id, req.params.id, addDays(today, -completionBackfillDays));
 
-    // Get completions for the date
-    const { data: completions } = await supabase
-      .from('task_completions')
-      .select('earned_points')
-      .eq('user_id', userId)
-      .eq('completion_date', date);
+    if (!result) {
+      return res.status(409).json({ error: 'This session is not running' });
+    }
+
+    const achievements = result.logged.length > 0
+      ? await evaluateAchievements(req.user.id, 'completion')
+      : [];
+
+    for (const day of result.logged) {
+      await recordCompletionActivity(req.user.id, result.session.task_id, day.date);
+    }
 
-    const totalPossiblePoints = tasks.reduce((sum, task) => sum + task.points, 0);
-    const earnedPoints = completions.reduce((sum, completion) => sum + completion.earned_points, 0);
-    const percentageScore = totalPossiblePoints > 0 ? (earnedPoints / totalPossiblePoints) * 100 : 0;
-
-    // Upsert daily score
-    await supabase
-      .from('daily_scores')
-      .upsert({
-        user_id: userId,
-        score_date: date,
-        total_possible_points: totalPossiblePoints,
-        earned_points: earnedPoints,
-        percentage_score: percentageScore,
-      });
+    res.json({ ...result, achievements });
   } catch (error) {
-    console.error('Calculate daily score error:', error);
+    console.error('Stop session error:', error);
+    res.status(500).json({ error: 'Internal server error' });
   }
-}
+});
 
 module.exports = router;
\ No newline at end of file
@@ -1,55 +1,513 @@
 const express = require('express');
 const supabase = require('../config/supabase');
 const { authenticateToken } = require('../middleware/auth');
+const { getRatingHistory } = require('../services/ratings');
+const {
+  getFriendships,
+  findFriendship,
+  describeFriendship,
+  getOtherUserId,
+  getFriendshipStatuses,
+  getFriendIds,
+} = require('../services/friendships');
+const {
+  getBlockedIds,
+  getBlocks,
+  privacyAllows,
+  canViewStats,
+  hideStats,
+} = require('../services/privacy');
+const { getRecentChallenges, getHeadToHead } = require('../services/publicProfiles');
+const { getStreaks } = require('../services/streaks');
+const { isProvisional } = require('../utils/ratings');
+const { getUnlockedBadges } = require('../achievements');
 
 const router = express.Router();
 
-// Get top users
+// Profile columns a user card is built from: what anyone may see, plus the
+// privacy settings that decide how much of it they do. Everything else on a
+// profile, like the timezone, stays private.
+const USER_CARD_SELECT = `
+  id, username, display_name, avatar_url, bio, created_at,
+  rating, rated_games, total_wins, total_losses,
+  stats_visibility, challenge_privacy
+`;
+
+// Add what every user card shows: provisional rating, badges, how the
+// current user is connected to them and what their privacy settings allow
+async function toUserCards(profiles, userId) {
+  const badges = await getUnlockedBadges(profiles.map(profile => profile.id));
+  const friendships = await getFriendshipStatuses(userId);
+
+  return profiles.map(({ stats_visibility: statsVisibility, challenge_privacy: challengePrivacy, ...profile }) => {
+    const friendship = friendships[profile.id] || null;
+    const isSelf = profile.id === userId;
+    const isFriend = friendship?.status === 'friends';
+
+    const card = {
+      ...profile,
+      provisional: isProvisional(profile.rated_games),
+      achievements: badges[profile.id],
+      friendship: friendship?.status || null,
+      friendship_id: friendship?.friendship_id || null,
+      can_challenge: !isSelf && privacyAllows(challengePrivacy, isFriend),
+      stats_hidden: false,
+    };
+
+    if (isSelf || privacyAllows(statsVisibility, isFriend)) {
+      return card;
+    }
+
+    return { ...hideStats(card), provisional: false, achievements: [] };
+  });
+}
+
+// Leave blocked users out of a profiles query
+function excludeBlocked(query, blockedIds) {
+  return blockedIds.length > 0 ? query.not('id', 'in', `(${blockedIds.join(',')})`) : query;
+}
+
+// Get top users by rating, or only the user and their friends with ?scope=friends.
+// Users who aren't discoverable or don't show their stats to everyone only
+// appear on their friends' leaderboards.
 router.get('/top', authenticateToken, async (req, res) => {
   try {
-    const { data, error } = await supabase
+    const blockedIds = await getBlockedIds(req.user.id);
+
+    let query = supabase
       .from('profiles')
-      .select('*')
-      .neq('id', req.user.id)
-      .order('total_wins', { ascending: false })
+      .select(USER_CARD_SELECT)
+      .order('rating', { ascending: false })
+      .order('rated_games', { ascending: false })
       .limit(20);
 
+    if (req.query.scope === 'friends') {
+      const friendIds = await getFriendIds(req.user.id);
+      query = query.in('id', [req.user.id, ...friendIds]);
+    } else {
+      query = query
+        .neq('id', req.user.id)
+        .eq('discoverable', true)
+        .eq('stats_visibility', 'everyone');
+    }
+
+    const { data, error } = await excludeBlocked(query, blockedIds);
+
     if (error) {
       return res.status(400).json({ error: error.message });
     }
 
-    res.json({ users: data });
+    // Ranking someone whose rating is hidden would still give it away
+    const cards = await toUserCards(data, req.user.id);
+    res.json({ users: cards.filter(card => !card.stats_hidden) });
   } catch (error) {
     console.error('Get top users error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Search users
+// Search discoverable users and friends, friends first
 router.get('/search', authenticateToken, async (req, res) => {
   try {
     const { q } = req.query;
-    
+
     if (!q || q.trim().length === 0) {
       return res.json({ users: [] });
     }
 
-    const { data, error } = await supabase
+    const blockedIds = await getBlockedIds(req.user.id);
+
+    const { data, error } = await excludeBlocked(
+      supabase
+        .from('profiles')
+        .select(USER_CARD_SELECT)
+        .neq('id', req.user.id)
+        .eq('discoverable', true)
+        .or(`username.ilike.%${q}%,display_name.ilike.%${q}%`)
+        .limit(10),
+      blockedIds
+    );
+
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    // Friends who match but didn't make the first page still come first, and
+    // friends can find each other whether or not they're discoverable
+    const friendIds = await getFriendIds(req.user.id);
+    const { data: friends, error: friendsError } = await supabase
       .from('profiles')
-      .select('*')
-      .neq('id', req.user.id)
+      .select(USER_CARD_SELECT)
+      .in('id', friendIds)
       .or(`username.ilike.%${q}%,display_name.ilike.%${q}%`)
       .limit(10);
 
+    if (friendsError) {
+      return res.status(400).json({ error: friendsError.message });
+    }
+
+    const users = [...friends, ...data.filter(profile => !friendIds.includes(profile.id))].slice(0, 10);
+
+    res.json({ users: await toUserCards(users, req.user.id) });
+  } catch (error) {
+    console.error('Search users error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get a user's public profile by username: their card, and when their stats
+// are visible their win rate, current streak and recent challenges. The
+// head-to-head record against the current user is always shown, since they
+// were there for it.
+router.get('/profile/:username', authenticateToken, async (req, res) => {
+  try {
+    const { data: profile, error } = await supabase
+      .from('profiles')
+      .select(USER_CARD_SELECT)
+      .eq('username', req.params.username)
+      .maybeSingle();
+
     if (error) {
       return res.status(400).json({ error: error.message });
     }
 
-    res.json({ users: data });
+    // Blocked users look like they don't exist
+    const blockedIds = await getBlockedIds(req.user.id);
+    if (!profile || blockedIds.includes(profile.id)) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const [user] = await toUserCards([profile], req.user.id);
+    const isSelf = profile.id === req.user.id;
+
+    let stats = null;
+    if (!user.stats_hidden) {
+      const played = user.total_wins + user.total_losses;
+      const streaks = await getStreaks(profile.id);
+
+      stats = {
+        win_rate: played > 0 ? Math.round((user.total_wins / played) * 1000) / 10 : null,
+        current_streak: streaks.overall.current,
+        longest_streak: streaks.overall.longest,
+        recent_challenges: await getRecentChallenges(profile.id, req.user.id),
+      };
+    }
+
+    res.json({
+      user,
+      stats,
+      head_to_head: isSelf ? null : await getHeadToHead(profile.id, req.user.id),
+    });
   } catch (error) {
-    console.error('Search users error:', error);
+    console.error('Get profile error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get the user's friends and pending friend requests
+router.get('/friends', authenticateToken, async (req, res) => {
+  try {
+    const friendships = await getFriendships(req.user.id);
+
+    const { data: profiles, error } = await supabase
+      .from('profiles')
+      .select(USER_CARD_SELECT)
+      .in('id', friendships.map(friendship => getOtherUserId(friendship, req.user.id)));
+
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const cards = await toUserCards(profiles, req.user.id);
+    const withFriendship = status => friendships
+      .filter(friendship => describeFriendship(friendship, req.user.id) === status)
+      .map(friendship => ({
+        ...cards.find(card => card.id === getOtherUserId(friendship, req.user.id)),
+        since: friendship.accepted_at || friendship.created_at,
+      }))
+      .filter(card => card.id);
+
+    res.json({
+      friends: withFriendship('friends'),
+      incoming: withFriendship('incoming'),
+      outgoing: withFriendship('outgoing'),
+    });
+  } catch (error) {
+    console.error('Get friends error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Send a friend request. If the other user already sent one, this accepts it.
+router.post('/:id/friend-request', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (id === req.user.id) {
+      return res.status(400).json({ error: 'You cannot add yourself as a friend' });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!profile) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const existing = await findFriendship(req.user.id, id);
+
+    const blockedIds = await getBlockedIds(req.user.id);
+    if (blockedIds.includes(id)) {
+      return res.status(403).json({ error: 'You cannot send a friend request to this user' });
+    }
+
+    if (existing?.status === 'accepted') {
+      return res.status(409).json({ error: 'You are already friends' });
+    }
+
+    if (existing?.requester_id === req.user.id) {
+      return res.status(409).json({ error: 'Friend request already sent' });
+    }
+
+    if (existing) {
+      const { data, error } = await supabase
+        .from('friendships')
+        .update({ status: 'accepted', accepted_at: new Date().toISOString() })
+        .eq('id', existing.id)
+        .eq('status', 'pending')
+        .select()
+        .single();
+
+      if (error) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      return res.json({ friendship: data });
+    }
+
+    const { data, error } = await supabase
+      .from('friendships')
+      .insert({ requester_id: req.user.id, addressee_id: id })
+      .select()
+      .single();
+
+    // Unique violation: the other user sent one at the same moment
+    if (error?.code === '23505') {
+      return res.status(409).json({ error: 'A friend request between you already exists' });
+    }
+
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    res.status(201).json({ friendship: data });
+  } catch (error) {
+    console.error('Send friend request error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Accept or decline a friend request sent to the user
+router.put('/friend-requests/:id/respond', authenticateToken, async (req, res) => {
+  try {
+    const { accept } = req.body;
+
+    const { data: request } = await supabase
+      .from('friendships')
+      .select('id')
+      .eq('id', req.params.id)
+      .eq('addressee_id', req.user.id)
+      .eq('status', 'pending')
+      .maybeSingle();
+
+    if (!request) {
+      return res.status(404).json({ error: 'Friend request not found' });
+    }
+
+    if (!accept) {
+      const { error } = await supabase
+        .from('friendships')
+        .delete()
+        .eq('id', request.id);
+
+      if (error) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      return res.json({ message: 'Friend request declined' });
+    }
+
+    const { data, error } = await supabase
+      .from('friendships')
+      .update({ status: 'accepted', accepted_at: new Date().toISOString() })
+      .eq('id', request.id)
+      .select()
+      .single();
+
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    res.json({ friendship: data });
+  } catch (error) {
+    console.error('Respond to friend request error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Remove a friend, or cancel a friend request the user sent
+router.delete('/friends/:id', authenticateToken, async (req, res) => {
+  try {
+    const friendship = await findFriendship(req.user.id, req.params.id);
+
+    if (!friendship) {
+      return res.status(404).json({ error: 'Friendship not found' });
+    }
+
+    const { error } = await supabase
+      .from('friendships')
+      .delete()
+      .eq('id', friendship.id);
+
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    res.json({ message: friendship.status === 'accepted' ? 'Friend removed' : 'Friend request cancelled' });
+  } catch (error) {
+    console.error('Remove friend error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get the users the user has blocked
+router.get('/blocks', authenticateToken, async (req, res) => {
+  try {
+    const blocks = await getBlocks(req.user.id);
+
+    const { data: profiles, error } = await supabase
+      .from('profiles')
+      .select('id, username, display_name, avatar_url')
+      .in('id', blocks.map(block => block.blocked_id));
+
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const users = blocks
+      .map(block => ({
+        ...profiles.find(profile => profile.id === block.blocked_id),
+        blocked_at: block.created_at,
+      }))
+      .filter(user => user.id);
+
+    res.json({ users });
+  } catch (error) {
+    console.error('Get blocks error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Block a user. This also ends any friendship or friend request between you.
+router.post('/:id/block', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (id === req.user.id) {
+      return res.status(400).json({ error: 'You cannot block yourself' });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!profile) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const { error } = await supabase
+      .from('user_blocks')
+      .upsert(
+        { blocker_id: req.user.id, blocked_id: id },
+        { onConflict: 'blocker_id,blocked_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const friendship = await findFriendship(req.user.id, id);
+    if (friendship) {
+      const { error: friendshipError } = await supabase
+        .from('friendships')
+        .delete()
+        .eq('id', friendship.id);
+
+      if (friendshipError) {
+        return res.status(400).json({ error: friendshipError.message });
+      }
+    }
+
+    res.status(201).json({ message: 'User blocked' });
+  } catch (error) {
+    console.error('Block user error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Unblock a user
+router.delete('/:id/block', authenticateToken, async (req, res) => {
+  try {
+    const { data, error } = await supabase
+      .from('user_blocks')
+      .delete()
+      .eq('blocker_id', req.user.id)
+      .eq('blocked_id', req.params.id)
+      .select('id');
+
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (data.length === 0) {
+      return res.status(404).json({ error: 'You have not blocked this user' });
+    }
+
+    res.json({ message: 'User unblocked' });
+  } catch (error) {
+    console.error('Unblock user error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get a user's rating history, if their stats are visible to the user
+router.get('/:id/rating-history', authenticateToken, async (req, res) => {
+  try {
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('id, stats_visibility')
+      .eq('id', req.params.id)
+      .maybeSingle();
+
+    if (!profile) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (!(await canViewStats(req.user.id, profile))) {
+      return res.status(403).json({ error: "This user's stats are private" });
+    }
+
+    const history = await getRatingHistory(req.params.id);
+    res.json({ history });
+  } catch (error) {
+    console.error('Get rating history error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-module.exports = router;
\ No newline at end of file
+module.exports = router;
@@ -0,0 +1,245 @@
+const supabase = require('../config/supabase');
+const { getFriendIds } = require('./friendships');
+const { privacyAllows } = require('./privacy');
+const { getUserToday } = require('./profiles');
+const { getStreaks } = require('./streaks');
+
+// Kinds of event that go on the activity feed, and that users can opt out of
+// sharing
+const ACTIVITY_TYPES = ['perfect_day', 'streak_milestone', 'challenge_started', 'challenge_won', 'personal_record'];
+
+// Overall streak lengths worth telling friends about
+const STREAK_MILESTONES = [7, 30, 100, 365];
+
+const FEED_PAGE_SIZE = 20;
+
+// Tasks whose logged value can set a record; a boolean or avoid task is
+// either done or not
+const RECORD_TASK_TYPES = ['duration', 'count'];
+
+// Store an event, or refresh the data of one already recorded under the same
+// key. Never throws: a feed entry isn't worth failing the request that caused
+// it.
+async function recordActivity(userId, eventType, eventKey, data = {}) {
+  try {
+    const { error } = await supabase
+      .from('activity_events')
+      .upsert(
+        { user_id: userId, event_type: eventType, event_key: eventKey, data },
+        { onConflict: 'user_id,event_type,event_key' }
+      );
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    console.error('Record activity error:', error);
+  }
+}
+
+// Take back an event that stopped being true, such as a perfect day that was
+// edited down. Never throws, like recordActivity.
+async function removeActivity(userId, eventType, eventKey) {
+  try {
+    const { error } = await supabase
+      .from('activity_events')
+      .delete()
+      .eq('user_id', userId)
+      .eq('event_type', eventType)
+      .eq('event_key', eventKey);
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    console.error('Remove activity error:', error);
+  }
+}
+
+// A new best value logged for the task on the date, against every other day
+async function checkPersonalRecord(userId, taskId, date) {
+  const { data: task, error: taskError } = await supabase
+    .from('tasks')
+    .select('id, name, task_type, unit')
+    .eq('id', taskId)
+    .single();
+
+  if (taskError) {
+    throw taskError;
+  }
+
+  if (!RECORD_TASK_TYPES.includes(task.task_type)) {
+    return;
+  }
+
+  const { data: completions, error } = await supabase
+    .from('task_completions')
+    .select('completion_date, value')
+    .eq('user_id', userId)
+    .eq('task_id', taskId)
+    .gt('value', 0);
+
+  if (error) {
+    throw error;
+  }
+
+  const logged = completions.find(c => c.completion_date === date);
+  const previousBest = Math.max(0, ...completions
+    .filter(c => c.completion_date !== date)
+    .map(c => Number(c.value)));
+  const key = `${taskId}:${date}`;
+
+  // The first day logged sets a baseline, not a record
+  if (!logged || previousBest === 0 || Number(logged.value) <= previousBest) {
+    await removeActivity(userId, 'personal_record', key);
+    return;
+  }
+
+  await recordActivity(userId, 'personal_record', key, {
+    task_id: task.id,
+    task_name: task.name,
+    task_type: task.task_type,
+    unit: task.unit,
+    value: Number(logged.value),
+    previous_best: previousBest,
+    date,
+  });
+}
+
+// Record what logging progress on a task for a date achieved: a perfect day,
+// a streak milestone reached today, a personal record. Never throws.
+async function recordCompletionActivity(userId, taskId, date) {
+  try {
+    const { data: score, error } = await supabase
+      .from('daily_scores')
+      .select('percentage_score, total_possible_points, is_excused')
+      .eq('user_id', userId)
+      .eq('score_date', date)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    const percentage = score && score.total_possible_points > 0 && !score.is_excused
+      ? Number(score.percentage_score)
+      : null;
+
+    if (percentage !== null && percentage >= 100) {
+      await recordActivity(userId, 'perfect_day', date, { date });
+    } else {
+      await removeActivity(userId, 'perfect_day', date);
+    }
+
+    // A streak only grows on a met day, so only today's progress can reach a
+    // milestone, and only on the day that got it there
+    if (percentage !== null && date === await getUserToday(userId)) {
+      const { overall } = await getStreaks(userId);
+      if (percentage >= overall.threshold && STREAK_MILESTONES.includes(overall.current)) {
+        await recordActivity(userId, 'streak_milestone', `${overall.current}:${date}`, {
+          days: overall.current,
+          date,
+        });
+      }
+    }
+
+    await checkPersonalRecord(userId, taskId, date);
+  } catch (error) {
+    console.error('Record completion activity error:', error);
+  }
+}
+
+// Record a challenge event ('challenge_started' or 'challenge_won') for the
+// users, or for everyone who accepted when no users are given. Never throws.
+async function recordChallengeActivity(challenge, eventType, userIds = null) {
+  try {
+    const { data: participants, error } = await supabase
+      .from('challenge_participants')
+      .select('user_id')
+      .eq('challenge_id', challenge.id)
+      .eq('status', 'accepted');
+
+    if (error) {
+      throw error;
+    }
+
+    const data = {
+      challenge_id: challenge.id,
+      challenge_type: challenge.challenge_type,
+      name: challenge.name,
+      metric: challenge.metric,
+      metric_task_name: challenge.metric_task_name,
+      metric_threshold: challenge.metric_threshold,
+      start_date: challenge.start_date,
+      end_date: challenge.end_date,
+      participant_count: participants.length,
+    };
+
+    for (const userId of userIds || participants.map(p => p.user_id)) {
+      await recordActivity(userId, eventType, challenge.id, data);
+    }
+  } catch (error) {
+    console.error('Record challenge activity error:', error);
+  }
+}
+
+// A page of the user's and their friends' events, newest first. Friends'
+// events are left out when the friend opted out of sharing that type or keeps
+// their stats from friends. Pass the previous page's next_before to continue.
+async function getFeed(userId, before = null) {
+  const friendIds = await getFriendIds(userId);
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('id, username, display_name, avatar_url, stats_visibility, activity_opt_out')
+    .in('id', [userId, ...friendIds]);
+
+  if (profilesError) {
+    throw profilesError;
+  }
+
+  const sharing = profiles.filter(profile => profile.id === userId
+    || privacyAllows(profile.stats_visibility, true));
+  const everything = sharing.filter(profile => profile.id === userId || profile.activity_opt_out.length === 0);
+  const someTypes = sharing.filter(profile => !everything.includes(profile));
+
+  const filters = [
+    `user_id.in.(${everything.map(profile => profile.id).join(',')})`,
+    ...someTypes.map(profile =>
+      `and(user_id.eq.${profile.id},event_type.not.in.(${profile.activity_opt_out.join(',')}))`),
+  ];
+
+  let query = supabase
+    .from('activity_events')
+    .select('id, user_id, event_type, data, created_at')
+    .or(filters.join(','))
+    .order('created_at', { ascending: false })
+    .limit(FEED_PAGE_SIZE + 1);
+
+  if (before) {
+    query = query.lt('created_at', before);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  const events = data.slice(0, FEED_PAGE_SIZE).map(({ user_id: eventUserId, ...event }) => {
+    const { id, username, display_name, avatar_url } = profiles.find(profile => profile.id === eventUserId);
+    return { ...event, user: { id, username, display_name, avatar_url } };
+  });
+
+  return {
+    events,
+    next_before: data.length > FEED_PAGE_SIZE ? events[events.length - 1].created_at : null,
+  };
+}
+
+module.exports = {
+  ACTIVITY_TYPES,
+  recordCompletionActivity,
+  recordChallengeActivity,
+  getFeed,
+};
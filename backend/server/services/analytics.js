@@ -0,0 +1,65 @@
+const supabase = require('../config/supabase');
+const { fillMissedDays } = require('./scores');
+const { addDays } = require('../utils/dates');
+const { selectAllPages } = require('../utils/paging');
+const {
+  buildTrend,
+  getWeekdayStats,
+  getWeeklyComparison,
+  getTaskStats,
+  getSummary,
+} = require('../utils/analytics');
+
+// Score trends, weekday and week-over-week comparisons and per-task stats for
+// a date range (see utils/analytics for how each is worked out)
+async function getAnalytics(userId, { start, end, window }, today) {
+  // Missed days count as 0%, not as days off
+  await fillMissedDays(userId, addDays(today, -1));
+
+  // Scores from before the range fill the first days' moving averages
+  const trendStart = addDays(start, 1 - window);
+
+  const scores = await selectAllPages(() => supabase
+    .from('daily_scores')
+    .select('score_date, total_possible_points, earned_points, percentage_score, is_excused, task_breakdown')
+    .eq('user_id', userId)
+    .gte('score_date', trendStart)
+    .lte('score_date', end)
+    .order('score_date'));
+
+  const completions = await selectAllPages(() => supabase
+    .from('task_completions')
+    .select('task_id, completion_date, actual_duration_hours')
+    .eq('user_id', userId)
+    .gte('completion_date', start)
+    .lte('completion_date', end)
+    .order('completion_date'));
+
+  // Current names, including deleted tasks that still have history in range
+  const { data: tasks, error } = await supabase
+    .from('tasks')
+    .select('id, name')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+
+  const taskNames = Object.fromEntries(tasks.map(task => [task.id, task.name]));
+  const rangeScores = scores.filter(score => score.score_date >= start);
+
+  return {
+    start,
+    end,
+    window,
+    summary: getSummary(rangeScores, completions),
+    trend: buildTrend(scores, start, end, window),
+    weekdays: getWeekdayStats(rangeScores),
+    weeks: getWeeklyComparison(rangeScores, start, end),
+    tasks: getTaskStats(rangeScores, completions, taskNames),
+  };
+}
+
+module.exports = {
+  getAnalytics,
+};
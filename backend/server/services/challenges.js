@@ -0,0 +1,360 @@
+const supabase = require('../config/supabase');
+const { getUserToday } = require('./profiles');
+const { recordChallengeActivity } = require('./activity');
+const { longestStreak } = require('../utils/challengeMetrics');
+const { getTransitionError } = require('../utils/challengeLifecycle');
+const { addDays, addMonths, addYears, daysBetween, getLocalDate, getProfileTimeZone } = require('../utils/dates');
+
+// Group challenges are for 3 to 30 people, creator included
+const MIN_GROUP_SIZE = 3;
+const MAX_GROUP_SIZE = 30;
+
+// A challenge needs at least two people who accepted to be worth running
+const MIN_ACTIVE_PARTICIPANTS = 2;
+
+const DURATION_TYPES = ['day', 'week', 'month', 'year'];
+
+// Each participant can leave out this many excused (rest) days from a
+// challenge unless the creator picks otherwise; any more count like normal days
+const DEFAULT_MAX_EXCUSED_DAYS = 2;
+const MAX_EXCUSED_DAYS_LIMIT = 30;
+
+const CHALLENGE_SELECT = `
+  *,
+  creator_profile:profiles!challenges_creator_id_fkey(username, display_name, avatar_url),
+  challenger_profile:profiles!challenges_challenger_id_fkey(username, display_name, avatar_url),
+  participants:challenge_participants(user_id, status, rank, final_score, profile:profiles(username, display_name, avatar_url))
+`;
+
+// Standings and progress also need each participant's timezone
+const CHALLENGE_DETAIL_SELECT = `
+  *,
+  creator_profile:profiles!challenges_creator_id_fkey(username, display_name, avatar_url),
+  challenger_profile:profiles!challenges_challenger_id_fkey(username, display_name, avatar_url),
+  participants:challenge_participants(user_id, status, rank, final_score, profile:profiles(username, display_name, avatar_url, timezone))
+`;
+
+// Get the ids of every challenge the user was invited to or created
+async function getUserChallengeIds(userId) {
+  const { data, error } = await supabase
+    .from('challenge_participants')
+    .select('challenge_id')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+
+  return data.map(row => row.challenge_id);
+}
+
+// Decide how a pending group challenge's invitations came out once nobody is
+// left to answer: 'accepted' when enough people are in, 'declined' when too
+// few are. Returns null while invitations are outstanding.
+function settleGroupInvitations(participants) {
+  if (participants.some(p => p.status === 'invited')) {
+    return null;
+  }
+
+  const acceptedCount = participants.filter(p => p.status === 'accepted').length;
+  return acceptedCount >= MIN_ACTIVE_PARTICIPANTS ? 'accepted' : 'declined';
+}
+
+// Last day (inclusive) of a challenge that starts on startDate
+function getChallengeEndDate(startDate, durationType, durationCount) {
+  let endDate;
+
+  switch (durationType) {
+    case 'week':
+      endDate = addDays(startDate, durationCount * 7);
+      break;
+    case 'month':
+      endDate = addMonths(startDate, durationCount);
+      break;
+    case 'year':
+      endDate = addYears(startDate, durationCount);
+      break;
+    default:
+      endDate = addDays(startDate, durationCount);
+  }
+
+  return addDays(endDate, -1);
+}
+
+// Move a challenge to another status, with any other column changes. Only
+// succeeds if the challenge is still in the status it was read with, so two
+// requests can't both act on it. Returns { error } when the move is refused.
+async function transitionChallenge(challenge, status, changes = {}) {
+  const transitionError = getTransitionError(challenge.status, status);
+  if (transitionError) {
+    return { error: transitionError };
+  }
+
+  const { data, error } = await supabase
+    .from('challenges')
+    .update({ ...changes, status, updated_at: new Date().toISOString() })
+    .eq('id', challenge.id)
+    .eq('status', challenge.status)
+    .select();
+
+  if (error) {
+    throw error;
+  }
+
+  if (data.length === 0) {
+    return { error: `This challenge is no longer ${challenge.status}` };
+  }
+
+  if (status === 'active') {
+    await recordChallengeActivity(data[0], 'challenge_started');
+  }
+
+  return { challenge: data[0] };
+}
+
+// Start an accepted challenge: it's scheduled if its chosen start date is
+// still ahead, otherwise it's active from today. Dates are calendar days in
+// the creator's timezone.
+async function startChallenge(challenge) {
+  const today = await getUserToday(challenge.creator_id);
+  const startDate = challenge.scheduled_start_date && challenge.scheduled_start_date > today
+    ? challenge.scheduled_start_date
+    : today;
+
+  return transitionChallenge(challenge, startDate > today ? 'scheduled' : 'active', {
+    start_date: startDate,
+    end_date: getChallengeEndDate(startDate, challenge.duration_type, challenge.duration_count),
+  });
+}
+
+// Rank participants by score, highest first. Equal scores share a rank and
+// the next rank is skipped (1, 1, 3).
+function rankParticipants(scores) {
+  const sorted = [...scores].sort((a, b) => b.score - a.score);
+  return sorted.map(entry => {
+    const firstEqual = sorted.findIndex(other => other.score === entry.score);
+    return { ...entry, rank: firstEqual + 1 };
+  });
+}
+
+// Which of a participant's days (oldest first, with is_excused) the
+// challenge leaves out: the first maxExcused excused days
+function getExcusedDates(days, maxExcused) {
+  return new Set(
+    days
+      .filter(day => day.is_excused)
+      .slice(0, maxExcused)
+      .map(day => day.score_date)
+  );
+}
+
+// Score every day of a challenge from its start date through endDate, oldest
+// first, against the user's tasks as they were on the start date. A day with
+// nothing due counts as 0%, so editing or deleting tasks mid-challenge can't
+// drop days from the average.
+async function getChallengeDays(userId, startDate, endDate) {
+  const { data, error } = await supabase.rpc('get_challenge_day_scores', {
+    p_user_id: userId,
+    p_start: startDate,
+    p_end: endDate,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+// The challenge days that count, leaving out the first maxExcused excused days
+async function getScoredDays(userId, startDate, endDate, maxExcused) {
+  const data = await getChallengeDays(userId, startDate, endDate);
+  const excused = getExcusedDates(data, maxExcused);
+  return data.filter(day => !excused.has(day.score_date));
+}
+
+// Total hours logged on the user's task with the given name (case-insensitive),
+// matching any name the task has had so renaming it mid-challenge keeps its hours
+async function getTaskHours(userId, taskName, startDate, endDate) {
+  const { data, error } = await supabase
+    .from('task_completions')
+    .select('actual_duration_hours, task:tasks!inner(versions:task_versions!inner(name))')
+    .eq('user_id', userId)
+    .gte('completion_date', startDate)
+    .lte('completion_date', endDate)
+    .ilike('task.versions.name', taskName.replace(/[\\%_]/g, '\\$&'));
+
+  if (error) {
+    throw error;
+  }
+
+  return data.reduce((sum, c) => sum + Number(c.actual_duration_hours), 0);
+}
+
+// Score one participant by the challenge's metric, counting days from the
+// start of the challenge up to and including throughDate
+async function getParticipantScore(challenge, userId, throughDate) {
+  const endDate = throughDate < challenge.end_date ? throughDate : challenge.end_date;
+
+  if (endDate < challenge.start_date) {
+    return 0;
+  }
+
+  if (challenge.metric === 'task_hours') {
+    const hours = await getTaskHours(userId, challenge.metric_task_name, challenge.start_date, endDate);
+    return Math.round(hours * 100) / 100;
+  }
+
+  const days = await getScoredDays(userId, challenge.start_date, endDate, challenge.max_excused_days);
+  let score;
+
+  switch (challenge.metric) {
+    case 'total_points':
+      score = days.reduce((sum, day) => sum + Number(day.earned_points), 0);
+      break;
+    case 'streak':
+      score = longestStreak(days, Number(challenge.metric_threshold));
+      break;
+    case 'perfect_days':
+      score = days.filter(day => Number(day.percentage_score) >= 100).length;
+      break;
+    default:
+      score = days.length > 0
+        ? days.reduce((sum, day) => sum + Number(day.percentage_score), 0) / days.length
+        : 0;
+  }
+
+  // Rounded like the stored final_score so equal results tie
+  return Math.round(score * 100) / 100;
+}
+
+// Rank the given participants ({ user_id, profile: { timezone } }) as things
+// stand today in each of their timezones. Every day so far counts, missed ones
+// as 0%; once the end date is over for everyone this is the final result.
+async function getStandings(challenge, participants) {
+  const scores = [];
+
+  for (const participant of participants) {
+    const localToday = getLocalDate(getProfileTimeZone(participant.profile?.timezone));
+
+    scores.push({
+      user_id: participant.user_id,
+      score: await getParticipantScore(challenge, participant.user_id, localToday),
+    });
+  }
+
+  return rankParticipants(scores);
+}
+
+// Standings of a challenge fetched with CHALLENGE_DETAIL_SELECT: the stored
+// result once it's completed, live while it's active, and empty before that
+async function getChallengeStandings(challenge) {
+  const participants = challenge.participants.filter(p => p.status === 'accepted');
+
+  if (challenge.status === 'completed') {
+    return participants
+      .map(p => ({ user_id: p.user_id, score: Number(p.final_score), rank: p.rank }))
+      .sort((a, b) => a.rank - b.rank);
+  }
+
+  if (challenge.status === 'active') {
+    return getStandings(challenge, participants);
+  }
+
+  return [];
+}
+
+// Day-by-day progress of everyone in a challenge up to the viewer's today:
+// each participant's daily scores with running totals and averages, the
+// current leader and their margin, and how many days are left
+async function getChallengeProgress(challenge, today) {
+  const participants = challenge.participants.filter(p => p.status === 'accepted');
+  const standings = await getChallengeStandings(challenge);
+  const throughDate = today < challenge.end_date ? today : challenge.end_date;
+
+  const started = (challenge.status === 'active' || challenge.status === 'completed')
+    && challenge.start_date <= throughDate;
+
+  const progress = [];
+  for (const participant of participants) {
+    let runningPoints = 0;
+    let runningPercentage = 0;
+    let scoredDays = 0;
+
+    const rows = started
+      ? await getChallengeDays(participant.user_id, challenge.start_date, throughDate)
+      : [];
+    const excused = getExcusedDates(rows, challenge.max_excused_days);
+
+    const days = rows.map(({ score_date: date, ...row }) => {
+      // Excused days within the cap count neither for nor against
+      const scored = !excused.has(date);
+
+      if (scored) {
+        runningPoints += Number(row.earned_points);
+        runningPercentage += Number(row.percentage_score);
+        scoredDays++;
+      }
+
+      return {
+        date,
+        excused: excused.has(date),
+        percentage_score: scored ? Number(row.percentage_score) : null,
+        earned_points: scored ? Number(row.earned_points) : null,
+        running_points: Math.round(runningPoints * 100) / 100,
+        running_average: scoredDays > 0 ? Math.round((runningPercentage / scoredDays) * 100) / 100 : null,
+      };
+    });
+
+    progress.push({
+      user_id: participant.user_id,
+      username: participant.profile.username,
+      display_name: participant.profile.display_name,
+      days,
+    });
+  }
+
+  // A shared first place has no leader
+  const leaders = standings.filter(s => s.rank === 1);
+  const runnerUp = standings.find(s => s.rank > 1);
+  const leader = leaders.length === 1
+    ? {
+        user_id: leaders[0].user_id,
+        margin: Math.round((leaders[0].score - (runnerUp ? runnerUp.score : 0)) * 100) / 100,
+      }
+    : null;
+
+  let daysRemaining = 0;
+  if (['pending', 'scheduled', 'active'].includes(challenge.status)) {
+    const from = today > challenge.start_date ? today : challenge.start_date;
+    daysRemaining = Math.max(0, daysBetween(from, challenge.end_date) + 1);
+  }
+
+  return {
+    standings,
+    leader,
+    days_remaining: daysRemaining,
+    participants: progress,
+  };
+}
+
+module.exports = {
+  MIN_GROUP_SIZE,
+  MAX_GROUP_SIZE,
+  MIN_ACTIVE_PARTICIPANTS,
+  DURATION_TYPES,
+  DEFAULT_MAX_EXCUSED_DAYS,
+  MAX_EXCUSED_DAYS_LIMIT,
+  CHALLENGE_SELECT,
+  CHALLENGE_DETAIL_SELECT,
+  getUserChallengeIds,
+  settleGroupInvitations,
+  getChallengeEndDate,
+  transitionChallenge,
+  startChallenge,
+  rankParticipants,
+  getParticipantScore,
+  getStandings,
+  getChallengeStandings,
+  getChallengeProgress,
+};
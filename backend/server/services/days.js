@@ -0,0 +1,180 @@
+const supabase = require('../config/supabase');
+const { completionBackfillDays } = require('../config/app');
+const { getDueTasks, isScoreDateLocked } = require('./scores');
+const { getUserToday } = require('./profiles');
+const { getRestPeriods } = require('./restPeriods');
+const { addDays } = require('../utils/dates');
+const { getTaskProgress } = require('../utils/taskTypes');
+
+const TASK_FIELDS = [
+  'name',
+  'task_type',
+  'duration_hours',
+  'target_count',
+  'unit',
+  'points',
+  'scoring_policy',
+  'scoring_threshold',
+  'overtime_cap',
+];
+
+// Definitions, as they were on a date, of tasks that weren't due that day but
+// had something logged anyway
+async function getTasksAsOf(taskIds, date) {
+  if (taskIds.length === 0) {
+    return {};
+  }
+
+  const { data, error } = await supabase
+    .from('task_versions')
+    .select(`task_id, effective_from, ${TASK_FIELDS.join(', ')}`)
+    .in('task_id', taskIds)
+    .lte('effective_from', date)
+    .order('effective_from', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  // Newest first, so the first version seen for each task is the one in effect
+  const tasks = {};
+  data.forEach(version => {
+    tasks[version.task_id] = tasks[version.task_id] || version;
+  });
+
+  return tasks;
+}
+
+// Active and completed challenges whose window includes the date
+async function getChallengesOn(userId, date) {
+  const { data, error } = await supabase
+    .from('challenge_participants')
+    .select(`
+      challenge:challenges!inner(
+        id, name, challenge_type, metric, metric_task_name, metric_threshold, status, winner_id, start_date, end_date,
+        participants:challenge_participants(user_id, status, profile:profiles(display_name))
+      )
+    `)
+    .eq('user_id', userId)
+    .eq('status', 'accepted')
+    .in('challenge.status', ['active', 'completed'])
+    .lte('challenge.start_date', date)
+    .gte('challenge.end_date', date);
+
+  if (error) {
+    throw error;
+  }
+
+  return data.map(({ challenge }) => {
+    const opponents = challenge.participants
+      .filter(p => p.user_id !== userId && p.status === 'accepted');
+
+    return {
+      id: challenge.id,
+      challenge_type: challenge.challenge_type,
+      metric: challenge.metric,
+      metric_task_name: challenge.metric_task_name,
+      metric_threshold: challenge.metric_threshold,
+      status: challenge.status,
+      start_date: challenge.start_date,
+      end_date: challenge.end_date,
+      opponent: challenge.challenge_type === 'group'
+        ? challenge.name || `${opponents.length} others`
+        : opponents[0]?.profile.display_name,
+      won: challenge.status === 'completed' ? challenge.winner_id === userId : null,
+    };
+  });
+}
+
+// Everything about one day: its score, each task as it was defined that day
+// with what was logged, earned and noted, and the challenges it counted toward.
+// Points for due tasks come from the day's task_breakdown, which is what the
+// day was scored on (an avoided habit earns its points with nothing logged).
+async function getDayDetail(userId, date) {
+  const today = await getUserToday(userId);
+
+  const { data: score, error: scoreError } = await supabase
+    .from('daily_scores')
+    .select('percentage_score, earned_points, total_possible_points, is_excused, task_breakdown')
+    .eq('user_id', userId)
+    .eq('score_date', date)
+    .maybeSingle();
+
+  if (scoreError) {
+    throw scoreError;
+  }
+
+  const { data: completions, error: completionsError } = await supabase
+    .from('task_completions')
+    .select('task_id, value, actual_duration_hours, earned_points, notes')
+    .eq('user_id', userId)
+    .eq('completion_date', date);
+
+  if (completionsError) {
+    throw completionsError;
+  }
+
+  const dueTasks = await getDueTasks(userId, date);
+  const dueIds = new Set(dueTasks.map(task => task.id));
+  const otherTasks = await getTasksAsOf(
+    completions.map(c => c.task_id).filter(id => !dueIds.has(id)),
+    date
+  );
+
+  const breakdown = Object.fromEntries((score?.task_breakdown || []).map(entry => [entry.task_id, entry]));
+  const completionFor = taskId => completions.find(c => c.task_id === taskId);
+
+  const describe = (taskId, definition, due) => {
+    const completion = completionFor(taskId);
+    const value = completion ? Number(completion.value) : null;
+    const task = Object.fromEntries(TASK_FIELDS.map(field => [field, definition[field] ?? null]));
+
+    let earnedPoints = completion ? Number(completion.earned_points) : 0;
+    if (due && breakdown[taskId]) {
+      earnedPoints = Number(breakdown[taskId].earned_points);
+    }
+
+    return {
+      task_id: taskId,
+      ...task,
+      due,
+      value,
+      hours: completion ? Number(completion.actual_duration_hours) : 0,
+      earned_points: earnedPoints,
+      progress: due || value !== null ? getTaskProgress(task, value) : null,
+      notes: completion?.notes || null,
+    };
+  };
+
+  const tasks = [
+    ...dueTasks.map(task => describe(task.id, task, true)),
+    ...Object.values(otherTasks).map(version => describe(version.task_id, version, false)),
+  ];
+
+  const [restPeriod] = await getRestPeriods(userId, date, date);
+  const locked = await isScoreDateLocked(userId, date);
+  const earliestDate = addDays(today, -completionBackfillDays);
+
+  return {
+    date,
+    today,
+    locked,
+    // Whether completions and notes for the day can still be changed
+    editable: !locked && date >= earliestDate && date <= today,
+    score: score
+      ? {
+        percentage_score: Number(score.percentage_score),
+        earned_points: Number(score.earned_points),
+        total_possible_points: Number(score.total_possible_points),
+        is_excused: score.is_excused,
+      }
+      : null,
+    rest_period: restPeriod || null,
+    tasks,
+    challenges: await getChallengesOn(userId, date),
+  };
+}
+
+module.exports = {
+  getDayDetail,
+};
@@ -0,0 +1,74 @@
+const supabase = require('../config/supabase');
+
+const FRIENDSHIP_SELECT = 'id, requester_id, addressee_id, status, created_at, accepted_at';
+
+// Every friendship and pending request the user is part of, either way round
+async function getFriendships(userId) {
+  const { data, error } = await supabase
+    .from('friendships')
+    .select(FRIENDSHIP_SELECT)
+    .or(`requester_id.eq.${userId},addressee_id.eq.${userId}`);
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+// The friendship or request between two users, if any
+async function findFriendship(userId, otherId) {
+  const { data, error } = await supabase
+    .from('friendships')
+    .select(FRIENDSHIP_SELECT)
+    .or(`and(requester_id.eq.${userId},addressee_id.eq.${otherId}),and(requester_id.eq.${otherId},addressee_id.eq.${userId})`)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+// How a friendship looks from the user's side: 'friends', 'incoming' (the
+// other user asked) or 'outgoing' (the user asked)
+function describeFriendship(friendship, userId) {
+  if (friendship.status === 'accepted') {
+    return 'friends';
+  }
+
+  return friendship.requester_id === userId ? 'outgoing' : 'incoming';
+}
+
+function getOtherUserId(friendship, userId) {
+  return friendship.requester_id === userId ? friendship.addressee_id : friendship.requester_id;
+}
+
+// The user's relationship with every other user they have one with, keyed by
+// the other user's id
+async function getFriendshipStatuses(userId) {
+  const friendships = await getFriendships(userId);
+
+  return Object.fromEntries(friendships.map(friendship => [
+    getOtherUserId(friendship, userId),
+    { friendship_id: friendship.id, status: describeFriendship(friendship, userId) },
+  ]));
+}
+
+async function getFriendIds(userId) {
+  const friendships = await getFriendships(userId);
+
+  return friendships
+    .filter(friendship => friendship.status === 'accepted')
+    .map(friendship => getOtherUserId(friendship, userId));
+}
+
+module.exports = {
+  getFriendships,
+  findFriendship,
+  describeFriendship,
+  getOtherUserId,
+  getFriendshipStatuses,
+  getFriendIds,
+};
@@ -0,0 +1,84 @@
+const supabase = require('../config/supabase');
+const { getFriendIds } = require('./friendships');
+
+// Who a privacy setting lets through
+const PRIVACY_LEVELS = ['everyone', 'friends', 'nobody'];
+
+// Profile columns only shown to users the profile's stats_visibility allows
+const STAT_COLUMNS = ['rating', 'rated_games', 'total_wins', 'total_losses'];
+
+// Ids of every user the user has blocked or been blocked by
+async function getBlockedIds(userId) {
+  const { data, error } = await supabase
+    .from('user_blocks')
+    .select('blocker_id, blocked_id')
+    .or(`blocker_id.eq.${userId},blocked_id.eq.${userId}`);
+
+  if (error) {
+    throw error;
+  }
+
+  return data.map(block => (block.blocker_id === userId ? block.blocked_id : block.blocker_id));
+}
+
+// Users the user has blocked, newest first
+async function getBlocks(userId) {
+  const { data, error } = await supabase
+    .from('user_blocks')
+    .select('blocked_id, created_at')
+    .eq('blocker_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+// Whether a privacy level lets a user through. Blocks are checked separately.
+function privacyAllows(level, isFriend) {
+  return level === 'everyone' || (level === 'friends' && isFriend);
+}
+
+// Whether the viewer may see a profile's stats ({ id, stats_visibility })
+async function canViewStats(viewerId, profile) {
+  if (profile.id === viewerId) {
+    return true;
+  }
+
+  const blockedIds = await getBlockedIds(viewerId);
+  const friendIds = await getFriendIds(viewerId);
+
+  return !blockedIds.includes(profile.id) && privacyAllows(profile.stats_visibility, friendIds.includes(profile.id));
+}
+
+// The invitees ({ id, challenge_privacy }) who don't take challenges from the
+// creator, either by their setting or because of a block
+async function getRefusingInvitees(creatorId, invitees) {
+  const blockedIds = await getBlockedIds(creatorId);
+  const friendIds = await getFriendIds(creatorId);
+
+  return invitees.filter(invitee =>
+    blockedIds.includes(invitee.id) || !privacyAllows(invitee.challenge_privacy, friendIds.includes(invitee.id))
+  );
+}
+
+// Blank the stats of a profile the viewer isn't allowed to see
+function hideStats(profile) {
+  return {
+    ...profile,
+    ...Object.fromEntries(STAT_COLUMNS.map(column => [column, null])),
+    stats_hidden: true,
+  };
+}
+
+module.exports = {
+  PRIVACY_LEVELS,
+  getBlockedIds,
+  getBlocks,
+  privacyAllows,
+  canViewStats,
+  getRefusingInvitees,
+  hideStats,
+};
@@ -0,0 +1,20 @@
+const supabase = require('../config/supabase');
+const { getLocalDate, getProfileTimeZone } = require('../utils/dates');
+
+// Get the timezone a user's days are counted in
+async function getUserTimezone(userId) {
+  const { data } = await supabase
+    .from('profiles')
+    .select('timezone')
+    .eq('id', userId)
+    .maybeSingle();
+
+  return getProfileTimeZone(data?.timezone);
+}
+
+// Get the current calendar date in the user's timezone
+async function getUserToday(userId) {
+  return getLocalDate(await getUserTimezone(userId));
+}
+
+module.exports = { getUserTimezone, getUserToday };
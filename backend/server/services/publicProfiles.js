@@ -0,0 +1,134 @@
+const supabase = require('../config/supabase');
+const { CHALLENGE_SELECT, getUserChallengeIds } = require('./challenges');
+const { getFriendIds } = require('./friendships');
+const { getBlockedIds, privacyAllows } = require('./privacy');
+
+const RECENT_CHALLENGES_LIMIT = 10;
+
+// Completed challenges the user took part in, newest first
+async function getCompletedChallenges(userId, challengeIds, limit = null) {
+  if (challengeIds.length === 0) {
+    return [];
+  }
+
+  let query = supabase
+    .from('challenges')
+    .select(CHALLENGE_SELECT)
+    .in('id', challengeIds)
+    .eq('status', 'completed')
+    .order('end_date', { ascending: false });
+
+  if (limit) {
+    query = query.limit(limit);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return data.filter(challenge => challenge.participants
+    .some(p => p.user_id === userId && p.status === 'accepted'));
+}
+
+// The user's most recent completed challenges as the viewer may see them.
+// Opponents whose own stats are hidden from the viewer aren't named.
+async function getRecentChallenges(userId, viewerId) {
+  const challenges = await getCompletedChallenges(
+    userId,
+    await getUserChallengeIds(userId),
+    RECENT_CHALLENGES_LIMIT
+  );
+
+  const opponentIds = [...new Set(challenges.flatMap(challenge => challenge.participants
+    .filter(p => p.user_id !== userId && p.status === 'accepted')
+    .map(p => p.user_id)))];
+
+  const { data: opponents, error } = await supabase
+    .from('profiles')
+    .select('id, stats_visibility')
+    .in('id', opponentIds);
+
+  if (error) {
+    throw error;
+  }
+
+  const friendIds = await getFriendIds(viewerId);
+  const blockedIds = await getBlockedIds(viewerId);
+  const canName = (opponentId) => {
+    const opponent = opponents.find(profile => profile.id === opponentId);
+    return opponentId === viewerId || (
+      !!opponent &&
+      !blockedIds.includes(opponentId) &&
+      privacyAllows(opponent.stats_visibility, friendIds.includes(opponentId))
+    );
+  };
+
+  return challenges.map(challenge => {
+    const participant = challenge.participants.find(p => p.user_id === userId);
+    const others = challenge.participants.filter(p => p.user_id !== userId && p.status === 'accepted');
+    const opponent = challenge.challenge_type === 'duel' ? others[0] : null;
+
+    return {
+      id: challenge.id,
+      challenge_type: challenge.challenge_type,
+      name: challenge.name,
+      metric: challenge.metric,
+      metric_task_name: challenge.metric_task_name,
+      metric_threshold: challenge.metric_threshold,
+      start_date: challenge.start_date,
+      end_date: challenge.end_date,
+      won: challenge.winner_id === userId,
+      draw: challenge.challenge_type === 'duel' && challenge.winner_id === null,
+      rank: participant.rank,
+      participant_count: others.length + 1,
+      opponent: opponent && canName(opponent.user_id)
+        ? { id: opponent.user_id, ...opponent.profile }
+        : null,
+    };
+  });
+}
+
+// How the viewer has done against the user in completed challenges they were
+// both in. A duel goes by its winner; in a group challenge the better rank
+// wins, and a shared rank is a draw.
+async function getHeadToHead(userId, viewerId) {
+  const userChallengeIds = await getUserChallengeIds(userId);
+  const viewerChallengeIds = await getUserChallengeIds(viewerId);
+  const sharedIds = userChallengeIds.filter(id => viewerChallengeIds.includes(id));
+
+  const challenges = (await getCompletedChallenges(viewerId, sharedIds))
+    .filter(challenge => challenge.participants
+      .some(p => p.user_id === userId && p.status === 'accepted'));
+
+  const record = { wins: 0, losses: 0, draws: 0, last_played: challenges[0]?.end_date || null };
+
+  challenges.forEach(challenge => {
+    const viewer = challenge.participants.find(p => p.user_id === viewerId);
+    const user = challenge.participants.find(p => p.user_id === userId);
+
+    if (challenge.challenge_type === 'duel') {
+      if (challenge.winner_id === viewerId) {
+        record.wins += 1;
+      } else if (challenge.winner_id === userId) {
+        record.losses += 1;
+      } else {
+        record.draws += 1;
+      }
+    } else if (viewer.rank === null || user.rank === null || viewer.rank === user.rank) {
+      record.draws += 1;
+    } else if (viewer.rank < user.rank) {
+      record.wins += 1;
+    } else {
+      record.losses += 1;
+    }
+  });
+
+  return record;
+}
+
+module.exports = {
+  getRecentChallenges,
+  getHeadToHead,
+};
@@ -0,0 +1,48 @@
+const supabase = require('../config/supabase');
+const { DEFAULT_RATING, calculateRatings } = require('../utils/ratings');
+
+// Work out everyone's new rating from the final standings of a challenge, in
+// the shape complete_challenge stores
+async function getRatingChanges(standings) {
+  const { data: profiles, error } = await supabase
+    .from('profiles')
+    .select('id, rating, rated_games')
+    .in('id', standings.map(s => s.user_id));
+
+  if (error) {
+    throw error;
+  }
+
+  const players = standings.map(standing => {
+    const profile = profiles.find(p => p.id === standing.user_id);
+    return {
+      user_id: standing.user_id,
+      rank: standing.rank,
+      rating: profile ? Number(profile.rating) : DEFAULT_RATING,
+      rated_games: profile ? profile.rated_games : 0,
+    };
+  });
+
+  return calculateRatings(players);
+}
+
+// Get a user's rating changes, newest first
+async function getRatingHistory(userId, limit = 50) {
+  const { data, error } = await supabase
+    .from('rating_history')
+    .select('challenge_id, rating_before, rating_after, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+module.exports = {
+  getRatingChanges,
+  getRatingHistory,
+};
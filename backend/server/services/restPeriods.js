@@ -0,0 +1,50 @@
+const supabase = require('../config/supabase');
+
+// Longest rest period that can be taken in one go
+const MAX_REST_PERIOD_DAYS = 90;
+
+// Get the user's rest periods that overlap a date range (all of them without one)
+async function getRestPeriods(userId, startDate, endDate) {
+  let query = supabase
+    .from('rest_periods')
+    .select('id, start_date, end_date, reason, created_at')
+    .eq('user_id', userId)
+    .order('start_date', { ascending: false });
+
+  if (startDate) {
+    query = query.gte('end_date', startDate);
+  }
+
+  if (endDate) {
+    query = query.lte('start_date', endDate);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+// Mark the user's already-scored days in a date range as excused or not.
+// Days scored later pick it up from calculate_daily_score.
+async function setDaysExcused(userId, startDate, endDate, excused) {
+  const { error } = await supabase
+    .from('daily_scores')
+    .update({ is_excused: excused, updated_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .gte('score_date', startDate)
+    .lte('score_date', endDate);
+
+  if (error) {
+    throw error;
+  }
+}
+
+module.exports = {
+  MAX_REST_PERIOD_DAYS,
+  getRestPeriods,
+  setDaysExcused,
+};
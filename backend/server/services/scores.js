@@ -0,0 +1,102 @@
+const supabase = require('../config/supabase');
+
+// Which tasks are due on a date, and how a day is scored, is decided by the
+// SQL functions in the migrations so the API and the database never disagree.
+
+// Get the user's active tasks that are due on a date
+async function getDueTasks(userId, date) {
+  const { data, error } = await supabase.rpc('get_due_tasks', {
+    p_user_id: userId,
+    p_date: date,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+// Get the user's active tasks that can be logged on a date: the due ones,
+// plus times-per-week tasks on any day, since logging one is what makes it due
+async function getLoggableTasks(userId, date) {
+  const { data, error } = await supabase.rpc('get_loggable_tasks', {
+    p_user_id: userId,
+    p_date: date,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+// Store what the user logged for a task on a date, with the points it earns
+async function logTaskCompletion(userId, taskId, date, value) {
+  const { data, error } = await supabase.rpc('log_task_completion', {
+    p_user_id: userId,
+    p_task_id: taskId,
+    p_date: date,
+    p_value: value,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+// Recalculate and store the user's daily score for a date
+async function calculateDailyScore(userId, date) {
+  try {
+    const { error } = await supabase.rpc('calculate_daily_score', {
+      p_user_id: userId,
+      p_date: date,
+    });
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    console.error('Calculate daily score error:', error);
+  }
+}
+
+// Write a score row (0% when nothing was logged) for every day up to and
+// including throughDate that had tasks due but no row yet
+async function fillMissedDays(userId, throughDate) {
+  const { error } = await supabase.rpc('fill_missed_daily_scores', {
+    p_user_id: userId,
+    p_through: throughDate,
+  });
+
+  if (error) {
+    throw error;
+  }
+}
+
+// A day that counted toward a finished challenge can no longer be edited,
+// otherwise the result could be changed after the fact
+async function isScoreDateLocked(userId, date) {
+  const { data, error } = await supabase.rpc('is_score_date_locked', {
+    p_user_id: userId,
+    p_date: date,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+module.exports = {
+  getDueTasks,
+  getLoggableTasks,
+  logTaskCompletion,
+  calculateDailyScore,
+  fillMissedDays,
+  isScoreDateLocked,
+};
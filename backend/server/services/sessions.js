@@ -0,0 +1,74 @@
+const supabase = require('../config/supabase');
+const { calculateDailyScore } = require('./scores');
+
+const SESSION_SELECT = 'id, task_id, mode, work_minutes, break_minutes, started_at, ended_at';
+
+// Get the user's running sessions
+async function getRunningSessions(userId) {
+  const { data, error } = await supabase
+    .from('task_sessions')
+    .select(SESSION_SELECT)
+    .eq('user_id', userId)
+    .is('ended_at', null)
+    .order('started_at');
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+// Stop a running session and add its worked hours to the completion of each
+// local day it covered. Days before earliestDate or locked by a finished
+// challenge are left alone. Both happen in one transaction, so the session
+// only stops if its time was logged. Returns null when the session isn't
+// running, e.g. because another device already stopped it.
+async function stopSession(userId, sessionId, earliestDate) {
+  const { data: days, error } = await supabase.rpc('stop_task_session', {
+    p_user_id: userId,
+    p_session_id: sessionId,
+    p_earliest_date: earliestDate,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  if (!days) {
+    return null;
+  }
+
+  const { data: session, error: sessionError } = await supabase
+    .from('task_sessions')
+    .select(SESSION_SELECT)
+    .eq('id', sessionId)
+    .single();
+
+  if (sessionError) {
+    throw sessionError;
+  }
+
+  const logged = [];
+  const skipped = [];
+
+  for (const day of days) {
+    const hours = Number(day.hours);
+
+    if (!day.logged) {
+      skipped.push({ date: day.session_date, hours });
+      continue;
+    }
+
+    await calculateDailyScore(userId, day.session_date);
+    logged.push({ date: day.session_date, hours });
+  }
+
+  return { session, logged, skipped };
+}
+
+module.exports = {
+  SESSION_SELECT,
+  getRunningSessions,
+  stopSession,
+};
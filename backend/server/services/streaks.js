@@ -0,0 +1,66 @@
+const supabase = require('../config/supabase');
+const { getUserToday } = require('./profiles');
+const { DEFAULT_STREAK_THRESHOLD, calculateStreak } = require('../utils/streaks');
+const { getTaskProgress } = require('../utils/taskTypes');
+const { selectAllPages } = require('../utils/paging');
+
+// The user's overall streak (days at or above their streak threshold, with
+// freezes) and each task's streak (days it was due and its target was met).
+// Task streaks come from each day's task_breakdown, so they use the task as it
+// was defined that day; days scored before breakdowns existed are left out.
+// Excused (rest) days neither extend nor break a streak. Missed days count
+// once they have a 0% row, which the rollover-scores job writes every hour;
+// reading streaks never writes.
+async function getStreaks(userId) {
+  const today = await getUserToday(userId);
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('streak_threshold')
+    .eq('id', userId)
+    .single();
+
+  if (profileError) {
+    throw profileError;
+  }
+
+  // The whole history, since the longest streak can be from any time
+  const scores = await selectAllPages(() => supabase
+    .from('daily_scores')
+    .select('score_date, percentage_score, task_breakdown')
+    .eq('user_id', userId)
+    .gt('total_possible_points', 0)
+    .eq('is_excused', false)
+    .lte('score_date', today)
+    .order('score_date'));
+
+  const threshold = profile.streak_threshold ?? DEFAULT_STREAK_THRESHOLD;
+
+  const overall = calculateStreak(
+    scores.map(score => ({ date: score.score_date, met: Number(score.percentage_score) >= threshold })),
+    today,
+    { useFreezes: true }
+  );
+
+  const taskDays = {};
+  scores.forEach(score => {
+    (score.task_breakdown || []).forEach(entry => {
+      taskDays[entry.task_id] = taskDays[entry.task_id] || [];
+      taskDays[entry.task_id].push({
+        date: score.score_date,
+        met: getTaskProgress(entry, entry.value) >= 100,
+      });
+    });
+  });
+
+  const tasks = {};
+  Object.entries(taskDays).forEach(([taskId, days]) => {
+    tasks[taskId] = calculateStreak(days, today);
+  });
+
+  return { overall: { ...overall, threshold }, tasks };
+}
+
+module.exports = {
+  getStreaks,
+};
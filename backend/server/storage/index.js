@@ -0,0 +1,16 @@
+const { storageDriver } = require('../config/app');
+
+// Uploaded files go through one of these drivers. Each has the same shape:
+//   save(key, buffer, contentType) stores a file and resolves to its public URL
+//   remove(url, keyPrefix) deletes a file it saved under keyPrefix, and
+//     ignores any other URL
+const drivers = {
+  local: () => require('./local'),
+  supabase: () => require('./supabase'),
+};
+
+if (!Object.hasOwn(drivers, storageDriver)) {
+  throw new Error(`Unknown storage driver: ${storageDriver}`);
+}
+
+module.exports = drivers[storageDriver]();
@@ -0,0 +1,33 @@
+const fs = require('fs/promises');
+const path = require('path');
+const { uploadsDir, publicUrl } = require('../config/app');
+
+// Files on the API server's disk, served at /uploads. Meant for development;
+// several API instances don't share a disk.
+const URL_PREFIX = `${publicUrl}/uploads/`;
+
+async function save(key, buffer) {
+  const filePath = path.join(uploadsDir, key);
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, buffer);
+
+  return URL_PREFIX + key;
+}
+
+async function remove(url, keyPrefix) {
+  if (!url || !url.startsWith(URL_PREFIX)) {
+    return;
+  }
+
+  // Never follow a URL out of the caller's part of the uploads directory
+  const root = path.resolve(uploadsDir, keyPrefix);
+  const filePath = path.resolve(path.resolve(uploadsDir), url.slice(URL_PREFIX.length));
+  if (!filePath.startsWith(root + path.sep)) {
+    return;
+  }
+
+  await fs.rm(filePath, { force: true });
+}
+
+module.exports = { save, remove };
@@ -0,0 +1,36 @@
+const supabase = require('../config/supabase');
+const { storageBucket } = require('../config/app');
+
+// Files in a public Supabase Storage bucket
+const bucket = () => supabase.storage.from(storageBucket);
+
+async function save(key, buffer, contentType) {
+  const { error } = await bucket().upload(key, buffer, { contentType, upsert: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return bucket().getPublicUrl(key).data.publicUrl;
+}
+
+async function remove(url, keyPrefix) {
+  const prefix = bucket().getPublicUrl('').data.publicUrl;
+  if (!url || !url.startsWith(prefix)) {
+    return;
+  }
+
+  // Only files under the caller's prefix, so a URL can't point elsewhere
+  const key = url.slice(prefix.length);
+  if (!key.startsWith(keyPrefix) || key.split('/').includes('..')) {
+    return;
+  }
+
+  const { error } = await bucket().remove([key]);
+
+  if (error) {
+    throw error;
+  }
+}
+
+module.exports = { save, remove };
@@ -0,0 +1,208 @@
+const { addDays, daysBetween, isDateString, parseDate } = require('./dates');
+const { getTaskProgress } = require('./taskTypes');
+
+const DEFAULT_MOVING_AVERAGE_DAYS = 7;
+const MAX_MOVING_AVERAGE_DAYS = 90;
+
+// The longest range one analytics request may cover
+const MAX_ANALYTICS_DAYS = 366;
+
+function average(values) {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function round(value, places = 1) {
+  return value === null ? null : Number(value.toFixed(places));
+}
+
+// Only days with tasks due that weren't excused count toward averages
+function isCounted(score) {
+  return Number(score.total_possible_points) > 0 && !score.is_excused;
+}
+
+// Validate an analytics request's range (defaulting to the last 30 days) and
+// moving-average window. Returns { range } or { error }. The end is clamped to
+// today, since later days have nothing to show yet.
+function parseAnalyticsRange(query, today) {
+  const requestedEnd = query.end || today;
+  const window = query.window === undefined ? DEFAULT_MOVING_AVERAGE_DAYS : Number(query.window);
+
+  if (!isDateString(requestedEnd) || (query.start !== undefined && !isDateString(query.start))) {
+    return { error: 'Dates must be formatted as YYYY-MM-DD' };
+  }
+
+  const end = requestedEnd > today ? today : requestedEnd;
+  const start = query.start || addDays(end, -29);
+
+  if (start > end) {
+    return { error: 'Start date must be on or before the end date and not after today' };
+  }
+
+  if (daysBetween(start, end) + 1 > MAX_ANALYTICS_DAYS) {
+    return { error: `Analytics can cover at most ${MAX_ANALYTICS_DAYS} days` };
+  }
+
+  if (!Number.isInteger(window) || window < 1 || window > MAX_MOVING_AVERAGE_DAYS) {
+    return { error: `Moving average window must be between 1 and ${MAX_MOVING_AVERAGE_DAYS} days` };
+  }
+
+  return { range: { start, end, window } };
+}
+
+// One entry per day from start to end: the day's percentage (null when it
+// didn't count) and the average of the counted days in the `window` days
+// ending on it. `scores` may start before `start` so the first days' averages
+// have their full window.
+function buildTrend(scores, start, end, window) {
+  const byDate = Object.fromEntries(scores.map(score => [score.score_date, score]));
+  const trend = [];
+
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    const score = byDate[date];
+    const windowScores = [];
+
+    for (let day = addDays(date, 1 - window); day <= date; day = addDays(day, 1)) {
+      if (byDate[day] && isCounted(byDate[day])) {
+        windowScores.push(Number(byDate[day].percentage_score));
+      }
+    }
+
+    trend.push({
+      date,
+      percentage: score && isCounted(score) ? round(Number(score.percentage_score)) : null,
+      earned_points: score ? round(Number(score.earned_points)) : 0,
+      excused: !!score?.is_excused,
+      moving_average: round(average(windowScores)),
+    });
+  }
+
+  return trend;
+}
+
+// Average percentage by day of the week (0 = Sunday), with the best and worst
+// of the weekdays that had any counted days
+function getWeekdayStats(scores) {
+  const weekdays = Array.from({ length: 7 }, (_, weekday) => ({ weekday, percentages: [] }));
+
+  scores.filter(isCounted).forEach(score => {
+    weekdays[parseDate(score.score_date).getUTCDay()].percentages.push(Number(score.percentage_score));
+  });
+
+  const stats = weekdays.map(({ weekday, percentages }) => ({
+    weekday,
+    days: percentages.length,
+    average: round(average(percentages)),
+  }));
+
+  const ranked = stats.filter(s => s.days > 0).sort((a, b) => b.average - a.average);
+
+  return {
+    weekdays: stats,
+    best: ranked[0]?.weekday ?? null,
+    worst: ranked.length > 1 ? ranked[ranked.length - 1].weekday : null,
+  };
+}
+
+// Monday-to-Sunday weeks overlapping the range, each compared with the week
+// before it
+function getWeeklyComparison(scores, start, end) {
+  const mondayOf = date => addDays(date, -((parseDate(date).getUTCDay() + 6) % 7));
+  const weeks = [];
+
+  for (let weekStart = mondayOf(start); weekStart <= end; weekStart = addDays(weekStart, 7)) {
+    const weekEnd = addDays(weekStart, 6);
+    const inWeek = scores.filter(score => score.score_date >= weekStart && score.score_date <= weekEnd
+      && score.score_date >= start && score.score_date <= end);
+    const counted = inWeek.filter(isCounted);
+
+    weeks.push({
+      week_start: weekStart,
+      days: counted.length,
+      average: round(average(counted.map(score => Number(score.percentage_score)))),
+      earned_points: round(inWeek.reduce((sum, score) => sum + Number(score.earned_points), 0)),
+    });
+  }
+
+  return weeks.map((week, i) => {
+    const previous = weeks[i - 1];
+    return {
+      ...week,
+      change: previous && week.average !== null && previous.average !== null
+        ? round(week.average - previous.average)
+        : null,
+    };
+  });
+}
+
+// Per-task totals over the range. Completion rates and points come from each
+// day's task_breakdown, so they use the task as it was defined that day;
+// hours come from every logged completion, due or not.
+function getTaskStats(scores, completions, taskNames) {
+  const tasks = {};
+  const statsFor = taskId => {
+    tasks[taskId] = tasks[taskId] || {
+      task_id: taskId,
+      name: taskNames[taskId] || null,
+      task_type: null,
+      hours: 0,
+      due_days: 0,
+      completed_days: 0,
+      earned_points: 0,
+      possible_points: 0,
+    };
+    return tasks[taskId];
+  };
+
+  scores.filter(isCounted).forEach(score => {
+    (score.task_breakdown || []).forEach(entry => {
+      const stats = statsFor(entry.task_id);
+      stats.name = stats.name || entry.name;
+      stats.task_type = entry.task_type;
+      stats.due_days += 1;
+      stats.earned_points += Number(entry.earned_points) || 0;
+      stats.possible_points += Number(entry.points) || 0;
+
+      if (getTaskProgress(entry, entry.value) >= 100) {
+        stats.completed_days += 1;
+      }
+    });
+  });
+
+  completions.forEach(completion => {
+    statsFor(completion.task_id).hours += Number(completion.actual_duration_hours) || 0;
+  });
+
+  return Object.values(tasks)
+    .map(stats => ({
+      ...stats,
+      hours: round(stats.hours, 2),
+      earned_points: round(stats.earned_points),
+      completion_rate: stats.due_days > 0 ? round((stats.completed_days / stats.due_days) * 100) : null,
+    }))
+    .sort((a, b) => b.due_days - a.due_days || b.hours - a.hours);
+}
+
+function getSummary(scores, completions) {
+  const counted = scores.filter(isCounted);
+
+  return {
+    counted_days: counted.length,
+    excused_days: scores.filter(score => score.is_excused).length,
+    perfect_days: counted.filter(score => Number(score.percentage_score) >= 100).length,
+    average: round(average(counted.map(score => Number(score.percentage_score)))),
+    earned_points: round(scores.reduce((sum, score) => sum + Number(score.earned_points), 0)),
+    hours: round(completions.reduce((sum, c) => sum + (Number(c.actual_duration_hours) || 0), 0), 2),
+  };
+}
+
+module.exports = {
+  DEFAULT_MOVING_AVERAGE_DAYS,
+  MAX_MOVING_AVERAGE_DAYS,
+  MAX_ANALYTICS_DAYS,
+  parseAnalyticsRange,
+  buildTrend,
+  getWeekdayStats,
+  getWeeklyComparison,
+  getTaskStats,
+  getSummary,
+};
@@ -0,0 +1,33 @@
+// Where a challenge can go from each status. Anything else is refused.
+// An accepted challenge is scheduled when its chosen start date is still
+// ahead, otherwise it goes straight to active from the day it's accepted.
+const TRANSITIONS = {
+  pending: ['scheduled', 'active', 'declined', 'cancelled', 'expired'],
+  scheduled: ['active', 'cancelled'],
+  active: ['completed'],
+  completed: [],
+  declined: [],
+  cancelled: [],
+  expired: [],
+};
+
+const STATUSES = Object.keys(TRANSITIONS);
+
+function canTransition(from, to) {
+  return Object.hasOwn(TRANSITIONS, from) && TRANSITIONS[from].includes(to);
+}
+
+// Explain why a challenge can't move to a status, or null when it can
+function getTransitionError(from, to) {
+  if (canTransition(from, to)) {
+    return null;
+  }
+
+  return `Cannot move a ${from} challenge to ${to}`;
+}
+
+module.exports = {
+  STATUSES,
+  canTransition,
+  getTransitionError,
+};
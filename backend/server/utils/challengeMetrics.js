@@ -0,0 +1,55 @@
+const METRICS = ['average_percentage', 'total_points', 'task_hours', 'streak', 'perfect_days'];
+
+// Validate the metric fields of a challenge request body and map them onto
+// the challenges table columns. Returns { error } when the settings are invalid.
+function parseMetric(body) {
+  const { metric = 'average_percentage', metric_task_name, metric_threshold } = body;
+
+  if (!METRICS.includes(metric)) {
+    return { error: `Metric must be one of: ${METRICS.join(', ')}` };
+  }
+
+  const settings = {
+    metric,
+    metric_task_name: null,
+    metric_threshold: null,
+  };
+
+  if (metric === 'task_hours') {
+    const taskName = typeof metric_task_name === 'string' ? metric_task_name.trim() : '';
+    if (!taskName) {
+      return { error: 'Name the task whose hours count toward the challenge' };
+    }
+    settings.metric_task_name = taskName;
+  }
+
+  if (metric === 'streak') {
+    const threshold = Number(metric_threshold);
+    if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 100) {
+      return { error: 'Streak threshold must be a percentage between 1 and 100' };
+    }
+    settings.metric_threshold = threshold;
+  }
+
+  return { metric: settings };
+}
+
+// Longest run of consecutive challenge days at or above the threshold. Every
+// day of the window is scored, so a day with nothing due breaks a run.
+function longestStreak(scores, threshold) {
+  let longest = 0;
+  let current = 0;
+
+  for (const score of scores) {
+    current = Number(score.percentage_score) >= threshold ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+
+  return longest;
+}
+
+module.exports = {
+  METRICS,
+  parseMetric,
+  longestStreak,
+};
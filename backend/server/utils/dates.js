@@ -0,0 +1,96 @@
+// Calendar dates are passed around as 'YYYY-MM-DD' strings. Arithmetic is done
+// in UTC so the server's own timezone never shifts a date.
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isDateString(value) {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+    return false;
+  }
+  // Rejects dates like 2025-02-30 that Date would silently roll over
+  const parsed = parseDate(value);
+  return !Number.isNaN(parsed.getTime()) && formatDate(parsed) === value;
+}
+
+function isValidTimeZone(timeZone) {
+  if (typeof timeZone !== 'string' || !timeZone) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The timezone a profile's days are counted in: its own, or UTC when it has
+// none or one this server doesn't know
+function getProfileTimeZone(timeZone) {
+  return isValidTimeZone(timeZone) ? timeZone : 'UTC';
+}
+
+// Get the calendar date of an instant in a timezone
+function getLocalDate(timeZone = 'UTC', instant = new Date()) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(instant);
+
+  const part = type => parts.find(p => p.type === type).value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+function parseDate(date) {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function formatDate(date) {
+  return date.toISOString().split('T')[0];
+}
+
+function addDays(date, days) {
+  const result = parseDate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return formatDate(result);
+}
+
+function addMonths(date, months) {
+  const result = parseDate(date);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return formatDate(result);
+}
+
+function addYears(date, years) {
+  const result = parseDate(date);
+  result.setUTCFullYear(result.getUTCFullYear() + years);
+  return formatDate(result);
+}
+
+// Whole days from one date to another (negative when `to` is earlier)
+function daysBetween(from, to) {
+  return Math.round((parseDate(to) - parseDate(from)) / 86400000);
+}
+
+// First and last date of a month (month is 1-12)
+function getMonthRange(year, month) {
+  const start = new Date(Date.UTC(year, month - 1, 1));
+  const end = new Date(Date.UTC(year, month, 0));
+  return { start: formatDate(start), end: formatDate(end) };
+}
+
+module.exports = {
+  isDateString,
+  isValidTimeZone,
+  getProfileTimeZone,
+  getLocalDate,
+  parseDate,
+  formatDate,
+  addDays,
+  addMonths,
+  addYears,
+  daysBetween,
+  getMonthRange,
+};
@@ -0,0 +1,28 @@
+// PostgREST returns at most 1000 rows per request; a year of completions
+// across several tasks, or a few years of daily scores, can be more than that
+const PAGE_SIZE = 1000;
+
+// Run a query page by page until every row is in. buildQuery must return a
+// fresh, ordered query each time.
+async function selectAllPages(buildQuery) {
+  const rows = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await buildQuery().range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    rows.push(...data);
+
+    if (data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+module.exports = {
+  PAGE_SIZE,
+  selectAllPages,
+};
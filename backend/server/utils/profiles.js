@@ -0,0 +1,76 @@
+const USERNAME_PATTERN = /^[A-Za-z0-9_]{3,30}$/;
+const MAX_DISPLAY_NAME_LENGTH = 50;
+const MAX_BIO_LENGTH = 280;
+const MAX_AVATAR_BYTES = 2 * 1024 * 1024;
+
+// How long after changing their username a user has to wait to change it
+// again. The enforce_username_cooldown trigger has the same number.
+const USERNAME_CHANGE_COOLDOWN_DAYS = 30;
+
+// Image types accepted as avatars, with the bytes each kind of file starts with
+const AVATAR_TYPES = {
+  'image/png': { extension: 'png', signature: [0x89, 0x50, 0x4e, 0x47] },
+  'image/jpeg': { extension: 'jpg', signature: [0xff, 0xd8, 0xff] },
+  'image/gif': { extension: 'gif', signature: [0x47, 0x49, 0x46, 0x38] },
+  'image/webp': { extension: 'webp', signature: [0x52, 0x49, 0x46, 0x46] },
+};
+
+const DATA_URL_PATTERN = /^data:([\w/+.-]+);base64,(.+)$/;
+
+function getUsernameError(username) {
+  if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+    return 'Usernames are 3-30 letters, numbers or underscores';
+  }
+  return null;
+}
+
+// When a username changed at changedAt can next be changed, or null if it
+// can be changed now
+function getNextUsernameChange(changedAt, now = new Date()) {
+  if (!changedAt) {
+    return null;
+  }
+
+  const next = new Date(new Date(changedAt).getTime() + USERNAME_CHANGE_COOLDOWN_DAYS * 24 * 60 * 60 * 1000);
+  return next > now ? next : null;
+}
+
+// Decode an avatar sent as a base64 data URL, checking its type and size
+// against the file's actual bytes. Returns { error } when it isn't accepted.
+function parseAvatar(image) {
+  const match = typeof image === 'string' ? image.match(DATA_URL_PATTERN) : null;
+  if (!match) {
+    return { error: 'Send the avatar as a base64 data URL' };
+  }
+
+  const [, contentType, base64] = match;
+  const type = AVATAR_TYPES[contentType];
+  if (!type) {
+    return { error: `Avatars must be one of: ${Object.keys(AVATAR_TYPES).join(', ')}` };
+  }
+
+  const buffer = Buffer.from(base64, 'base64');
+  if (buffer.length === 0) {
+    return { error: 'The avatar is empty' };
+  }
+  if (buffer.length > MAX_AVATAR_BYTES) {
+    return { error: `Avatars can be at most ${MAX_AVATAR_BYTES / 1024 / 1024} MB` };
+  }
+
+  const matchesType = type.signature.every((byte, i) => buffer[i] === byte) &&
+    (contentType !== 'image/webp' || buffer.toString('ascii', 8, 12) === 'WEBP');
+  if (!matchesType) {
+    return { error: `The file isn't a valid ${contentType} image` };
+  }
+
+  return { avatar: { buffer, contentType, extension: type.extension } };
+}
+
+module.exports = {
+  MAX_DISPLAY_NAME_LENGTH,
+  MAX_BIO_LENGTH,
+  MAX_AVATAR_BYTES,
+  getUsernameError,
+  getNextUsernameChange,
+  parseAvatar,
+};
@@ -0,0 +1,52 @@
+// Elo ratings. Everyone starts at 1200; the first few challenges move a
+// rating further so new players find their level quickly.
+const DEFAULT_RATING = 1200;
+const PROVISIONAL_GAMES = 5;
+const PROVISIONAL_K = 40;
+const ESTABLISHED_K = 20;
+
+function isProvisional(ratedGames) {
+  return ratedGames < PROVISIONAL_GAMES;
+}
+
+// Chance that a player rated `rating` beats one rated `opponentRating`
+function expectedScore(rating, opponentRating) {
+  return 1 / (1 + 10 ** ((opponentRating - rating) / 400));
+}
+
+// New ratings after a challenge. Players are { user_id, rank, rating,
+// rated_games }; every pair counts as a game won by the better rank, with an
+// equal rank a draw, and each player's change is averaged over their
+// opponents so a group challenge moves ratings about as much as a duel.
+function calculateRatings(players) {
+  return players.map(player => {
+    const opponents = players.filter(other => other.user_id !== player.user_id);
+
+    if (opponents.length === 0) {
+      return { user_id: player.user_id, rating_before: player.rating, rating_after: player.rating };
+    }
+
+    const total = opponents.reduce((sum, opponent) => {
+      let actual = 0.5;
+      if (player.rank < opponent.rank) actual = 1;
+      if (player.rank > opponent.rank) actual = 0;
+      return sum + actual - expectedScore(player.rating, opponent.rating);
+    }, 0);
+
+    const k = isProvisional(player.rated_games) ? PROVISIONAL_K : ESTABLISHED_K;
+    const ratingAfter = player.rating + (k * total) / opponents.length;
+
+    return {
+      user_id: player.user_id,
+      rating_before: player.rating,
+      rating_after: Math.round(ratingAfter * 100) / 100,
+    };
+  });
+}
+
+module.exports = {
+  DEFAULT_RATING,
+  PROVISIONAL_GAMES,
+  isProvisional,
+  calculateRatings,
+};
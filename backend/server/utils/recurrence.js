@@ -0,0 +1,77 @@
+const { isDateString } = require('./dates');
+
+const RECURRENCE_TYPES = ['daily', 'weekdays', 'interval', 'times_per_week', 'once'];
+
+// Request body fields that make up a task's recurrence rule
+const RECURRENCE_FIELDS = [
+  'recurrence_type',
+  'recurrence_weekdays',
+  'recurrence_interval',
+  'recurrence_times_per_week',
+  'recurrence_dates',
+];
+
+// Validate the recurrence fields of a task request body and map them onto the
+// tasks table columns. Returns { error } when the rule is invalid.
+function parseRecurrence(body) {
+  const {
+    recurrence_type = 'daily',
+    recurrence_weekdays,
+    recurrence_interval,
+    recurrence_times_per_week,
+    recurrence_dates,
+  } = body;
+
+  const recurrence = {
+    recurrence_type,
+    recurrence_weekdays: null,
+    recurrence_interval: null,
+    recurrence_times_per_week: null,
+    recurrence_dates: null,
+  };
+
+  switch (recurrence_type) {
+    case 'daily':
+      break;
+    case 'weekdays': {
+      const weekdays = Array.isArray(recurrence_weekdays)
+        ? [...new Set(recurrence_weekdays.map(Number))]
+        : [];
+      if (weekdays.length === 0 || weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+        return { error: 'Pick at least one weekday (0 = Sunday ... 6 = Saturday)' };
+      }
+      recurrence.recurrence_weekdays = weekdays.sort((a, b) => a - b);
+      break;
+    }
+    case 'interval': {
+      const interval = Number(recurrence_interval);
+      if (!Number.isInteger(interval) || interval < 1) {
+        return { error: 'Interval must be a whole number of days' };
+      }
+      recurrence.recurrence_interval = interval;
+      break;
+    }
+    case 'times_per_week': {
+      const times = Number(recurrence_times_per_week);
+      if (!Number.isInteger(times) || times < 1 || times > 7) {
+        return { error: 'Times per week must be between 1 and 7' };
+      }
+      recurrence.recurrence_times_per_week = times;
+      break;
+    }
+    case 'once': {
+      const dates = Array.isArray(recurrence_dates) ? [...new Set(recurrence_dates)] : [];
+      if (dates.length === 0 || dates.some(date => !isDateString(date))) {
+        return { error: 'One-off tasks need at least one date (YYYY-MM-DD)' };
+      }
+      recurrence.recurrence_dates = dates.sort();
+      break;
+    }
+    default:
+      return { error: `Recurrence must be one of: ${RECURRENCE_TYPES.join(', ')}` };
+  }
+
+  return { recurrence };
+}
+
+module.exports = { RECURRENCE_TYPES, RECURRENCE_FIELDS, parseRecurrence };
@@ -0,0 +1,40 @@
+const SESSION_MODES = ['timer', 'pomodoro'];
+
+const DEFAULT_WORK_MINUTES = 25;
+const DEFAULT_BREAK_MINUTES = 5;
+
+// Validate the mode of a start-session request body and map it onto the
+// task_sessions table columns. Returns { error } when it doesn't fit.
+function parseSessionMode(body) {
+  const {
+    mode = 'timer',
+    work_minutes = DEFAULT_WORK_MINUTES,
+    break_minutes = DEFAULT_BREAK_MINUTES,
+  } = body;
+
+  if (!SESSION_MODES.includes(mode)) {
+    return { error: `Mode must be one of: ${SESSION_MODES.join(', ')}` };
+  }
+
+  if (mode === 'timer') {
+    return { session: { mode, work_minutes: null, break_minutes: null } };
+  }
+
+  const work = Number(work_minutes);
+  const rest = Number(break_minutes);
+
+  if (!Number.isInteger(work) || work < 1 || work > 240) {
+    return { error: 'Work intervals must be between 1 and 240 minutes' };
+  }
+
+  if (!Number.isInteger(rest) || rest < 1 || rest > 120) {
+    return { error: 'Breaks must be between 1 and 120 minutes' };
+  }
+
+  return { session: { mode, work_minutes: work, break_minutes: rest } };
+}
+
+module.exports = {
+  SESSION_MODES,
+  parseSessionMode,
+};
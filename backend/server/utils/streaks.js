@@ -0,0 +1,55 @@
+// A freeze is earned for every week of an unbroken overall streak and is
+// spent automatically on a missed day, keeping the streak alive. Only a few
+// can be banked at once.
+const FREEZE_EVERY_DAYS = 7;
+const MAX_FREEZES = 2;
+
+const DEFAULT_STREAK_THRESHOLD = 80;
+
+// Current and longest streak over days that count ({ date, met }, oldest
+// first). Days with nothing due are left out by the caller, so they neither
+// extend nor break a streak. Today only counts once it's met, so an
+// unfinished day never breaks a streak. With useFreezes, freezes are earned
+// and spent along the way.
+function calculateStreak(days, today, { useFreezes = false } = {}) {
+  let current = 0;
+  let longest = 0;
+  let freezes = 0;
+  const frozenDates = [];
+
+  days.forEach(day => {
+    if (day.date > today || (day.date === today && !day.met)) {
+      return;
+    }
+
+    if (day.met) {
+      current += 1;
+      longest = Math.max(longest, current);
+
+      if (useFreezes && current % FREEZE_EVERY_DAYS === 0 && freezes < MAX_FREEZES) {
+        freezes += 1;
+      }
+    } else if (useFreezes && current > 0 && freezes > 0) {
+      freezes -= 1;
+      frozenDates.push(day.date);
+    } else {
+      current = 0;
+    }
+  });
+
+  const streak = { current, longest };
+
+  if (useFreezes) {
+    streak.freezes = freezes;
+    streak.frozen_dates = frozenDates;
+  }
+
+  return streak;
+}
+
+module.exports = {
+  FREEZE_EVERY_DAYS,
+  MAX_FREEZES,
+  DEFAULT_STREAK_THRESHOLD,
+  calculateStreak,
+};
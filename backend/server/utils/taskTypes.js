@@ -0,0 +1,112 @@
+const TASK_TYPES = ['duration', 'boolean', 'count', 'avoid'];
+
+// How progress on a duration or count task turns into points; the formulas
+// live in the score_task_completion SQL function
+const SCORING_POLICIES = ['linear', 'all_or_nothing', 'threshold', 'diminishing', 'overtime_bonus'];
+
+// Request body fields that make up a task's type and scoring
+const TASK_TYPE_FIELDS = [
+  'task_type',
+  'duration_hours',
+  'target_count',
+  'unit',
+  'scoring_policy',
+  'scoring_threshold',
+  'overtime_cap',
+];
+
+// Validate the type fields of a task request body and map them onto the
+// tasks table columns. Returns { error } when they don't fit the type.
+function parseTaskType(body) {
+  const {
+    task_type = 'duration',
+    duration_hours,
+    target_count,
+    unit,
+    scoring_policy = 'linear',
+    scoring_threshold,
+    overtime_cap,
+  } = body;
+
+  if (!TASK_TYPES.includes(task_type)) {
+    return { error: `Task type must be one of: ${TASK_TYPES.join(', ')}` };
+  }
+
+  const taskType = {
+    task_type,
+    duration_hours: null,
+    target_count: null,
+    unit: null,
+    scoring_policy: 'linear',
+    scoring_threshold: null,
+    overtime_cap: null,
+  };
+
+  if (task_type === 'duration') {
+    const hours = Number(duration_hours);
+    if (!Number.isFinite(hours) || hours <= 0) {
+      return { error: 'Duration must be more than 0 hours' };
+    }
+    taskType.duration_hours = hours;
+  }
+
+  if (task_type === 'count') {
+    const target = Number(target_count);
+    if (!Number.isFinite(target) || target <= 0) {
+      return { error: 'Target must be more than 0' };
+    }
+    taskType.target_count = target;
+    taskType.unit = typeof unit === 'string' && unit.trim() ? unit.trim() : null;
+  }
+
+  // Boolean and avoid tasks are all-or-nothing by nature
+  if (task_type === 'duration' || task_type === 'count') {
+    if (!SCORING_POLICIES.includes(scoring_policy)) {
+      return { error: `Scoring policy must be one of: ${SCORING_POLICIES.join(', ')}` };
+    }
+    taskType.scoring_policy = scoring_policy;
+
+    if (scoring_policy === 'threshold') {
+      const threshold = Number(scoring_threshold);
+      if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 100) {
+        return { error: 'Threshold must be a percentage of the target between 1 and 100' };
+      }
+      taskType.scoring_threshold = threshold;
+    }
+
+    if (scoring_policy === 'overtime_bonus') {
+      const cap = Number(overtime_cap);
+      if (!Number.isFinite(cap) || cap <= 0 || cap > 100) {
+        return { error: 'Overtime bonus cap must be between 1 and 100 percent' };
+      }
+      taskType.overtime_cap = cap;
+    }
+  }
+
+  return { taskType };
+}
+
+// How far along a task is for a logged value (null when nothing was logged),
+// as a percentage for display. Points are worked out by the database.
+function getTaskProgress(task, value) {
+  const logged = Number(value) || 0;
+
+  switch (task.task_type) {
+    case 'boolean':
+      return logged >= 1 ? 100 : 0;
+    case 'count':
+      return Math.min((logged / task.target_count) * 100, 100);
+    case 'avoid':
+      return logged > 0 ? 0 : 100;
+    default:
+      return task.duration_hours > 0 ? Math.min((logged / task.duration_hours) * 100, 100) : 0;
+  }
+}
+
+module.exports = {
+  TASK_TYPES,
+  SCORING_POLICIES,
+  TASK_TYPE_FIELDS,
+  parseTaskType,
+  getTaskProgress,
+};
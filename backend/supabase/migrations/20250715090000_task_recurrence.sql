@@ -0,0 +1,123 @@
+/*
+  # Task recurrence schedules
+
+  1. Changes
+    - `tasks` gains a recurrence rule: every day, specific weekdays, every N days,
+      X times per week, or a list of one-off dates
+    - `tasks.starts_on` anchors interval schedules and keeps tasks from being due
+      before they existed
+
+  2. Functions
+    - `is_task_due` decides whether a task is due on a given date
+    - `get_due_tasks` lists a user's active tasks that are due on a date
+    - `calculate_daily_score` only counts tasks that are due that day
+*/
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS recurrence_type text NOT NULL DEFAULT 'daily'
+    CHECK (recurrence_type IN ('daily', 'weekdays', 'interval', 'times_per_week', 'once')),
+  ADD COLUMN IF NOT EXISTS recurrence_weekdays smallint[],
+  ADD COLUMN IF NOT EXISTS recurrence_interval integer CHECK (recurrence_interval > 0),
+  ADD COLUMN IF NOT EXISTS recurrence_times_per_week integer CHECK (recurrence_times_per_week BETWEEN 1 AND 7),
+  ADD COLUMN IF NOT EXISTS recurrence_dates date[],
+  ADD COLUMN IF NOT EXISTS starts_on date NOT NULL DEFAULT CURRENT_DATE;
+
+-- Existing tasks have been due since they were created
+UPDATE tasks SET starts_on = created_at::date;
+
+-- Function to check whether a task is due on a date
+CREATE OR REPLACE FUNCTION is_task_due(p_task tasks, p_date date)
+RETURNS boolean AS $$
+DECLARE
+  v_week_start date;
+  v_done_before integer;
+  v_days_left integer;
+BEGIN
+  IF p_task.recurrence_type = 'once' THEN
+    RETURN p_date = ANY(COALESCE(p_task.recurrence_dates, '{}'));
+  END IF;
+
+  IF p_date < p_task.starts_on THEN
+    RETURN false;
+  END IF;
+
+  CASE p_task.recurrence_type
+    WHEN 'weekdays' THEN
+      -- Weekdays use EXTRACT(DOW): 0 = Sunday ... 6 = Saturday
+      RETURN EXTRACT(DOW FROM p_date)::smallint = ANY(COALESCE(p_task.recurrence_weekdays, '{}'));
+    WHEN 'interval' THEN
+      RETURN (p_date - p_task.starts_on) % p_task.recurrence_interval = 0;
+    WHEN 'times_per_week' THEN
+      -- A day the task was logged always counts towards the quota
+      IF EXISTS (
+        SELECT 1 FROM task_completions
+        WHERE task_id = p_task.id AND completion_date = p_date AND actual_duration_hours > 0
+      ) THEN
+        RETURN true;
+      END IF;
+
+      -- Otherwise it only becomes due once every remaining day of the
+      -- (Monday-based) week is needed to reach the quota
+      v_week_start := date_trunc('week', p_date)::date;
+
+      SELECT COUNT(*) INTO v_done_before
+      FROM task_completions
+      WHERE task_id = p_task.id
+      AND completion_date >= v_week_start
+      AND completion_date < p_date
+      AND actual_duration_hours > 0;
+
+      v_days_left := 7 - (p_date - v_week_start);
+
+      RETURN p_task.recurrence_times_per_week - v_done_before >= v_days_left;
+    ELSE
+      RETURN true;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function to list a user's tasks that are due on a date
+CREATE OR REPLACE FUNCTION get_due_tasks(p_user_id uuid, p_date date)
+RETURNS SETOF tasks AS $$
+  SELECT * FROM tasks t
+  WHERE t.user_id = p_user_id
+  AND t.is_active = true
+  AND is_task_due(t, p_date)
+  ORDER BY t.created_at DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Function to calculate daily score (only tasks due that day count)
+CREATE OR REPLACE FUNCTION calculate_daily_score(p_user_id uuid, p_date date)
+RETURNS void AS $$
+DECLARE
+  v_total_possible integer;
+  v_earned_points decimal(6,2);
+  v_percentage decimal(5,2);
+BEGIN
+  -- Calculate total possible points for the day
+  SELECT COALESCE(SUM(points), 0) INTO v_total_possible
+  FROM get_due_tasks(p_user_id, p_date);
+  
+  -- Calculate earned points for the day
+  SELECT COALESCE(SUM(tc.earned_points), 0) INTO v_earned_points
+  FROM task_completions tc
+  JOIN get_due_tasks(p_user_id, p_date) t ON t.id = tc.task_id
+  WHERE tc.user_id = p_user_id AND tc.completion_date = p_date;
+  
+  -- Calculate percentage
+  v_percentage := CASE 
+    WHEN v_total_possible > 0 THEN (v_earned_points / v_total_possible) * 100
+    ELSE 0
+  END;
+  
+  -- Insert or update daily score
+  INSERT INTO daily_scores (user_id, score_date, total_possible_points, earned_points, percentage_score)
+  VALUES (p_user_id, p_date, v_total_possible, v_earned_points, v_percentage)
+  ON CONFLICT (user_id, score_date) 
+  DO UPDATE SET 
+    total_possible_points = EXCLUDED.total_possible_points,
+    earned_points = EXCLUDED.earned_points,
+    percentage_score = EXCLUDED.percentage_score,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
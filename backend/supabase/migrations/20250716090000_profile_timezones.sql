@@ -0,0 +1,10 @@
+/*
+  # Per-profile timezones
+
+  1. Changes
+    - `profiles.timezone` (IANA name, e.g. `Asia/Kolkata`) decides which calendar
+      day completions, daily scores and challenge dates belong to
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'UTC';
@@ -0,0 +1,127 @@
+/*
+  # Zero-fill missed days
+
+  1. Changes
+    - `profiles.scores_filled_through` remembers how far missed days have been
+      materialised for each user
+
+  2. Functions
+    - `fill_missed_daily_scores` writes a score row (0% when nothing was logged)
+      for every day that had tasks due but no row yet
+    - `rollover_daily_scores` fills every user up to the end of their local yesterday
+    - `update_challenge_winner` fills both participants first and averages every
+      day of the challenge window that had tasks due
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS scores_filled_through date;
+
+-- Function to materialise scores for days with tasks due but nothing logged
+CREATE OR REPLACE FUNCTION fill_missed_daily_scores(p_user_id uuid, p_through date)
+RETURNS integer AS $$
+DECLARE
+  v_from date;
+  v_date date;
+  v_filled integer := 0;
+BEGIN
+  SELECT COALESCE(scores_filled_through + 1, created_at::date) INTO v_from
+  FROM profiles WHERE id = p_user_id;
+
+  IF v_from IS NULL OR v_from > p_through THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_date IN SELECT generate_series(v_from, p_through, interval '1 day')::date LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM daily_scores WHERE user_id = p_user_id AND score_date = v_date
+    ) AND EXISTS (
+      SELECT 1 FROM get_due_tasks(p_user_id, v_date)
+    ) THEN
+      PERFORM calculate_daily_score(p_user_id, v_date);
+      v_filled := v_filled + 1;
+    END IF;
+  END LOOP;
+
+  UPDATE profiles SET scores_filled_through = p_through
+  WHERE id = p_user_id
+  AND (scores_filled_through IS NULL OR scores_filled_through < p_through);
+
+  RETURN v_filled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to fill every user up to the end of their local yesterday
+CREATE OR REPLACE FUNCTION rollover_daily_scores()
+RETURNS integer AS $$
+DECLARE
+  v_profile record;
+  v_filled integer := 0;
+BEGIN
+  FOR v_profile IN SELECT id, timezone FROM profiles LOOP
+    v_filled := v_filled + fill_missed_daily_scores(
+      v_profile.id,
+      (now() AT TIME ZONE v_profile.timezone)::date - 1
+    );
+  END LOOP;
+
+  RETURN v_filled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to update challenge winner
+CREATE OR REPLACE FUNCTION update_challenge_winner(p_challenge_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_creator_id uuid;
+  v_challenger_id uuid;
+  v_start_date date;
+  v_end_date date;
+  v_creator_avg decimal(5,2);
+  v_challenger_avg decimal(5,2);
+  v_winner_id uuid;
+BEGIN
+  -- Get challenge details
+  SELECT creator_id, challenger_id, start_date, end_date
+  INTO v_creator_id, v_challenger_id, v_start_date, v_end_date
+  FROM challenges WHERE id = p_challenge_id;
+
+  -- Every day with tasks due counts, logged or not
+  PERFORM fill_missed_daily_scores(v_creator_id, v_end_date);
+  PERFORM fill_missed_daily_scores(v_challenger_id, v_end_date);
+  
+  -- Calculate average scores for creator
+  SELECT COALESCE(AVG(percentage_score), 0) INTO v_creator_avg
+  FROM daily_scores 
+  WHERE user_id = v_creator_id 
+  AND score_date BETWEEN v_start_date AND v_end_date
+  AND total_possible_points > 0;
+  
+  -- Calculate average scores for challenger
+  SELECT COALESCE(AVG(percentage_score), 0) INTO v_challenger_avg
+  FROM daily_scores 
+  WHERE user_id = v_challenger_id 
+  AND score_date BETWEEN v_start_date AND v_end_date
+  AND total_possible_points > 0;
+  
+  -- Determine winner
+  IF v_creator_avg > v_challenger_avg THEN
+    v_winner_id := v_creator_id;
+  ELSIF v_challenger_avg > v_creator_avg THEN
+    v_winner_id := v_challenger_id;
+  ELSE
+    v_winner_id := NULL; -- Tie
+  END IF;
+  
+  -- Update challenge
+  UPDATE challenges 
+  SET winner_id = v_winner_id, status = 'completed', updated_at = now()
+  WHERE id = p_challenge_id;
+  
+  -- Update user stats if there's a winner
+  IF v_winner_id IS NOT NULL THEN
+    UPDATE profiles SET total_wins = total_wins + 1 WHERE id = v_winner_id;
+    UPDATE profiles SET total_losses = total_losses + 1 
+    WHERE id = CASE WHEN v_winner_id = v_creator_id THEN v_challenger_id ELSE v_creator_id END;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,83 @@
+/*
+  # Background jobs
+
+  1. New Tables
+    - `job_locks` - One row per scheduled job; a lease that keeps concurrent
+      runs (several API instances, or a manual trigger during a scheduled run)
+      from doing the same work twice, plus the outcome of the last run
+
+  2. Changes
+    - `profiles.is_admin` allows a user to trigger jobs by hand
+
+  3. Functions
+    - `acquire_job_lock` / `release_job_lock` manage the lease
+    - `increment_wins` / `increment_losses` update challenge records
+*/
+
+CREATE TABLE IF NOT EXISTS job_locks (
+  name text PRIMARY KEY,
+  locked_by text,
+  locked_until timestamptz,
+  last_started_at timestamptz,
+  last_finished_at timestamptz,
+  last_result jsonb
+);
+
+ALTER TABLE job_locks ENABLE ROW LEVEL SECURITY;
+-- No policies: only the service role touches job_locks
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS is_admin boolean NOT NULL DEFAULT false;
+
+-- Function to take the lease on a job; returns false if another run holds it
+CREATE OR REPLACE FUNCTION acquire_job_lock(p_name text, p_owner text, p_ttl_seconds integer)
+RETURNS boolean AS $$
+DECLARE
+  v_acquired boolean;
+BEGIN
+  INSERT INTO job_locks (name, locked_by, locked_until, last_started_at)
+  VALUES (p_name, p_owner, now() + make_interval(secs => p_ttl_seconds), now())
+  ON CONFLICT (name) DO UPDATE SET
+    locked_by = EXCLUDED.locked_by,
+    locked_until = EXCLUDED.locked_until,
+    last_started_at = EXCLUDED.last_started_at
+  WHERE job_locks.locked_until IS NULL OR job_locks.locked_until < now()
+  RETURNING true INTO v_acquired;
+
+  RETURN COALESCE(v_acquired, false);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to give the lease back and record how the run went
+CREATE OR REPLACE FUNCTION release_job_lock(p_name text, p_owner text, p_result jsonb)
+RETURNS void AS $$
+BEGIN
+  UPDATE job_locks
+  SET locked_by = NULL, locked_until = NULL, last_finished_at = now(), last_result = p_result
+  WHERE name = p_name AND locked_by = p_owner;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Functions to update challenge records
+CREATE OR REPLACE FUNCTION increment_wins(user_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE profiles SET total_wins = total_wins + 1, updated_at = now()
+  WHERE id = increment_wins.user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION increment_losses(user_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE profiles SET total_losses = total_losses + 1, updated_at = now()
+  WHERE id = increment_losses.user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Job functions run with the service role only
+REVOKE EXECUTE ON FUNCTION acquire_job_lock(text, text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_job_lock(text, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION increment_wins(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION increment_losses(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION rollover_daily_scores() FROM PUBLIC, anon, authenticated;
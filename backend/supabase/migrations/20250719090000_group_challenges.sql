@@ -0,0 +1,121 @@
+/*
+  # Multi-participant challenges
+
+  1. New Tables
+    - `challenge_participants` - Everyone taking part in a challenge, with their
+      invitation status and, once the challenge is over, their score and rank
+
+  2. Changes
+    - `challenges.challenge_type` is `duel` (classic 1v1) or `group` (3-30 people)
+    - `challenges.name` titles group challenges
+    - `challenges.challenger_id` is only set for duels
+    - Existing challenges get participant rows
+
+  3. Security
+    - Visibility of challenges, completions and scores between challenge
+      members now goes through `challenge_participants`
+
+  4. Functions
+    - `update_challenge_winner` is dropped; ranking participants is done by the
+      backend's complete-challenges job
+*/
+
+CREATE TABLE IF NOT EXISTS challenge_participants (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  challenge_id uuid REFERENCES challenges(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  status text DEFAULT 'invited' CHECK (status IN ('invited', 'accepted', 'declined')),
+  final_score decimal(8,2),
+  rank integer,
+  responded_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(challenge_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS challenge_participants_user_id_idx ON challenge_participants(user_id);
+
+ALTER TABLE challenges
+  ADD COLUMN IF NOT EXISTS challenge_type text NOT NULL DEFAULT 'duel'
+    CHECK (challenge_type IN ('duel', 'group')),
+  ADD COLUMN IF NOT EXISTS name text,
+  ALTER COLUMN challenger_id DROP NOT NULL,
+  ADD CONSTRAINT challenges_duel_has_challenger
+    CHECK (challenge_type = 'group' OR challenger_id IS NOT NULL);
+
+-- Existing duels: the creator is in, the challenger is in once they accepted
+INSERT INTO challenge_participants (challenge_id, user_id, status, responded_at)
+SELECT id, creator_id, 'accepted', created_at FROM challenges
+ON CONFLICT (challenge_id, user_id) DO NOTHING;
+
+INSERT INTO challenge_participants (challenge_id, user_id, status, responded_at)
+SELECT
+  id,
+  challenger_id,
+  CASE WHEN status IN ('active', 'completed') THEN 'accepted' ELSE 'invited' END,
+  CASE WHEN status IN ('active', 'completed') THEN updated_at END
+FROM challenges
+WHERE challenger_id IS NOT NULL
+ON CONFLICT (challenge_id, user_id) DO NOTHING;
+
+-- Finished duels: the winner ranks first, a tie ranks both first
+UPDATE challenge_participants cp
+SET rank = CASE WHEN c.winner_id IS NULL OR c.winner_id = cp.user_id THEN 1 ELSE 2 END
+FROM challenges c
+WHERE c.id = cp.challenge_id AND c.status = 'completed';
+
+ALTER TABLE challenge_participants ENABLE ROW LEVEL SECURITY;
+
+-- Function to check challenge membership without recursing through RLS
+CREATE OR REPLACE FUNCTION is_challenge_participant(p_challenge_id uuid, p_user_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM challenge_participants
+    WHERE challenge_id = p_challenge_id AND user_id = p_user_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function to check whether two users are both in an active challenge
+CREATE OR REPLACE FUNCTION shares_active_challenge(p_user_id uuid, p_other_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM challenge_participants mine
+    JOIN challenge_participants theirs ON theirs.challenge_id = mine.challenge_id
+    JOIN challenges c ON c.id = mine.challenge_id
+    WHERE mine.user_id = p_user_id
+    AND theirs.user_id = p_other_id
+    AND mine.status = 'accepted'
+    AND theirs.status = 'accepted'
+    AND c.status = 'active'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Challenge participants policies
+CREATE POLICY "Participants can view challenge members" ON challenge_participants FOR SELECT TO authenticated
+USING (is_challenge_participant(challenge_id, auth.uid()));
+CREATE POLICY "Creators can invite participants" ON challenge_participants FOR INSERT TO authenticated
+WITH CHECK (
+  EXISTS (SELECT 1 FROM challenges WHERE id = challenge_id AND creator_id = auth.uid())
+);
+CREATE POLICY "Participants can respond to invitations" ON challenge_participants FOR UPDATE TO authenticated
+USING (auth.uid() = user_id);
+
+-- Challenges policies
+DROP POLICY IF EXISTS "Users can view own challenges" ON challenges;
+DROP POLICY IF EXISTS "Users can update own challenges" ON challenges;
+CREATE POLICY "Users can view own challenges" ON challenges FOR SELECT TO authenticated 
+USING (auth.uid() = creator_id OR is_challenge_participant(id, auth.uid()));
+CREATE POLICY "Users can update own challenges" ON challenges FOR UPDATE TO authenticated 
+USING (auth.uid() = creator_id OR is_challenge_participant(id, auth.uid()));
+
+-- Task completions policies
+DROP POLICY IF EXISTS "Challenge participants can view completions" ON task_completions;
+CREATE POLICY "Challenge participants can view completions" ON task_completions FOR SELECT TO authenticated 
+USING (auth.uid() = user_id OR shares_active_challenge(auth.uid(), user_id));
+
+-- Daily scores policies
+DROP POLICY IF EXISTS "Challenge participants can view scores" ON daily_scores;
+CREATE POLICY "Challenge participants can view scores" ON daily_scores FOR SELECT TO authenticated 
+USING (auth.uid() = user_id OR shares_active_challenge(auth.uid(), user_id));
+
+DROP FUNCTION IF EXISTS update_challenge_winner(uuid);
@@ -0,0 +1,28 @@
+/*
+  # Challenge win metrics
+
+  1. Changes
+    - `challenges.metric` picks how participants are scored:
+      - `average_percentage` - average daily percentage (the previous behaviour)
+      - `total_points` - total points earned
+      - `task_hours` - total hours logged on the task named `metric_task_name`
+      - `streak` - longest run of days scoring at least `metric_threshold` percent
+      - `perfect_days` - number of days at 100%
+    - `challenges.metric_task_name` and `challenges.metric_threshold` hold the
+      settings for the metrics that need them
+    - `challenge_participants.final_score` is widened for point and hour totals
+*/
+
+ALTER TABLE challenges
+  ADD COLUMN IF NOT EXISTS metric text NOT NULL DEFAULT 'average_percentage'
+    CHECK (metric IN ('average_percentage', 'total_points', 'task_hours', 'streak', 'perfect_days')),
+  ADD COLUMN IF NOT EXISTS metric_task_name text,
+  ADD COLUMN IF NOT EXISTS metric_threshold decimal(5,2)
+    CHECK (metric_threshold IS NULL OR (metric_threshold > 0 AND metric_threshold <= 100)),
+  ADD CONSTRAINT challenges_task_hours_has_task
+    CHECK (metric <> 'task_hours' OR metric_task_name IS NOT NULL),
+  ADD CONSTRAINT challenges_streak_has_threshold
+    CHECK (metric <> 'streak' OR metric_threshold IS NOT NULL);
+
+ALTER TABLE challenge_participants
+  ALTER COLUMN final_score TYPE decimal(12,2);
@@ -0,0 +1,33 @@
+/*
+  # Challenge score visibility
+
+  1. Security
+    - Challenge members can see each other's daily scores for the days of
+      challenges they are both in, while active and after completion, so the
+      day-by-day challenge view keeps working once a challenge is over
+    - Scores outside a shared challenge's window stay private
+
+  2. Functions
+    - `shares_challenge_on` checks whether two users were in the same active
+      or completed challenge on a date
+*/
+
+CREATE OR REPLACE FUNCTION shares_challenge_on(p_user_id uuid, p_other_id uuid, p_date date)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM challenge_participants mine
+    JOIN challenge_participants theirs ON theirs.challenge_id = mine.challenge_id
+    JOIN challenges c ON c.id = mine.challenge_id
+    WHERE mine.user_id = p_user_id
+    AND theirs.user_id = p_other_id
+    AND mine.status = 'accepted'
+    AND theirs.status = 'accepted'
+    AND c.status IN ('active', 'completed')
+    AND p_date BETWEEN c.start_date AND c.end_date
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+DROP POLICY IF EXISTS "Challenge participants can view scores" ON daily_scores;
+CREATE POLICY "Challenge participants can view scores" ON daily_scores FOR SELECT TO authenticated
+USING (auth.uid() = user_id OR shares_challenge_on(auth.uid(), user_id, score_date));
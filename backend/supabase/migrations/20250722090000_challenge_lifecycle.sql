@@ -0,0 +1,36 @@
+/*
+  # Challenge lifecycle
+
+  1. Changes
+    - `challenges.status` gains `scheduled` (accepted, waiting for its start
+      date), `declined` (turned down by the invitees) and `expired` (nobody
+      answered in time)
+    - `challenges.scheduled_start_date` is the start date chosen by the
+      creator; without one a challenge starts the day it's accepted
+    - `challenges.duration_type` and `challenges.duration_count` keep the
+      requested length so the end date can be set when the challenge starts
+    - `challenges.expires_at` is when an unanswered invitation lapses
+
+  2. Notes
+    - Existing challenges keep their dates; their duration is recorded in days
+    - Existing pending challenges expire a week after they were created
+*/
+
+ALTER TABLE challenges DROP CONSTRAINT IF EXISTS challenges_status_check;
+ALTER TABLE challenges ADD CONSTRAINT challenges_status_check
+  CHECK (status IN ('pending', 'scheduled', 'active', 'completed', 'declined', 'cancelled', 'expired'));
+
+ALTER TABLE challenges
+  ADD COLUMN IF NOT EXISTS scheduled_start_date date,
+  ADD COLUMN IF NOT EXISTS duration_type text NOT NULL DEFAULT 'day'
+    CHECK (duration_type IN ('day', 'week', 'month', 'year')),
+  ADD COLUMN IF NOT EXISTS duration_count integer NOT NULL DEFAULT 1
+    CHECK (duration_count > 0),
+  ADD COLUMN IF NOT EXISTS expires_at timestamptz;
+
+UPDATE challenges SET duration_count = (end_date - start_date) + 1;
+
+-- Open invitations get the default week to be answered
+UPDATE challenges SET expires_at = created_at + interval '7 days' WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS challenges_status_idx ON challenges(status);
@@ -0,0 +1,74 @@
+/*
+  # Player ratings
+
+  1. New Tables
+    - `rating_history` - Each rating change, one row per participant of a
+      completed challenge
+
+  2. Changes
+    - `profiles.rating` is an Elo skill rating, starting at 1200
+    - `profiles.rated_games` counts the challenges that went into it; ratings
+      are provisional for the first few
+
+  3. Functions
+    - `apply_rating_changes` records the new ratings from one challenge and
+      updates the profiles, once per challenge however often it's called
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS rating decimal(7,2) NOT NULL DEFAULT 1200,
+  ADD COLUMN IF NOT EXISTS rated_games integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS profiles_rating_idx ON profiles(rating DESC);
+
+CREATE TABLE IF NOT EXISTS rating_history (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  challenge_id uuid REFERENCES challenges(id) ON DELETE CASCADE NOT NULL,
+  rating_before decimal(7,2) NOT NULL,
+  rating_after decimal(7,2) NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, challenge_id)
+);
+
+CREATE INDEX IF NOT EXISTS rating_history_user_id_idx ON rating_history(user_id, created_at);
+
+ALTER TABLE rating_history ENABLE ROW LEVEL SECURITY;
+
+-- Ratings are public, like the leaderboard
+CREATE POLICY "Users can view rating history" ON rating_history FOR SELECT TO authenticated USING (true);
+
+-- Function to apply the rating changes from a completed challenge.
+-- p_changes is a JSON array of { user_id, rating_before, rating_after }.
+CREATE OR REPLACE FUNCTION apply_rating_changes(p_challenge_id uuid, p_changes jsonb)
+RETURNS void AS $$
+DECLARE
+  v_change jsonb;
+BEGIN
+  FOR v_change IN SELECT * FROM jsonb_array_elements(p_changes)
+  LOOP
+    INSERT INTO rating_history (user_id, challenge_id, rating_before, rating_after)
+    VALUES (
+      (v_change->>'user_id')::uuid,
+      p_challenge_id,
+      (v_change->>'rating_before')::decimal,
+      (v_change->>'rating_after')::decimal
+    )
+    ON CONFLICT (user_id, challenge_id) DO NOTHING;
+
+    -- Already rated for this challenge
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE profiles
+    SET
+      rating = (v_change->>'rating_after')::decimal,
+      rated_games = rated_games + 1,
+      updated_at = now()
+    WHERE id = (v_change->>'user_id')::uuid;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION apply_rating_changes(uuid, jsonb) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,182 @@
+/*
+  # Task types
+
+  1. Changes
+    - `tasks.task_type` says how a task is logged and scored:
+      - `duration` - hours against `duration_hours` (the previous behaviour)
+      - `boolean` - done or not done
+      - `count` - a number against `target_count`, measured in `unit`
+      - `avoid` - a habit to stay away from; it earns its points unless it's
+        broken, and costs them when it is
+    - `tasks.duration_hours` is only required for duration tasks
+    - `task_completions.value` is what was logged: hours, 1/0 for done, a
+      count, or 1 when an avoided habit was broken
+
+  2. Functions
+    - `score_task_completion` works out the points a task earns for a value
+    - `log_task_completion` stores a completion with its points
+    - `is_task_due` counts a times-per-week task as done when its value is above 0
+    - `calculate_daily_score` scores every due task, including avoided habits
+      with nothing logged; a day never goes below 0 points
+*/
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS task_type text NOT NULL DEFAULT 'duration'
+    CHECK (task_type IN ('duration', 'boolean', 'count', 'avoid')),
+  ADD COLUMN IF NOT EXISTS target_count decimal(8,2) CHECK (target_count > 0),
+  ADD COLUMN IF NOT EXISTS unit text,
+  ALTER COLUMN duration_hours DROP NOT NULL,
+  ADD CONSTRAINT tasks_duration_has_hours
+    CHECK (task_type <> 'duration' OR duration_hours > 0),
+  ADD CONSTRAINT tasks_count_has_target
+    CHECK (task_type <> 'count' OR target_count IS NOT NULL);
+
+ALTER TABLE task_completions
+  ADD COLUMN IF NOT EXISTS value decimal(8,2) NOT NULL DEFAULT 0,
+  ALTER COLUMN actual_duration_hours SET DEFAULT 0;
+
+UPDATE task_completions SET value = actual_duration_hours;
+
+-- Function to work out the points a task earns for a logged value. A NULL
+-- value means nothing was logged.
+CREATE OR REPLACE FUNCTION score_task_completion(p_task tasks, p_value decimal)
+RETURNS decimal AS $$
+BEGIN
+  CASE p_task.task_type
+    WHEN 'boolean' THEN
+      RETURN CASE WHEN COALESCE(p_value, 0) >= 1 THEN p_task.points ELSE 0 END;
+    WHEN 'count' THEN
+      RETURN LEAST(COALESCE(p_value, 0) / p_task.target_count, 1) * p_task.points;
+    WHEN 'avoid' THEN
+      RETURN CASE WHEN COALESCE(p_value, 0) > 0 THEN -p_task.points ELSE p_task.points END;
+    ELSE
+      IF COALESCE(p_task.duration_hours, 0) <= 0 THEN
+        RETURN 0;
+      END IF;
+      RETURN LEAST(COALESCE(p_value, 0) / p_task.duration_hours, 1) * p_task.points;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Function to store a completion with the points it earns
+CREATE OR REPLACE FUNCTION log_task_completion(p_user_id uuid, p_task_id uuid, p_date date, p_value decimal)
+RETURNS task_completions AS $$
+DECLARE
+  v_task tasks;
+  v_completion task_completions;
+BEGIN
+  SELECT * INTO v_task FROM tasks WHERE id = p_task_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  INSERT INTO task_completions (user_id, task_id, completion_date, value, actual_duration_hours, earned_points)
+  VALUES (
+    p_user_id,
+    p_task_id,
+    p_date,
+    p_value,
+    CASE WHEN v_task.task_type = 'duration' THEN p_value ELSE 0 END,
+    score_task_completion(v_task, p_value)
+  )
+  ON CONFLICT (user_id, task_id, completion_date)
+  DO UPDATE SET
+    value = EXCLUDED.value,
+    actual_duration_hours = EXCLUDED.actual_duration_hours,
+    earned_points = EXCLUDED.earned_points
+  RETURNING * INTO v_completion;
+
+  RETURN v_completion;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION log_task_completion(uuid, uuid, date, decimal) FROM PUBLIC, anon, authenticated;
+
+-- Function to check whether a task is due on a date
+CREATE OR REPLACE FUNCTION is_task_due(p_task tasks, p_date date)
+RETURNS boolean AS $$
+DECLARE
+  v_week_start date;
+  v_done_before integer;
+  v_days_left integer;
+BEGIN
+  IF p_task.recurrence_type = 'once' THEN
+    RETURN p_date = ANY(COALESCE(p_task.recurrence_dates, '{}'));
+  END IF;
+
+  IF p_date < p_task.starts_on THEN
+    RETURN false;
+  END IF;
+
+  CASE p_task.recurrence_type
+    WHEN 'weekdays' THEN
+      -- Weekdays use EXTRACT(DOW): 0 = Sunday ... 6 = Saturday
+      RETURN EXTRACT(DOW FROM p_date)::smallint = ANY(COALESCE(p_task.recurrence_weekdays, '{}'));
+    WHEN 'interval' THEN
+      RETURN (p_date - p_task.starts_on) % p_task.recurrence_interval = 0;
+    WHEN 'times_per_week' THEN
+      -- A day the task was logged always counts towards the quota
+      IF EXISTS (
+        SELECT 1 FROM task_completions
+        WHERE task_id = p_task.id AND completion_date = p_date AND value > 0
+      ) THEN
+        RETURN true;
+      END IF;
+
+      -- Otherwise it only becomes due once every remaining day of the
+      -- (Monday-based) week is needed to reach the quota
+      v_week_start := date_trunc('week', p_date)::date;
+
+      SELECT COUNT(*) INTO v_done_before
+      FROM task_completions
+      WHERE task_id = p_task.id
+      AND completion_date >= v_week_start
+      AND completion_date < p_date
+      AND value > 0;
+
+      v_days_left := 7 - (p_date - v_week_start);
+
+      RETURN p_task.recurrence_times_per_week - v_done_before >= v_days_left;
+    ELSE
+      RETURN true;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function to calculate daily score (only tasks due that day count)
+CREATE OR REPLACE FUNCTION calculate_daily_score(p_user_id uuid, p_date date)
+RETURNS void AS $$
+DECLARE
+  v_total_possible integer;
+  v_earned_points decimal(6,2);
+  v_percentage decimal(5,2);
+BEGIN
+  -- Calculate total possible points for the day
+  SELECT COALESCE(SUM(points), 0) INTO v_total_possible
+  FROM get_due_tasks(p_user_id, p_date);
+
+  -- Calculate earned points for the day; broken habits can cancel out
+  -- other tasks but never take the day below 0
+  SELECT GREATEST(COALESCE(SUM(score_task_completion(t, tc.value)), 0), 0) INTO v_earned_points
+  FROM get_due_tasks(p_user_id, p_date) t
+  LEFT JOIN task_completions tc
+    ON tc.task_id = t.id AND tc.user_id = p_user_id AND tc.completion_date = p_date;
+
+  -- Calculate percentage
+  v_percentage := CASE
+    WHEN v_total_possible > 0 THEN (v_earned_points / v_total_possible) * 100
+    ELSE 0
+  END;
+
+  -- Insert or update daily score
+  INSERT INTO daily_scores (user_id, score_date, total_possible_points, earned_points, percentage_score)
+  VALUES (p_user_id, p_date, v_total_possible, v_earned_points, v_percentage)
+  ON CONFLICT (user_id, score_date)
+  DO UPDATE SET
+    total_possible_points = EXCLUDED.total_possible_points,
+    earned_points = EXCLUDED.earned_points,
+    percentage_score = EXCLUDED.percentage_score,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
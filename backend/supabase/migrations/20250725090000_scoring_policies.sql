@@ -0,0 +1,77 @@
+/*
+  # Scoring policies
+
+  1. Changes
+    - `tasks.scoring_policy` decides how progress on a duration or count task
+      turns into points:
+      - `linear` - points in proportion to progress, up to the target (default)
+      - `all_or_nothing` - full points only once the target is reached
+      - `threshold` - nothing until `scoring_threshold` percent of the target,
+        then in proportion to progress
+      - `diminishing` - the first part of the target earns the most, each
+        extra bit a little less
+      - `overtime_bonus` - in proportion to progress, including going past the
+        target, up to `overtime_cap` percent extra
+    - Boolean and avoid tasks are all-or-nothing by nature and ignore the policy
+
+  2. Functions
+    - `score_task_completion` applies the policy. It is the only place points
+      are worked out: completions are stored through `log_task_completion` and
+      days are scored by `calculate_daily_score`, which both call it.
+*/
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS scoring_policy text NOT NULL DEFAULT 'linear'
+    CHECK (scoring_policy IN ('linear', 'all_or_nothing', 'threshold', 'diminishing', 'overtime_bonus')),
+  ADD COLUMN IF NOT EXISTS scoring_threshold decimal(5,2)
+    CHECK (scoring_threshold > 0 AND scoring_threshold <= 100),
+  ADD COLUMN IF NOT EXISTS overtime_cap decimal(5,2)
+    CHECK (overtime_cap > 0 AND overtime_cap <= 100),
+  ADD CONSTRAINT tasks_threshold_policy_has_threshold
+    CHECK (scoring_policy <> 'threshold' OR scoring_threshold IS NOT NULL),
+  ADD CONSTRAINT tasks_overtime_policy_has_cap
+    CHECK (scoring_policy <> 'overtime_bonus' OR overtime_cap IS NOT NULL);
+
+-- Function to work out the points a task earns for a logged value. A NULL
+-- value means nothing was logged.
+CREATE OR REPLACE FUNCTION score_task_completion(p_task tasks, p_value decimal)
+RETURNS decimal AS $$
+DECLARE
+  v_target decimal;
+  v_progress decimal;
+BEGIN
+  CASE p_task.task_type
+    WHEN 'boolean' THEN
+      RETURN CASE WHEN COALESCE(p_value, 0) >= 1 THEN p_task.points ELSE 0 END;
+    WHEN 'avoid' THEN
+      RETURN CASE WHEN COALESCE(p_value, 0) > 0 THEN -p_task.points ELSE p_task.points END;
+    WHEN 'count' THEN
+      v_target := p_task.target_count;
+    ELSE
+      v_target := p_task.duration_hours;
+  END CASE;
+
+  IF COALESCE(v_target, 0) <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  -- Progress as a fraction of the target (1 = target reached)
+  v_progress := GREATEST(COALESCE(p_value, 0), 0) / v_target;
+
+  CASE p_task.scoring_policy
+    WHEN 'all_or_nothing' THEN
+      RETURN CASE WHEN v_progress >= 1 THEN p_task.points ELSE 0 END;
+    WHEN 'threshold' THEN
+      IF v_progress * 100 < p_task.scoring_threshold THEN
+        RETURN 0;
+      END IF;
+      RETURN LEAST(v_progress, 1) * p_task.points;
+    WHEN 'diminishing' THEN
+      RETURN (1 - power(1 - LEAST(v_progress, 1), 2)) * p_task.points;
+    WHEN 'overtime_bonus' THEN
+      RETURN LEAST(v_progress, 1 + p_task.overtime_cap / 100) * p_task.points;
+    ELSE
+      RETURN LEAST(v_progress, 1) * p_task.points;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
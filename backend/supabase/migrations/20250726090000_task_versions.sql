@@ -0,0 +1,250 @@
+/*
+  # Task versions
+
+  1. New Tables
+    - `task_versions` - What a task looked like from a date onwards. A version
+      is written whenever a task is created, edited or deleted, effective from
+      the owner's local today; edits on the same day replace that day's version.
+
+  2. Changes
+    - `daily_scores.task_breakdown` snapshots each due task as it was scored
+      that day: its target, points and policy, what was logged and what it earned
+
+  3. Functions
+    - `get_task_as_of` returns a task as it was defined on a date
+    - `get_due_tasks` uses each task's definition for the date asked about, so
+      editing or deleting a task no longer changes past days
+    - `log_task_completion` scores a backfilled completion against the task as
+      it was on that date
+    - `calculate_daily_score` also writes the breakdown
+
+  4. Notes
+    - Existing tasks get a first version covering all earlier dates
+    - Existing score rows have no breakdown until they are recalculated
+*/
+
+CREATE TABLE IF NOT EXISTS task_versions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  task_id uuid REFERENCES tasks(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  effective_from date NOT NULL,
+  name text NOT NULL,
+  points integer NOT NULL,
+  is_active boolean NOT NULL,
+  task_type text NOT NULL,
+  duration_hours decimal(4,2),
+  target_count decimal(8,2),
+  unit text,
+  scoring_policy text NOT NULL,
+  scoring_threshold decimal(5,2),
+  overtime_cap decimal(5,2),
+  recurrence_type text NOT NULL,
+  recurrence_weekdays smallint[],
+  recurrence_interval integer,
+  recurrence_times_per_week integer,
+  recurrence_dates date[],
+  starts_on date NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(task_id, effective_from)
+);
+
+ALTER TABLE task_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own task versions" ON task_versions FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+ALTER TABLE daily_scores
+  ADD COLUMN IF NOT EXISTS task_breakdown jsonb;
+
+-- Existing tasks keep their current definition for every earlier date
+INSERT INTO task_versions (
+  task_id, user_id, effective_from, name, points, is_active, task_type,
+  duration_hours, target_count, unit, scoring_policy, scoring_threshold,
+  overtime_cap, recurrence_type, recurrence_weekdays, recurrence_interval,
+  recurrence_times_per_week, recurrence_dates, starts_on
+)
+SELECT
+  id, user_id, '-infinity', name, points, COALESCE(is_active, true), task_type,
+  duration_hours, target_count, unit, scoring_policy, scoring_threshold,
+  overtime_cap, recurrence_type, recurrence_weekdays, recurrence_interval,
+  recurrence_times_per_week, recurrence_dates, starts_on
+FROM tasks
+ON CONFLICT (task_id, effective_from) DO NOTHING;
+
+-- Trigger function to record a task's definition from the owner's local
+-- today. A new task's first version also covers earlier dates, so days
+-- backfilled before it was created see it as it was first defined.
+CREATE OR REPLACE FUNCTION record_task_version()
+RETURNS trigger AS $$
+DECLARE
+  v_effective_from date;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_effective_from := '-infinity';
+  ELSE
+    SELECT (now() AT TIME ZONE timezone)::date INTO v_effective_from
+    FROM profiles WHERE id = NEW.user_id;
+  END IF;
+
+  INSERT INTO task_versions (
+    task_id, user_id, effective_from, name, points, is_active, task_type,
+    duration_hours, target_count, unit, scoring_policy, scoring_threshold,
+    overtime_cap, recurrence_type, recurrence_weekdays, recurrence_interval,
+    recurrence_times_per_week, recurrence_dates, starts_on
+  )
+  VALUES (
+    NEW.id, NEW.user_id, v_effective_from, NEW.name, NEW.points, COALESCE(NEW.is_active, true), NEW.task_type,
+    NEW.duration_hours, NEW.target_count, NEW.unit, NEW.scoring_policy, NEW.scoring_threshold,
+    NEW.overtime_cap, NEW.recurrence_type, NEW.recurrence_weekdays, NEW.recurrence_interval,
+    NEW.recurrence_times_per_week, NEW.recurrence_dates, NEW.starts_on
+  )
+  ON CONFLICT (task_id, effective_from)
+  DO UPDATE SET
+    name = EXCLUDED.name,
+    points = EXCLUDED.points,
+    is_active = EXCLUDED.is_active,
+    task_type = EXCLUDED.task_type,
+    duration_hours = EXCLUDED.duration_hours,
+    target_count = EXCLUDED.target_count,
+    unit = EXCLUDED.unit,
+    scoring_policy = EXCLUDED.scoring_policy,
+    scoring_threshold = EXCLUDED.scoring_threshold,
+    overtime_cap = EXCLUDED.overtime_cap,
+    recurrence_type = EXCLUDED.recurrence_type,
+    recurrence_weekdays = EXCLUDED.recurrence_weekdays,
+    recurrence_interval = EXCLUDED.recurrence_interval,
+    recurrence_times_per_week = EXCLUDED.recurrence_times_per_week,
+    recurrence_dates = EXCLUDED.recurrence_dates,
+    starts_on = EXCLUDED.starts_on;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS record_new_task_version ON tasks;
+CREATE TRIGGER record_new_task_version
+  AFTER INSERT ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION record_task_version();
+
+DROP TRIGGER IF EXISTS record_edited_task_version ON tasks;
+CREATE TRIGGER record_edited_task_version
+  AFTER UPDATE ON tasks
+  FOR EACH ROW
+  -- Touching only updated_at isn't a new definition
+  WHEN (to_jsonb(OLD) - 'updated_at' IS DISTINCT FROM to_jsonb(NEW) - 'updated_at')
+  EXECUTE FUNCTION record_task_version();
+
+-- Function to get a task as it was defined on a date
+CREATE OR REPLACE FUNCTION get_task_as_of(p_task tasks, p_date date)
+RETURNS tasks AS $$
+  SELECT COALESCE(
+    (
+      SELECT jsonb_populate_record(
+        p_task,
+        to_jsonb(v) - 'id' - 'task_id' - 'effective_from' - 'created_at'
+      )
+      FROM task_versions v
+      WHERE v.task_id = p_task.id
+      AND v.effective_from <= p_date
+      ORDER BY v.effective_from DESC
+      LIMIT 1
+    ),
+    p_task
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Function to list a user's tasks that are due on a date, as they were
+-- defined on that date
+CREATE OR REPLACE FUNCTION get_due_tasks(p_user_id uuid, p_date date)
+RETURNS SETOF tasks AS $$
+  SELECT v.* FROM tasks t
+  CROSS JOIN LATERAL get_task_as_of(t, p_date) v
+  WHERE t.user_id = p_user_id
+  AND v.is_active = true
+  AND is_task_due(v, p_date)
+  ORDER BY t.created_at DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Function to store a completion with the points it earns
+CREATE OR REPLACE FUNCTION log_task_completion(p_user_id uuid, p_task_id uuid, p_date date, p_value decimal)
+RETURNS task_completions AS $$
+DECLARE
+  v_task tasks;
+  v_completion task_completions;
+BEGIN
+  SELECT (get_task_as_of(t, p_date)).* INTO v_task
+  FROM tasks t WHERE t.id = p_task_id AND t.user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  INSERT INTO task_completions (user_id, task_id, completion_date, value, actual_duration_hours, earned_points)
+  VALUES (
+    p_user_id,
+    p_task_id,
+    p_date,
+    p_value,
+    CASE WHEN v_task.task_type = 'duration' THEN p_value ELSE 0 END,
+    score_task_completion(v_task, p_value)
+  )
+  ON CONFLICT (user_id, task_id, completion_date)
+  DO UPDATE SET
+    value = EXCLUDED.value,
+    actual_duration_hours = EXCLUDED.actual_duration_hours,
+    earned_points = EXCLUDED.earned_points
+  RETURNING * INTO v_completion;
+
+  RETURN v_completion;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to calculate daily score (only tasks due that day count)
+CREATE OR REPLACE FUNCTION calculate_daily_score(p_user_id uuid, p_date date)
+RETURNS void AS $$
+DECLARE
+  v_total_possible integer;
+  v_earned_points decimal(6,2);
+  v_percentage decimal(5,2);
+  v_breakdown jsonb;
+BEGIN
+  -- Total possible and earned points, plus a snapshot of every due task.
+  -- Broken habits can cancel out other tasks but never take the day below 0.
+  SELECT
+    COALESCE(SUM(t.points), 0),
+    GREATEST(COALESCE(SUM(score_task_completion(t, tc.value)), 0), 0),
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'task_id', t.id,
+      'name', t.name,
+      'task_type', t.task_type,
+      'duration_hours', t.duration_hours,
+      'target_count', t.target_count,
+      'unit', t.unit,
+      'points', t.points,
+      'scoring_policy', t.scoring_policy,
+      'value', COALESCE(tc.value, 0),
+      'earned_points', round(score_task_completion(t, tc.value), 2)
+    ) ORDER BY t.created_at), '[]')
+  INTO v_total_possible, v_earned_points, v_breakdown
+  FROM get_due_tasks(p_user_id, p_date) t
+  LEFT JOIN task_completions tc
+    ON tc.task_id = t.id AND tc.user_id = p_user_id AND tc.completion_date = p_date;
+
+  -- Calculate percentage
+  v_percentage := CASE
+    WHEN v_total_possible > 0 THEN (v_earned_points / v_total_possible) * 100
+    ELSE 0
+  END;
+
+  -- Insert or update daily score
+  INSERT INTO daily_scores (user_id, score_date, total_possible_points, earned_points, percentage_score, task_breakdown)
+  VALUES (p_user_id, p_date, v_total_possible, v_earned_points, v_percentage, v_breakdown)
+  ON CONFLICT (user_id, score_date)
+  DO UPDATE SET
+    total_possible_points = EXCLUDED.total_possible_points,
+    earned_points = EXCLUDED.earned_points,
+    percentage_score = EXCLUDED.percentage_score,
+    task_breakdown = EXCLUDED.task_breakdown,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
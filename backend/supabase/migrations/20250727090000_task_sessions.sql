@@ -0,0 +1,104 @@
+/*
+  # Task sessions
+
+  1. New Tables
+    - `task_sessions` - Timed work on a duration task. A session is running
+      until `ended_at` is set, so it survives a reload or a second device.
+      - `mode` is `timer` (all elapsed time counts) or `pomodoro` (alternating
+        `work_minutes` and `break_minutes`; only the work intervals count)
+
+  2. Functions
+    - `get_session_work_seconds` is the worked time from a session's start up
+      to an instant
+    - `split_task_session` divides a stopped session's worked time between the
+      owner's local days, so a session that crosses midnight counts towards
+      both days
+*/
+
+CREATE TABLE IF NOT EXISTS task_sessions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  task_id uuid REFERENCES tasks(id) ON DELETE CASCADE NOT NULL,
+  mode text NOT NULL DEFAULT 'timer' CHECK (mode IN ('timer', 'pomodoro')),
+  work_minutes integer CHECK (work_minutes > 0),
+  break_minutes integer CHECK (break_minutes > 0),
+  started_at timestamptz NOT NULL DEFAULT now(),
+  ended_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CHECK (mode <> 'pomodoro' OR (work_minutes IS NOT NULL AND break_minutes IS NOT NULL)),
+  CHECK (ended_at IS NULL OR ended_at >= started_at)
+);
+
+-- A task has at most one running session
+CREATE UNIQUE INDEX IF NOT EXISTS task_sessions_running_idx ON task_sessions(task_id) WHERE ended_at IS NULL;
+CREATE INDEX IF NOT EXISTS task_sessions_user_id_idx ON task_sessions(user_id, started_at);
+
+ALTER TABLE task_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own task sessions" ON task_sessions FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+-- Function to work out the seconds worked from a session's start up to an
+-- instant. Pomodoro sessions repeat work then break, starting with work.
+CREATE OR REPLACE FUNCTION get_session_work_seconds(p_session task_sessions, p_at timestamptz)
+RETURNS decimal AS $$
+DECLARE
+  v_elapsed decimal;
+  v_cycle decimal;
+BEGIN
+  v_elapsed := GREATEST(EXTRACT(EPOCH FROM p_at - p_session.started_at), 0);
+
+  IF p_session.mode <> 'pomodoro' THEN
+    RETURN v_elapsed;
+  END IF;
+
+  v_cycle := (p_session.work_minutes + p_session.break_minutes) * 60;
+
+  RETURN floor(v_elapsed / v_cycle) * p_session.work_minutes * 60
+    + LEAST(mod(v_elapsed, v_cycle), p_session.work_minutes * 60);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Function to split a stopped session's worked hours between the owner's
+-- local days
+CREATE OR REPLACE FUNCTION split_task_session(p_session_id uuid)
+RETURNS TABLE (session_date date, hours decimal) AS $$
+DECLARE
+  v_session task_sessions;
+  v_timezone text;
+  v_day date;
+  v_from timestamptz;
+  v_to timestamptz;
+BEGIN
+  SELECT * INTO v_session FROM task_sessions WHERE id = p_session_id AND ended_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT timezone INTO v_timezone FROM profiles WHERE id = v_session.user_id;
+
+  FOR v_day IN
+    SELECT generate_series(
+      (v_session.started_at AT TIME ZONE v_timezone)::date,
+      (v_session.ended_at AT TIME ZONE v_timezone)::date,
+      interval '1 day'
+    )::date
+  LOOP
+    -- The part of the session inside this local day
+    v_from := GREATEST(v_session.started_at, v_day::timestamp AT TIME ZONE v_timezone);
+    v_to := LEAST(v_session.ended_at, (v_day + 1)::timestamp AT TIME ZONE v_timezone);
+
+    session_date := v_day;
+    hours := round(
+      (get_session_work_seconds(v_session, v_to) - get_session_work_seconds(v_session, v_from)) / 3600,
+      2
+    );
+
+    IF hours > 0 THEN
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION split_task_session(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,16 @@
+/*
+  # Streak threshold
+
+  1. Changes
+    - `profiles.streak_threshold` is the daily percentage that keeps a user's
+      overall streak going (80% unless they choose otherwise)
+
+  2. Notes
+    - Streaks and streak freezes are worked out by the backend from
+      `daily_scores`, including the per-task `task_breakdown`, so nothing else
+      needs storing
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS streak_threshold integer NOT NULL DEFAULT 80
+    CHECK (streak_threshold BETWEEN 1 AND 100);
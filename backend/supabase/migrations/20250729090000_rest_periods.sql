@@ -0,0 +1,104 @@
+/*
+  # Rest days
+
+  1. New Tables
+    - `rest_periods` - Date ranges (a single rest day or a whole vacation) when
+      a user is excused from their tasks
+
+  2. Changes
+    - `daily_scores.is_excused` marks days inside a rest period. They are still
+      scored, but left out of averages, streaks and the dashboard.
+    - `challenges.max_excused_days` caps how many excused days each participant
+      can leave out of a challenge; any after that count like normal days
+
+  3. Functions
+    - `is_day_excused` checks whether a date falls inside one of a user's rest periods
+    - `calculate_daily_score` also records whether the day is excused
+*/
+
+CREATE TABLE IF NOT EXISTS rest_periods (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  reason text,
+  created_at timestamptz DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS rest_periods_user_id_idx ON rest_periods(user_id, start_date);
+
+ALTER TABLE rest_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own rest periods" ON rest_periods FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+ALTER TABLE daily_scores
+  ADD COLUMN IF NOT EXISTS is_excused boolean NOT NULL DEFAULT false;
+
+ALTER TABLE challenges
+  ADD COLUMN IF NOT EXISTS max_excused_days integer NOT NULL DEFAULT 2
+    CHECK (max_excused_days >= 0);
+
+-- Function to check whether a date falls inside one of a user's rest periods
+CREATE OR REPLACE FUNCTION is_day_excused(p_user_id uuid, p_date date)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM rest_periods
+    WHERE user_id = p_user_id
+    AND p_date BETWEEN start_date AND end_date
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Function to calculate daily score (only tasks due that day count)
+CREATE OR REPLACE FUNCTION calculate_daily_score(p_user_id uuid, p_date date)
+RETURNS void AS $$
+DECLARE
+  v_total_possible integer;
+  v_earned_points decimal(6,2);
+  v_percentage decimal(5,2);
+  v_breakdown jsonb;
+  v_excused boolean;
+BEGIN
+  -- Total possible and earned points, plus a snapshot of every due task.
+  -- Broken habits can cancel out other tasks but never take the day below 0.
+  SELECT
+    COALESCE(SUM(t.points), 0),
+    GREATEST(COALESCE(SUM(score_task_completion(t, tc.value)), 0), 0),
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'task_id', t.id,
+      'name', t.name,
+      'task_type', t.task_type,
+      'duration_hours', t.duration_hours,
+      'target_count', t.target_count,
+      'unit', t.unit,
+      'points', t.points,
+      'scoring_policy', t.scoring_policy,
+      'value', COALESCE(tc.value, 0),
+      'earned_points', round(score_task_completion(t, tc.value), 2)
+    ) ORDER BY t.created_at), '[]')
+  INTO v_total_possible, v_earned_points, v_breakdown
+  FROM get_due_tasks(p_user_id, p_date) t
+  LEFT JOIN task_completions tc
+    ON tc.task_id = t.id AND tc.user_id = p_user_id AND tc.completion_date = p_date;
+
+  -- Calculate percentage
+  v_percentage := CASE
+    WHEN v_total_possible > 0 THEN (v_earned_points / v_total_possible) * 100
+    ELSE 0
+  END;
+
+  v_excused := is_day_excused(p_user_id, p_date);
+
+  -- Insert or update daily score
+  INSERT INTO daily_scores (user_id, score_date, total_possible_points, earned_points, percentage_score, task_breakdown, is_excused)
+  VALUES (p_user_id, p_date, v_total_possible, v_earned_points, v_percentage, v_breakdown, v_excused)
+  ON CONFLICT (user_id, score_date)
+  DO UPDATE SET
+    total_possible_points = EXCLUDED.total_possible_points,
+    earned_points = EXCLUDED.earned_points,
+    percentage_score = EXCLUDED.percentage_score,
+    task_breakdown = EXCLUDED.task_breakdown,
+    is_excused = EXCLUDED.is_excused,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,23 @@
+/*
+  # Achievements
+
+  1. New Tables
+    - `user_achievements` - Badges a user has unlocked and when. Which
+      badges exist and what unlocks them is defined by the backend's
+      achievement rules; this only records the result.
+*/
+
+CREATE TABLE IF NOT EXISTS user_achievements (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  achievement_key text NOT NULL,
+  unlocked_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE(user_id, achievement_key)
+);
+
+CREATE INDEX IF NOT EXISTS user_achievements_user_id_idx ON user_achievements(user_id, unlocked_at);
+
+ALTER TABLE user_achievements ENABLE ROW LEVEL SECURITY;
+
+-- Badges are shown on user cards, like ratings
+CREATE POLICY "Users can view achievements" ON user_achievements FOR SELECT TO authenticated USING (true);
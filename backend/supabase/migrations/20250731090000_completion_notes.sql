@@ -0,0 +1,10 @@
+/*
+  # Completion notes
+
+  1. Changes
+    - `task_completions.notes` - An optional note on what was done that day,
+      shown in the calendar's day detail.
+*/
+
+ALTER TABLE task_completions ADD COLUMN IF NOT EXISTS notes text
+  CHECK (notes IS NULL OR char_length(notes) <= 1000);
@@ -0,0 +1,32 @@
+/*
+  # Friendships
+
+  1. New Tables
+    - `friendships` - A friend request from `requester_id` to `addressee_id`,
+      `pending` until the addressee accepts it. Declining or removing a
+      friend deletes the row, so either side can ask again later.
+
+  2. Notes
+    - One row per pair of users whichever way round the request was sent,
+      enforced by a unique index on the ordered pair
+*/
+
+CREATE TABLE IF NOT EXISTS friendships (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  requester_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  addressee_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted')),
+  created_at timestamptz DEFAULT now(),
+  accepted_at timestamptz,
+  CHECK (requester_id <> addressee_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS friendships_pair_idx
+  ON friendships (LEAST(requester_id, addressee_id), GREATEST(requester_id, addressee_id));
+
+CREATE INDEX IF NOT EXISTS friendships_addressee_id_idx ON friendships(addressee_id);
+
+ALTER TABLE friendships ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own friendships" ON friendships FOR SELECT TO authenticated
+  USING (auth.uid() = requester_id OR auth.uid() = addressee_id);
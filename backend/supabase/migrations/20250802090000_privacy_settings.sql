@@ -0,0 +1,112 @@
+/*
+  # Privacy settings and blocking
+
+  1. Changes
+    - `profiles.discoverable` - Whether the profile shows up in user search and
+      the global leaderboard. Friends can always find each other.
+    - `profiles.stats_visibility` - Who can see the rating, wins, losses,
+      rating history and badges: `everyone`, `friends` or `nobody`
+    - `profiles.challenge_privacy` - Who can invite the user to a challenge:
+      `everyone`, `friends` or `nobody`
+
+  2. New Tables
+    - `user_blocks` - `blocker_id` blocked `blocked_id`. A block works both
+      ways: neither user can see the other's stats, find them, befriend them
+      or challenge them.
+
+  3. Notes
+    - Profile rows themselves stay visible to everyone not blocked, since
+      challenges and friend lists show names. Stats are hidden by the
+      `rating_history` and `user_achievements` policies and by the API, which
+      blanks the stat columns on profiles it isn't allowed to show.
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS discoverable boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS stats_visibility text NOT NULL DEFAULT 'everyone'
+    CHECK (stats_visibility IN ('everyone', 'friends', 'nobody')),
+  ADD COLUMN IF NOT EXISTS challenge_privacy text NOT NULL DEFAULT 'everyone'
+    CHECK (challenge_privacy IN ('everyone', 'friends', 'nobody'));
+
+CREATE TABLE IF NOT EXISTS user_blocks (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  blocker_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  blocked_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS user_blocks_blocked_id_idx ON user_blocks(blocked_id);
+
+ALTER TABLE user_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own blocks" ON user_blocks FOR SELECT TO authenticated
+  USING (auth.uid() = blocker_id);
+
+-- Function to check whether either user has blocked the other
+CREATE OR REPLACE FUNCTION is_blocked(p_user_id uuid, p_other_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_blocks
+    WHERE (blocker_id = p_user_id AND blocked_id = p_other_id)
+    OR (blocker_id = p_other_id AND blocked_id = p_user_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function to check whether two users are friends
+CREATE OR REPLACE FUNCTION are_friends(p_user_id uuid, p_other_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM friendships
+    WHERE status = 'accepted'
+    AND LEAST(requester_id, addressee_id) = LEAST(p_user_id, p_other_id)
+    AND GREATEST(requester_id, addressee_id) = GREATEST(p_user_id, p_other_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function to check a privacy level ('everyone', 'friends' or 'nobody')
+-- against the user it applies to
+CREATE OR REPLACE FUNCTION privacy_allows(p_level text, p_viewer_id uuid, p_owner_id uuid)
+RETURNS boolean AS $$
+  SELECT p_viewer_id = p_owner_id
+  OR (
+    NOT is_blocked(p_viewer_id, p_owner_id)
+    AND (p_level = 'everyone' OR (p_level = 'friends' AND are_friends(p_viewer_id, p_owner_id)))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION can_view_stats(p_viewer_id uuid, p_owner_id uuid)
+RETURNS boolean AS $$
+  SELECT privacy_allows(stats_visibility, p_viewer_id, p_owner_id)
+  FROM profiles WHERE id = p_owner_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION can_challenge(p_creator_id uuid, p_invitee_id uuid)
+RETURNS boolean AS $$
+  SELECT privacy_allows(challenge_privacy, p_creator_id, p_invitee_id)
+  FROM profiles WHERE id = p_invitee_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Profiles policies
+DROP POLICY IF EXISTS "Users can view all profiles" ON profiles;
+CREATE POLICY "Users can view unblocked profiles" ON profiles FOR SELECT TO authenticated
+USING (auth.uid() = id OR NOT is_blocked(auth.uid(), id));
+
+-- Rating history policies
+DROP POLICY IF EXISTS "Users can view rating history" ON rating_history;
+CREATE POLICY "Users can view rating history" ON rating_history FOR SELECT TO authenticated
+USING (can_view_stats(auth.uid(), user_id));
+
+-- Achievements policies
+DROP POLICY IF EXISTS "Users can view achievements" ON user_achievements;
+CREATE POLICY "Users can view achievements" ON user_achievements FOR SELECT TO authenticated
+USING (can_view_stats(auth.uid(), user_id));
+
+-- Challenge participants policies
+DROP POLICY IF EXISTS "Creators can invite participants" ON challenge_participants;
+CREATE POLICY "Creators can invite participants" ON challenge_participants FOR INSERT TO authenticated
+WITH CHECK (
+  EXISTS (SELECT 1 FROM challenges WHERE id = challenge_id AND creator_id = auth.uid())
+  AND can_challenge(auth.uid(), user_id)
+);
@@ -0,0 +1,23 @@
+/*
+  # Editable profiles
+
+  1. Changes
+    - `profiles.bio` - A short description shown on user cards, up to 280
+      characters
+    - `profiles.username_changed_at` - When the username was last changed.
+      Changes are rate limited, so names can't be swapped around to
+      impersonate someone; the limit is enforced in the database by
+      20250807090000_username_cooldown.sql.
+
+  2. New Storage
+    - `avatars` bucket - Public bucket for avatar images when the API uses
+      the `supabase` storage driver. Only the API (service role) writes to it.
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS bio text CHECK (char_length(bio) <= 280),
+  ADD COLUMN IF NOT EXISTS username_changed_at timestamptz;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('avatars', 'avatars', true)
+ON CONFLICT (id) DO NOTHING;
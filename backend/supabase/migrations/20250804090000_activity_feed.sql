@@ -0,0 +1,51 @@
+/*
+  # Activity feed
+
+  1. Changes
+    - `profiles.activity_opt_out` - Event types the user doesn't share with
+      friends. Their own feed still shows them.
+
+  2. New Tables
+    - `activity_events` - Things worth telling friends about: a perfect day,
+      a streak milestone, a challenge starting or being won, a new personal
+      record on a task. `event_key` identifies the occurrence (a date, a
+      challenge, a milestone) so recording the same one twice is a no-op.
+
+  3. Notes
+    - Events are written by the API with the service role only.
+    - Friends see each other's events unless the type is opted out or the
+      owner's stats are hidden from them. Opting out also hides events
+      recorded before the change.
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS activity_opt_out text[] NOT NULL DEFAULT '{}'
+    CHECK (activity_opt_out <@ ARRAY['perfect_day', 'streak_milestone', 'challenge_started', 'challenge_won', 'personal_record']);
+
+CREATE TABLE IF NOT EXISTS activity_events (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  event_type text NOT NULL
+    CHECK (event_type IN ('perfect_day', 'streak_milestone', 'challenge_started', 'challenge_won', 'personal_record')),
+  event_key text NOT NULL,
+  data jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, event_type, event_key)
+);
+
+CREATE INDEX IF NOT EXISTS activity_events_user_created_idx ON activity_events(user_id, created_at DESC);
+
+ALTER TABLE activity_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own and friends' activity" ON activity_events FOR SELECT TO authenticated
+USING (
+  auth.uid() = user_id
+  OR (
+    are_friends(auth.uid(), user_id)
+    AND can_view_stats(auth.uid(), user_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = activity_events.user_id AND activity_events.event_type = ANY(activity_opt_out)
+    )
+  )
+);
@@ -0,0 +1,32 @@
+/*
+  # Admin users
+
+  1. New Tables
+    - `admin_users` - Users who can trigger jobs and complete challenges by
+      hand. Replaces `profiles.is_admin`, which any user could set on their
+      own row through the profile update policy.
+
+  2. Changes
+    - `profiles.is_admin` is dropped
+
+  3. Notes
+    - RLS is on with no policies, so only the service role reads or writes
+      `admin_users`. Add an admin with
+      `INSERT INTO admin_users (user_id) VALUES ('<profile id>')`.
+    - Existing admins are carried over. Anyone could have set the old flag,
+      so check the list after migrating.
+*/
+
+CREATE TABLE IF NOT EXISTS admin_users (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE admin_users ENABLE ROW LEVEL SECURITY;
+-- No policies: only the service role touches admin_users
+
+INSERT INTO admin_users (user_id)
+SELECT id FROM profiles WHERE is_admin
+ON CONFLICT (user_id) DO NOTHING;
+
+ALTER TABLE profiles DROP COLUMN IF EXISTS is_admin;
@@ -0,0 +1,50 @@
+/*
+  # Protect profile stats
+
+  1. Changes
+    - `profiles.rating`, `rated_games`, `total_wins` and `total_losses` can no
+      longer be written by users themselves. The profile update policy lets a
+      user change any column of their own row, so the leaderboard could be
+      faked with a direct update.
+
+  2. Notes
+    - The trigger checks the role the statement runs as. Users signed in
+      through the anon key run as `authenticated`; the API's service role and
+      SECURITY DEFINER functions such as `apply_rating_changes` and
+      `increment_wins` run as other roles and pass.
+    - A profile a user inserts themselves starts from the default stats.
+*/
+
+CREATE OR REPLACE FUNCTION protect_profile_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.rating := 1200;
+    NEW.rated_games := 0;
+    NEW.total_wins := 0;
+    NEW.total_losses := 0;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.rating IS DISTINCT FROM OLD.rating
+    OR NEW.rated_games IS DISTINCT FROM OLD.rated_games
+    OR NEW.total_wins IS DISTINCT FROM OLD.total_wins
+    OR NEW.total_losses IS DISTINCT FROM OLD.total_losses
+  THEN
+    RAISE EXCEPTION 'Ratings and challenge records only change when a challenge completes'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_profile_stats ON profiles;
+CREATE TRIGGER protect_profile_stats
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_stats();
@@ -0,0 +1,41 @@
+/*
+  # Username cooldown
+
+  1. Changes
+    - Usernames can only be changed once every 30 days, enforced by a trigger
+      instead of only by the API. The profile update policy lets users write
+      their own row directly, so the API check alone could be skipped.
+    - `profiles.username_changed_at` is set by the trigger whenever the
+      username changes, and can't be written otherwise.
+
+  2. Notes
+    - The trigger applies to every role, the API included. The API checks
+      the cooldown first so it can say when the next change is allowed; keep
+      the 30 days in sync with `USERNAME_CHANGE_COOLDOWN_DAYS` in
+      `server/utils/profiles.js`.
+*/
+
+CREATE OR REPLACE FUNCTION enforce_username_cooldown()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.username IS NOT DISTINCT FROM OLD.username THEN
+    NEW.username_changed_at := OLD.username_changed_at;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.username_changed_at > now() - interval '30 days' THEN
+    RAISE EXCEPTION 'You can change your username again on %',
+      to_char(OLD.username_changed_at + interval '30 days', 'YYYY-MM-DD')
+      USING ERRCODE = '42501';
+  END IF;
+
+  NEW.username_changed_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_username_cooldown ON profiles;
+CREATE TRIGGER enforce_username_cooldown
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_username_cooldown();
@@ -0,0 +1,32 @@
+/*
+  # Challenge write policies
+
+  1. Changes
+    - Drops "Participants can respond to invitations", which let a participant
+      write their own `final_score` and `rank`
+    - Drops "Users can update own challenges", which let any participant write
+      the challenge's `status` and `winner_id`
+    - Challenges and participant rows users insert themselves can't carry a
+      result
+
+  2. Notes
+    - Responding, starting, cancelling and completing challenges all go through
+      the API with the service role, which also runs the lifecycle checks a
+      direct update would skip.
+*/
+
+DROP POLICY IF EXISTS "Participants can respond to invitations" ON challenge_participants;
+DROP POLICY IF EXISTS "Users can update own challenges" ON challenges;
+
+DROP POLICY IF EXISTS "Users can create challenges" ON challenges;
+CREATE POLICY "Users can create challenges" ON challenges FOR INSERT TO authenticated
+WITH CHECK (auth.uid() = creator_id AND status = 'pending' AND winner_id IS NULL);
+
+DROP POLICY IF EXISTS "Creators can invite participants" ON challenge_participants;
+CREATE POLICY "Creators can invite participants" ON challenge_participants FOR INSERT TO authenticated
+WITH CHECK (
+  EXISTS (SELECT 1 FROM challenges WHERE id = challenge_id AND creator_id = auth.uid())
+  AND can_challenge(auth.uid(), user_id)
+  AND final_score IS NULL
+  AND rank IS NULL
+);
@@ -0,0 +1,60 @@
+/*
+  # Challenge day scores
+
+  1. Functions
+    - `get_challenge_day_scores` scores every day of a challenge window for a
+      participant against their tasks as they were on the challenge's start
+      date. Every day gets a row; one with nothing due in that task set scores
+      0%.
+
+  2. Notes
+    - Challenges used to average the stored daily scores with tasks due, so a
+      participant could score 100% on day one and then delete or pause their
+      tasks, or switch them to a sparse recurrence, to drop the remaining days
+      out of the average. With the task set fixed at the start, changes made
+      during the challenge don't affect it: tasks created after the start date
+      are left out, and tasks deleted or edited after it still count as they
+      were.
+    - Completions are scored against the start-date definition too, so
+      lowering a target mid-challenge doesn't earn more points.
+*/
+
+CREATE OR REPLACE FUNCTION get_challenge_day_scores(p_user_id uuid, p_start date, p_end date)
+RETURNS TABLE (
+  score_date date,
+  total_possible_points integer,
+  earned_points decimal,
+  percentage_score decimal,
+  is_excused boolean
+) AS $$
+  SELECT
+    d.day,
+    COALESCE(s.total_possible, 0)::integer,
+    COALESCE(s.earned, 0),
+    CASE
+      WHEN COALESCE(s.total_possible, 0) > 0 THEN round(s.earned / s.total_possible * 100, 2)
+      ELSE 0
+    END,
+    is_day_excused(p_user_id, d.day)
+  FROM generate_series(p_start, p_end, interval '1 day') AS g(day)
+  CROSS JOIN LATERAL (SELECT g.day::date AS day) d
+  LEFT JOIN LATERAL (
+    -- Broken habits can cancel out other tasks but never take a day below 0,
+    -- like calculate_daily_score
+    SELECT
+      SUM(v.points) AS total_possible,
+      GREATEST(COALESCE(SUM(score_task_completion(v, tc.value)), 0), 0) AS earned
+    FROM tasks t
+    JOIN profiles p ON p.id = t.user_id
+    CROSS JOIN LATERAL get_task_as_of(t, p_start) v
+    LEFT JOIN task_completions tc
+      ON tc.task_id = t.id AND tc.user_id = p_user_id AND tc.completion_date = d.day
+    WHERE t.user_id = p_user_id
+    AND (t.created_at AT TIME ZONE p.timezone)::date <= p_start
+    AND v.is_active = true
+    AND is_task_due(v, d.day)
+  ) s ON true
+  ORDER BY d.day;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION get_challenge_day_scores(uuid, date, date) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,77 @@
+/*
+  # Complete challenges in one transaction
+
+  1. Changes
+    - Adds `challenges.followups_done_at`, set once the badges and feed entries
+      for a completed challenge have been handed out
+
+  2. Functions
+    - `complete_challenge` moves an active challenge to completed and records
+      its result: each participant's final score and rank, wins and losses,
+      and rating changes
+
+  3. Notes
+    - The completion job used to mark a challenge completed first and write
+      the result in separate steps afterwards. A failure part way left the
+      challenge completed without its ranks, records or ratings, and later
+      runs skipped it because it was no longer active. Now the result is
+      stored with the status change or not at all.
+    - Achievements and activity are safe to repeat, so the job retries them for
+      any completed challenge whose `followups_done_at` is still empty.
+    - Challenges completed before this migration are marked as done.
+*/
+
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS followups_done_at timestamptz;
+
+UPDATE challenges SET followups_done_at = updated_at
+WHERE status = 'completed' AND followups_done_at IS NULL;
+
+-- p_standings is a JSON array of { user_id, score, rank }; p_rating_changes is
+-- the array apply_rating_changes takes. Returns false if the challenge was no
+-- longer active, in which case nothing is written.
+CREATE OR REPLACE FUNCTION complete_challenge(
+  p_challenge_id uuid,
+  p_winner_id uuid,
+  p_standings jsonb,
+  p_rating_changes jsonb
+)
+RETURNS boolean AS $$
+DECLARE
+  v_standing jsonb;
+  v_user_id uuid;
+BEGIN
+  UPDATE challenges
+  SET status = 'completed', winner_id = p_winner_id, updated_at = now()
+  WHERE id = p_challenge_id AND status = 'active';
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  FOR v_standing IN SELECT * FROM jsonb_array_elements(p_standings)
+  LOOP
+    v_user_id := (v_standing->>'user_id')::uuid;
+
+    UPDATE challenge_participants
+    SET
+      final_score = (v_standing->>'score')::decimal,
+      rank = (v_standing->>'rank')::integer
+    WHERE challenge_id = p_challenge_id AND user_id = v_user_id;
+
+    -- A shared first place is a tie for everyone
+    IF p_winner_id IS NOT NULL THEN
+      IF v_user_id = p_winner_id THEN
+        PERFORM increment_wins(v_user_id);
+      ELSE
+        PERFORM increment_losses(v_user_id);
+      END IF;
+    END IF;
+  END LOOP;
+
+  PERFORM apply_rating_changes(p_challenge_id, p_rating_changes);
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION complete_challenge(uuid, uuid, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,64 @@
+/*
+  # Public profiles
+
+  1. Changes
+    - Users can only read their own row of `profiles`
+    - Everyone else's profile is read through the `public_profiles` view: the
+      name, avatar, bio and join date of every user not blocked either way,
+      with `rating`, `rated_games`, `total_wins` and `total_losses` only when
+      `can_view_stats` allows them and null otherwise
+
+  2. Functions
+    - `has_opted_out_of_activity` checks a user's `activity_opt_out` for the
+      activity policy, which can no longer read other users' profiles
+
+  3. Notes
+    - The profiles policy let anyone not blocked read every column of every
+      profile, so stats hidden by `stats_visibility` and private settings such
+      as the timezone were still readable with the anon key.
+    - The view is a security barrier owned by the migration role, so it reads
+      past the own-row policy but filters before any condition a user adds.
+      It is select-only.
+*/
+
+DROP POLICY IF EXISTS "Users can view unblocked profiles" ON profiles;
+CREATE POLICY "Users can view own profile" ON profiles FOR SELECT TO authenticated
+USING (auth.uid() = id);
+
+CREATE OR REPLACE VIEW public_profiles WITH (security_barrier) AS
+SELECT
+  id,
+  username,
+  display_name,
+  avatar_url,
+  bio,
+  created_at,
+  CASE WHEN can_view_stats(auth.uid(), id) THEN rating END AS rating,
+  CASE WHEN can_view_stats(auth.uid(), id) THEN rated_games END AS rated_games,
+  CASE WHEN can_view_stats(auth.uid(), id) THEN total_wins END AS total_wins,
+  CASE WHEN can_view_stats(auth.uid(), id) THEN total_losses END AS total_losses
+FROM profiles
+WHERE auth.uid() = id OR NOT is_blocked(auth.uid(), id);
+
+REVOKE ALL ON public_profiles FROM PUBLIC, anon, authenticated;
+GRANT SELECT ON public_profiles TO authenticated;
+
+-- Function to check whether a user keeps a kind of event out of their feed
+CREATE OR REPLACE FUNCTION has_opted_out_of_activity(p_user_id uuid, p_event_type text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = p_user_id AND p_event_type = ANY(activity_opt_out)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+DROP POLICY IF EXISTS "Users can view own and friends' activity" ON activity_events;
+CREATE POLICY "Users can view own and friends' activity" ON activity_events FOR SELECT TO authenticated
+USING (
+  auth.uid() = user_id
+  OR (
+    are_friends(auth.uid(), user_id)
+    AND can_view_stats(auth.uid(), user_id)
+    AND NOT has_opted_out_of_activity(user_id, event_type)
+  )
+);
@@ -0,0 +1,26 @@
+/*
+  # Most task hours
+
+  1. Functions
+    - `get_most_task_hours` adds up the hours a user has logged on each of
+      their tasks and returns the largest total, or 0
+
+  2. Notes
+    - The "100 hours on a task" achievement added these up in the API from
+      every completion the user had logged. PostgREST returns at most 1000 rows
+      per request, so long-time users were only credited for part of their
+      history.
+*/
+
+CREATE OR REPLACE FUNCTION get_most_task_hours(p_user_id uuid)
+RETURNS decimal AS $$
+  SELECT COALESCE(MAX(hours), 0)
+  FROM (
+    SELECT SUM(actual_duration_hours) AS hours
+    FROM task_completions
+    WHERE user_id = p_user_id AND actual_duration_hours > 0
+    GROUP BY task_id
+  ) totals;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION get_most_task_hours(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,85 @@
+/*
+  # Stop task sessions in one transaction
+
+  1. Changes
+    - `task_completions.actual_duration_hours` is widened to `decimal(8,2)`,
+      like `value`, which it mirrors for duration tasks. A long session added
+      to hours already logged could pass 99.99 and fail to log.
+
+  2. Functions
+    - `is_score_date_locked` checks whether a day counted toward a completed
+      challenge the user was in, so its completions can no longer change
+    - `stop_task_session` ends a running session and adds its worked hours to
+      the completion of each local day it covered, leaving out days before
+      the backfill window and locked days. Returns the days with whether each
+      was logged, or null when the session wasn't running.
+
+  3. Notes
+    - The API used to end the session first and log its hours afterwards, so
+      if logging failed the session was stopped and its time lost. Now either
+      both happen or the session keeps running.
+*/
+
+ALTER TABLE task_completions ALTER COLUMN actual_duration_hours TYPE decimal(8,2);
+
+-- Function to check whether a day counted toward a finished challenge, in
+-- which case it can no longer be edited
+CREATE OR REPLACE FUNCTION is_score_date_locked(p_user_id uuid, p_date date)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM challenge_participants cp
+    JOIN challenges c ON c.id = cp.challenge_id
+    WHERE cp.user_id = p_user_id
+    AND cp.status = 'accepted'
+    AND c.status = 'completed'
+    AND c.start_date <= p_date
+    AND c.end_date >= p_date
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function to stop a running session and log its worked hours. p_user_id must
+-- own the session.
+CREATE OR REPLACE FUNCTION stop_task_session(p_user_id uuid, p_session_id uuid, p_earliest_date date)
+RETURNS jsonb AS $$
+DECLARE
+  v_task_id uuid;
+  v_day record;
+  v_value decimal;
+  v_logged boolean;
+  v_days jsonb := '[]'::jsonb;
+BEGIN
+  UPDATE task_sessions SET ended_at = now()
+  WHERE id = p_session_id AND user_id = p_user_id AND ended_at IS NULL
+  RETURNING task_id INTO v_task_id;
+
+  -- Not running, e.g. because another device already stopped it
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_day IN SELECT * FROM split_task_session(p_session_id)
+  LOOP
+    v_logged := v_day.session_date >= p_earliest_date
+      AND NOT is_score_date_locked(p_user_id, v_day.session_date);
+
+    IF v_logged THEN
+      SELECT value INTO v_value FROM task_completions
+      WHERE user_id = p_user_id AND task_id = v_task_id AND completion_date = v_day.session_date;
+
+      PERFORM log_task_completion(p_user_id, v_task_id, v_day.session_date, COALESCE(v_value, 0) + v_day.hours);
+    END IF;
+
+    v_days := v_days || jsonb_build_object(
+      'session_date', v_day.session_date,
+      'hours', v_day.hours,
+      'logged', v_logged
+    );
+  END LOOP;
+
+  RETURN v_days;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION is_score_date_locked(uuid, date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION stop_task_session(uuid, uuid, date) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,16 @@
+/*
+  # Lock down score functions
+
+  1. Changes
+    - `fill_missed_daily_scores` and `calculate_daily_score` can no longer be
+      called by users, only by the API with the service role and by other
+      database functions
+
+  2. Notes
+    - Both are SECURITY DEFINER and take any user id, so a signed-in user could
+      write daily scores for someone else, and with a future date push their
+      `scores_filled_through` forward so real days were never filled.
+*/
+
+REVOKE EXECUTE ON FUNCTION fill_missed_daily_scores(uuid, date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION calculate_daily_score(uuid, date) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,28 @@
+/*
+  # Loggable tasks
+
+  1. Functions
+    - `get_loggable_tasks` returns the tasks a user can log progress on for a
+      date: every task due that day, plus every times-per-week task that has
+      started, whether or not it's due yet
+
+  2. Notes
+    - A times-per-week task only counts as due on days it was logged or when
+      every remaining day of the week is needed to reach the quota. The app
+      only offered to log due tasks, so a "3×/week" task couldn't be logged on
+      the days the user picked. Whether a task counts toward a day's score is
+      still decided by `get_due_tasks`; logging it makes it due.
+*/
+
+CREATE OR REPLACE FUNCTION get_loggable_tasks(p_user_id uuid, p_date date)
+RETURNS SETOF tasks AS $$
+  SELECT v.* FROM tasks t
+  CROSS JOIN LATERAL get_task_as_of(t, p_date) v
+  WHERE t.user_id = p_user_id
+  AND v.is_active = true
+  AND (
+    is_task_due(v, p_date)
+    OR (v.recurrence_type = 'times_per_week' AND p_date >= v.starts_on)
+  )
+  ORDER BY t.created_at DESC;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,24 @@
+/*
+  # Read-only completions and scores
+
+  1. Changes
+    - "Users can manage own completions" on `task_completions` and "Users can
+      manage own scores" on `daily_scores` are replaced by SELECT-only
+      policies
+
+  2. Notes
+    - Both let users insert, update and delete their own rows with the anon
+      key, so completions could be logged for any date and value, skipping
+      the backfill window and the lock on days a finished challenge counted,
+      and daily scores could be written outright. Logging progress and scoring
+      days go through the API and the SECURITY DEFINER functions, which
+      aren't affected.
+*/
+
+DROP POLICY IF EXISTS "Users can manage own completions" ON task_completions;
+CREATE POLICY "Users can view own completions" ON task_completions FOR SELECT TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can manage own scores" ON daily_scores;
+CREATE POLICY "Users can view own scores" ON daily_scores FOR SELECT TO authenticated
+USING (auth.uid() = user_id);
@@ -0,0 +1,60 @@
+/*
+  # Validate profile timezones
+
+  1. Changes
+    - `profiles.timezone` must be a name in `pg_timezone_names`. Existing
+      profiles with any other value are moved to UTC.
+    - `rollover_daily_scores` skips a profile that fails, with a warning,
+      instead of failing for every user
+
+  2. Notes
+    - Users can write their own timezone directly. One unknown zone made
+      `now() AT TIME ZONE` raise inside the rollover, which fills every
+      profile in one statement, so no one's missed days were filled.
+*/
+
+CREATE OR REPLACE FUNCTION validate_profile_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown timezone: %', NEW.timezone
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+UPDATE profiles SET timezone = 'UTC'
+WHERE timezone NOT IN (SELECT name FROM pg_timezone_names);
+
+DROP TRIGGER IF EXISTS validate_profile_timezone ON profiles;
+CREATE TRIGGER validate_profile_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_profile_timezone();
+
+-- Function to fill every user up to the end of their local yesterday
+CREATE OR REPLACE FUNCTION rollover_daily_scores()
+RETURNS integer AS $$
+DECLARE
+  v_profile record;
+  v_filled integer := 0;
+BEGIN
+  FOR v_profile IN SELECT id, timezone FROM profiles LOOP
+    -- One profile failing is only rolled back on its own
+    BEGIN
+      v_filled := v_filled + fill_missed_daily_scores(
+        v_profile.id,
+        (now() AT TIME ZONE v_profile.timezone)::date - 1
+      );
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Rollover for profile % failed: %', v_profile.id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN v_filled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION rollover_daily_scores() FROM PUBLIC, anon, authenticated;
@@ -6,8 +6,13 @@ import { AuthForm } from './components/AuthForm';
 import { Dashboard } from './pages/Dashboard';
 import { Tasks } from './pages/Tasks';
 import { Challenges } from './pages/Challenges';
+import { ChallengeDetail } from './pages/ChallengeDetail';
 import { Calendar } from './pages/Calendar';
+import { Analytics } from './pages/Analytics';
 import { Users } from './pages/Users';
+import { Settings } from './pages/Settings';
+import { ProfileSettings } from './pages/ProfileSettings';
+import { UserProfile } from './pages/UserProfile';
 import { ResetPassword } from './pages/ResetPassword.tsx';
 
 function AppContent() {
@@ -39,8 +44,13 @@ function AppContent() {
           <Route index element={<Dashboard />} />
           <Route path="tasks" element={<Tasks />} />
           <Route path="challenges" element={<Challenges />} />
+          <Route path="challenges/:id" element={<ChallengeDetail />} />
           <Route path="calendar" element={<Calendar />} />
+          <Route path="analytics" element={<Analytics />} />
           <Route path="users" element={<Users />} />
+          <Route path="u/:username" element={<UserProfile />} />
+          <Route path="settings" element={<Settings />} />
+          <Route path="settings/profile" element={<ProfileSettings />} />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Route>
       </Routes>
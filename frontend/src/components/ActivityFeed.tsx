@@ -0,0 +1,99 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { apiClient } from '../lib/api';
+import { ActivityEvent, describeActivity, getActivityIcon } from '../lib/activity';
+import { Avatar } from './Avatar';
+
+export function ActivityFeed() {
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  // Cursor for the next page; null once everything is loaded
+  const [nextBefore, setNextBefore] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  useEffect(() => {
+    apiClient.getActivityFeed()
+      .then((response) => {
+        setEvents(response.events || []);
+        setNextBefore(response.next_before);
+      })
+      .catch((error) => console.error('Error loading activity feed:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const loadMore = async () => {
+    if (!nextBefore) return;
+
+    setLoadingMore(true);
+    try {
+      const response = await apiClient.getActivityFeed(nextBefore);
+      setEvents(prev => [...prev, ...(response.events || [])]);
+      setNextBefore(response.next_before);
+    } catch (error) {
+      console.error('Error loading activity feed:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-gray-200/50">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Activity</h2>
+        <Link to="/settings" className="text-sm text-blue-600 hover:text-blue-500">What I share</Link>
+      </div>
+      <div className="p-6">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">
+            Nothing yet. Perfect days, streaks, records and challenges from you and your{' '}
+            <Link to="/users" className="text-blue-600 hover:text-blue-500">friends</Link> show up here.
+          </p>
+        ) : (
+          <>
+            <ul className="space-y-4">
+              {events.map((event) => {
+                const Icon = getActivityIcon(event.event_type);
+
+                return (
+                  <li key={event.id} className="flex items-start space-x-3">
+                    <Link to={`/u/${event.user.username}`}>
+                      <Avatar url={event.user.avatar_url} name={event.user.display_name} size="sm" />
+                    </Link>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900">
+                        <Link to={`/u/${event.user.username}`} className="font-medium hover:text-blue-600">
+                          {event.user.display_name}
+                        </Link>{' '}
+                        {describeActivity(event)}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {formatDistanceToNow(parseISO(event.created_at), { addSuffix: true })}
+                      </p>
+                    </div>
+                    <Icon className="h-5 w-5 text-purple-500 flex-shrink-0" />
+                  </li>
+                );
+              })}
+            </ul>
+            {nextBefore && (
+              <div className="mt-6 text-center">
+                <button
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="px-4 py-2 rounded-xl text-sm font-medium bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 transition-all disabled:opacity-50"
+                >
+                  {loadingMore ? 'Loading...' : 'Load more'}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
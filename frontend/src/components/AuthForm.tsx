@@ -10,7 +10,7 @@ import axios from 'axios';
 const signUpSchema = z.object({
   email: z.string().email(),
   password: z.string().min(6),
-  username: z.string().min(3),
+  username: z.string().regex(/^[A-Za-z0-9_]{3,30}$/, 'Use 3-30 letters, numbers or underscores'),
   displayName: z.string().min(1),
 });
 
@@ -206,6 +206,9 @@ export function AuthForm() {
                   type="text"
                   className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
                 />
+                {signUpForm.formState.errors.username && (
+                  <p className="mt-1 text-sm text-red-600">{signUpForm.formState.errors.username.message}</p>
+                )}
               </div>
 
               <div>
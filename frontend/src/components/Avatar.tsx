@@ -0,0 +1,33 @@
+import { User } from 'lucide-react';
+
+interface AvatarProps {
+  url: string | null | undefined;
+  name: string;
+  size?: 'xs' | 'sm' | 'md' | 'lg';
+}
+
+const SIZES = {
+  xs: { box: 'h-5 w-5', icon: 'h-3 w-3' },
+  sm: { box: 'h-8 w-8', icon: 'h-4 w-4' },
+  md: { box: 'h-12 w-12', icon: 'h-6 w-6' },
+  lg: { box: 'h-24 w-24', icon: 'h-12 w-12' },
+};
+
+// A user's avatar, or the default gradient circle when they haven't uploaded one
+export function Avatar({ url, name, size = 'md' }: AvatarProps) {
+  const { box, icon } = SIZES[size];
+
+  if (url) {
+    return <img src={url} alt={name} className={`${box} rounded-full object-cover flex-shrink-0 bg-gray-100`} />;
+  }
+
+  return (
+    <div
+      role="img"
+      aria-label={name}
+      className={`${box} rounded-full bg-gradient-to-r from-blue-500 to-purple-500 flex items-center justify-center flex-shrink-0`}
+    >
+      <User className={`${icon} text-white`} />
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { X, Coffee, Lock, Trophy, StickyNote } from 'lucide-react';
+import { apiClient } from '../lib/api';
+import { TaskTypeFields, describeTaskTarget, describeScoringPolicy } from '../lib/taskTypes';
+import { ChallengeMetric, describeMetric } from '../lib/challengeMetrics';
+import { getScoreColor } from '../lib/scoreColors';
+
+interface DayTask extends TaskTypeFields {
+  task_id: string;
+  name: string;
+  points: number;
+  due: boolean;
+  // null when nothing was logged
+  value: number | null;
+  hours: number;
+  earned_points: number;
+  progress: number | null;
+  notes: string | null;
+}
+
+interface DayChallenge {
+  id: string;
+  challenge_type: 'duel' | 'group';
+  metric: ChallengeMetric;
+  metric_task_name: string | null;
+  metric_threshold: number | null;
+  status: 'active' | 'completed';
+  start_date: string;
+  end_date: string;
+  opponent: string;
+  won: boolean | null;
+}
+
+interface DayDetail {
+  date: string;
+  today: string;
+  locked: boolean;
+  editable: boolean;
+  score: {
+    percentage_score: number;
+    earned_points: number;
+    total_possible_points: number;
+    is_excused: boolean;
+  } | null;
+  rest_period: { reason: string | null } | null;
+  tasks: DayTask[];
+  challenges: DayChallenge[];
+}
+
+interface DayDetailDrawerProps {
+  date: string;
+  onClose: () => void;
+}
+
+const describeLogged = (task: DayTask) => {
+  if (task.value === null) return 'Nothing logged';
+
+  switch (task.task_type) {
+    case 'boolean':
+      return task.value >= 1 ? 'Done' : 'Not done';
+    case 'count':
+      return `${task.value}${task.unit ? ` ${task.unit}` : ''}`;
+    case 'avoid':
+      return task.value > 0 ? 'Slipped' : 'Kept';
+    default:
+      return `${task.hours}h`;
+  }
+};
+
+// A side panel with everything about one calendar day
+export function DayDetailDrawer({ date, onClose }: DayDetailDrawerProps) {
+  const [day, setDay] = useState<DayDetail | null>(null);
+  const [error, setError] = useState('');
+  const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
+  const [noteDraft, setNoteDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDay(null);
+    setError('');
+    setEditingTaskId(null);
+
+    apiClient.getDayDetail(date)
+      .then(setDay)
+      .catch((error) => {
+        console.error('Error loading day detail:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load this day.');
+      });
+  }, [date]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const startEditingNote = (task: DayTask) => {
+    setEditingTaskId(task.task_id);
+    setNoteDraft(task.notes || '');
+  };
+
+  const saveNote = async (task: DayTask) => {
+    if (!day) return;
+
+    setSaving(true);
+    try {
+      // Notes are stored on the completion, so an empty day logs nothing (0) with them
+      await apiClient.updateTaskCompletion(task.task_id, task.value ?? 0, day.date, noteDraft.trim() || null);
+      setDay(await apiClient.getDayDetail(day.date));
+      setEditingTaskId(null);
+    } catch (error) {
+      console.error('Error saving note:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save the note.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-gray-900/30" onClick={onClose} aria-hidden="true" />
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Details for ${format(parseISO(date), 'EEEE, MMMM d, yyyy')}`}
+        className="relative w-full max-w-md h-full overflow-y-auto bg-white shadow-2xl"
+      >
+        <div className="sticky top-0 bg-white/90 backdrop-blur-md px-6 py-4 border-b border-gray-200 flex items-start justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">{format(parseISO(date), 'EEEE, MMMM d')}</h2>
+            {day?.score && (
+              <p className="flex items-center text-sm text-gray-600">
+                {day.score.total_possible_points > 0 && (
+                  <span className={`w-3 h-3 rounded-full mr-2 ${getScoreColor(day.score.percentage_score)}`} />
+                )}
+                {day.score.total_possible_points > 0
+                  ? `${day.score.percentage_score.toFixed(1)}% · ${day.score.earned_points} / ${day.score.total_possible_points} points`
+                  : 'Nothing due'}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" aria-label="Close" autoFocus>
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl">{error}</div>
+          )}
+
+          {!day && !error && (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          )}
+
+          {day && (
+            <>
+              {(day.rest_period || day.score?.is_excused) && (
+                <div className="flex items-center bg-slate-100 text-slate-700 px-4 py-3 rounded-xl text-sm">
+                  <Coffee className="h-4 w-4 mr-2" />
+                  Rest day{day.rest_period?.reason ? `: ${day.rest_period.reason}` : ''}, not counted in averages
+                </div>
+              )}
+
+              {day.locked && (
+                <div className="flex items-center bg-gray-50 text-gray-600 px-4 py-3 rounded-xl text-sm">
+                  <Lock className="h-4 w-4 mr-2" />
+                  Counted toward a finished challenge, so it can no longer be edited
+                </div>
+              )}
+
+              {/* Tasks */}
+              <section>
+                <h3 className="text-sm font-medium text-gray-900 mb-3">Tasks</h3>
+                {day.tasks.length === 0 ? (
+                  <p className="text-sm text-gray-500">No tasks were due.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {day.tasks.map(task => (
+                      <div key={task.task_id} className="border border-gray-200/50 rounded-xl p-4 bg-gray-50/50">
+                        <div className="flex items-center justify-between">
+                          <h4 className="font-medium text-gray-900">{task.name}</h4>
+                          <span className={`text-sm ${task.earned_points < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                            {task.due ? `${task.earned_points} / ${task.points} points` : 'Not due'}
+                          </span>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-0.5">
+                          Target {describeTaskTarget(task)}
+                          {describeScoringPolicy(task) && ` · ${describeScoringPolicy(task)}`}
+                        </p>
+                        <div className="flex items-center justify-between text-sm text-gray-600 mt-2">
+                          <span>{describeLogged(task)}</span>
+                          {task.progress !== null && <span>{task.progress.toFixed(0)}%</span>}
+                        </div>
+                        {task.progress !== null && (
+                          <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+                            <div
+                              className="bg-gradient-to-r from-blue-500 to-purple-500 h-1.5 rounded-full"
+                              style={{ width: `${task.progress}%` }}
+                            />
+                          </div>
+                        )}
+
+                        {editingTaskId === task.task_id ? (
+                          <div className="mt-3">
+                            <textarea
+                              value={noteDraft}
+                              onChange={(e) => setNoteDraft(e.target.value)}
+                              maxLength={1000}
+                              rows={3}
+                              placeholder="What did you do?"
+                              className="block w-full px-3 py-2 border border-gray-300 rounded-xl shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                            />
+                            <div className="flex justify-end space-x-2 mt-2">
+                              <button
+                                type="button"
+                                onClick={() => setEditingTaskId(null)}
+                                className="px-3 py-1.5 rounded-lg text-sm font-medium bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 transition-all"
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => saveNote(task)}
+                                disabled={saving}
+                                className="px-3 py-1.5 rounded-lg text-sm font-medium bg-gradient-to-r from-blue-600 to-purple-600 text-white hover:from-blue-700 hover:to-purple-700 disabled:opacity-50 transition-all"
+                              >
+                                {saving ? 'Saving...' : 'Save note'}
+                              </button>
+                            </div>
+                          </div>
+                        ) : task.notes ? (
+                          <p className="mt-3 flex items-start text-sm text-gray-700 whitespace-pre-wrap">
+                            <StickyNote className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-yellow-500" />
+                            <span className="flex-1">{task.notes}</span>
+                            {day.editable && (
+                              <button
+                                type="button"
+                                onClick={() => startEditingNote(task)}
+                                className="ml-2 text-xs text-blue-600 hover:text-blue-500"
+                              >
+                                Edit
+                              </button>
+                            )}
+                          </p>
+                        ) : day.editable && (
+                          <button
+                            type="button"
+                            onClick={() => startEditingNote(task)}
+                            className="mt-3 inline-flex items-center text-xs text-blue-600 hover:text-blue-500"
+                          >
+                            <StickyNote className="h-3.5 w-3.5 mr-1" />
+                            Add a note
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+
+              {/* Challenges */}
+              <section>
+                <h3 className="text-sm font-medium text-gray-900 mb-3">Challenges</h3>
+                {day.challenges.length === 0 ? (
+                  <p className="text-sm text-gray-500">This day didn't count toward any challenge.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {day.challenges.map(challenge => (
+                      <Link
+                        key={challenge.id}
+                        to={`/challenges/${challenge.id}`}
+                        className="flex items-center justify-between border border-gray-200/50 rounded-xl px-4 py-3 bg-gray-50/50 hover:bg-gray-100/50 transition-colors"
+                      >
+                        <div className="flex items-center">
+                          <Trophy className="h-4 w-4 mr-2 text-purple-500" />
+                          <div>
+                            <p className="text-sm font-medium text-gray-900">
+                              {challenge.challenge_type === 'group' ? challenge.opponent : `vs ${challenge.opponent}`}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {describeMetric(challenge)} · {format(parseISO(challenge.start_date), 'MMM d')} – {format(parseISO(challenge.end_date), 'MMM d')}
+                            </p>
+                          </div>
+                        </div>
+                        <span className={`text-xs font-medium ${
+                          challenge.won === null ? 'text-blue-600' : challenge.won ? 'text-green-600' : 'text-red-600'
+                        }`}>
+                          {challenge.won === null ? 'In progress' : challenge.won ? 'Won' : 'Not won'}
+                        </span>
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -6,14 +6,16 @@ import {
   Target, 
   Trophy, 
   Calendar, 
+  BarChart3,
   Users, 
   LogOut,
-  User
+  Settings
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { Avatar } from './Avatar';
 
 export function Layout() {
-  const { user, signOut } = useAuth();
+  const { user, profile, signOut } = useAuth();
   const location = useLocation();
 
   const navigation = [
@@ -21,6 +23,7 @@ export function Layout() {
     { name: 'Tasks', href: '/tasks', icon: Target },
     { name: 'Challenges', href: '/challenges', icon: Trophy },
     { name: 'Calendar', href: '/calendar', icon: Calendar },
+    { name: 'Analytics', href: '/analytics', icon: BarChart3 },
     { name: 'Find Users', href: '/users', icon: Users },
   ];
 
@@ -70,12 +73,25 @@ export function Layout() {
 
             {/* User Menu */}
             <div className="flex items-center space-x-4">
-              <div className="hidden md:flex items-center space-x-3">
-                <div className="h-8 w-8 rounded-full bg-gradient-to-r from-blue-500 to-purple-500 flex items-center justify-center">
-                  <User className="h-4 w-4 text-white" />
-                </div>
-                <span className="text-sm font-medium text-gray-700">{user?.email}</span>
-              </div>
+              <Link
+                to="/settings/profile"
+                className="hidden md:flex items-center space-x-3 rounded-xl px-2 py-1 hover:bg-gray-100 transition-colors"
+                title="Edit profile"
+              >
+                <Avatar url={profile?.avatar_url} name={profile?.display_name || user?.email || ''} size="sm" />
+                <span className="text-sm font-medium text-gray-700">{profile?.display_name || user?.email}</span>
+              </Link>
+              <Link
+                to="/settings"
+                className={cn(
+                  "p-2 rounded-lg transition-colors",
+                  isActive('/settings')
+                    ? "text-blue-600 bg-blue-50"
+                    : "text-gray-400 hover:text-gray-600 hover:bg-gray-100"
+                )}
+              >
+                <Settings className="h-5 w-5" />
+              </Link>
               <button
                 onClick={signOut}
                 className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import { Play, Square, Timer } from 'lucide-react';
+import { SessionMode, TaskSession, formatDuration, getSessionStatus } from '../lib/sessions';
+
+interface TaskTimerProps {
+  session?: TaskSession;
+  // Server time minus local time, so every device shows the same elapsed time
+  clockOffset: number;
+  onStart: (mode: SessionMode) => void;
+  onStop: (session: TaskSession) => void;
+}
+
+export function TaskTimer({ session, clockOffset, onStart, onStop }: TaskTimerProps) {
+  const [now, setNow] = useState(() => Date.now() + clockOffset);
+
+  useEffect(() => {
+    if (!session) return;
+
+    setNow(Date.now() + clockOffset);
+    const interval = setInterval(() => setNow(Date.now() + clockOffset), 1000);
+    return () => clearInterval(interval);
+  }, [session, clockOffset]);
+
+  if (!session) {
+    return (
+      <div className="flex items-center space-x-2">
+        <button
+          type="button"
+          onClick={() => onStart('timer')}
+          className="inline-flex items-center px-3 py-1.5 rounded-lg text-sm font-medium bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 transition-all"
+        >
+          <Play className="h-4 w-4 mr-1" />
+          Start timer
+        </button>
+        <button
+          type="button"
+          onClick={() => onStart('pomodoro')}
+          className="inline-flex items-center px-3 py-1.5 rounded-lg text-sm font-medium bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 transition-all"
+        >
+          <Timer className="h-4 w-4 mr-1" />
+          Pomodoro
+        </button>
+      </div>
+    );
+  }
+
+  const status = getSessionStatus(session, now);
+
+  return (
+    <div className="flex items-center justify-between bg-blue-50 border border-blue-100 rounded-lg px-3 py-2">
+      <div className="flex items-center space-x-3 text-sm">
+        <span className="font-mono font-medium text-blue-900">{formatDuration(status.workedSeconds)}</span>
+        {status.phaseRemainingSeconds !== null && (
+          <span className={status.phase === 'work' ? 'text-blue-700' : 'text-green-700'}>
+            {status.phase === 'work' ? 'Focus' : 'Break'} · {formatDuration(status.phaseRemainingSeconds)} left
+          </span>
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={() => onStop(session)}
+        className="inline-flex items-center px-3 py-1.5 rounded-lg text-sm font-medium bg-gradient-to-r from-blue-600 to-purple-600 text-white hover:from-blue-700 hover:to-purple-700 transition-all"
+      >
+        <Square className="h-4 w-4 mr-1" />
+        Stop
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { format, parseISO } from 'date-fns';
+
+export interface TrendPoint {
+  date: string;
+  // null on days that didn't count (nothing due, or a rest day)
+  percentage: number | null;
+  excused: boolean;
+  moving_average: number | null;
+}
+
+interface TrendChartProps {
+  trend: TrendPoint[];
+  window: number;
+}
+
+// Daily scores as bars with the moving average drawn over them. Scores can go
+// past 100% with overtime bonuses, so the scale grows to fit.
+export function TrendChart({ trend, window }: TrendChartProps) {
+  const max = Math.max(100, ...trend.map(p => Math.max(p.percentage ?? 0, p.moving_average ?? 0)));
+  const y = (value: number) => 100 - (value / max) * 100;
+
+  // The average line breaks where there's nothing to average
+  const segments: string[][] = [];
+  trend.forEach((point, i) => {
+    if (point.moving_average === null) {
+      segments.push([]);
+      return;
+    }
+    if (segments.length === 0) segments.push([]);
+    segments[segments.length - 1].push(`${i + 0.5},${y(point.moving_average)}`);
+  });
+
+  if (trend.length === 0) {
+    return <p className="text-gray-500 text-center py-8">No days in this range.</p>;
+  }
+
+  return (
+    <div>
+      <div className="relative h-48">
+        <svg
+          viewBox={`0 0 ${trend.length} 100`}
+          preserveAspectRatio="none"
+          className="absolute inset-0 h-full w-full"
+          role="img"
+          aria-label="Daily score trend"
+        >
+          <line x1={0} x2={trend.length} y1={y(100)} y2={y(100)} className="stroke-gray-200" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+          {trend.map((point, i) => (
+            <rect
+              key={point.date}
+              x={i + 0.1}
+              width={0.8}
+              y={point.percentage === null ? 98 : y(point.percentage)}
+              height={point.percentage === null ? 2 : 100 - y(point.percentage)}
+              className={point.excused ? 'fill-slate-300' : point.percentage === null ? 'fill-gray-200' : 'fill-blue-300'}
+            >
+              <title>
+                {format(parseISO(point.date), 'MMM d')}: {point.excused
+                  ? 'Rest day'
+                  : point.percentage === null ? 'Nothing due' : `${point.percentage}%`}
+                {point.moving_average !== null && ` · ${window}-day average ${point.moving_average}%`}
+              </title>
+            </rect>
+          ))}
+          {segments.filter(points => points.length > 1).map((points, i) => (
+            <polyline
+              key={i}
+              points={points.join(' ')}
+              fill="none"
+              className="stroke-purple-600"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+        </svg>
+      </div>
+      <div className="flex justify-between mt-2 text-xs text-gray-500">
+        <span>{format(parseISO(trend[0].date), 'MMM d, yyyy')}</span>
+        <span className="flex items-center space-x-4">
+          <span className="flex items-center"><span className="w-3 h-3 bg-blue-300 rounded-sm mr-1" />Daily score</span>
+          <span className="flex items-center"><span className="w-3 h-0.5 bg-purple-600 mr-1" />{window}-day average</span>
+          <span className="flex items-center"><span className="w-3 h-3 bg-slate-300 rounded-sm mr-1" />Rest day</span>
+        </span>
+        <span>{format(parseISO(trend[trend.length - 1].date), 'MMM d, yyyy')}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { addDays, differenceInCalendarDays, format, parseISO, startOfWeek } from 'date-fns';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
+import { getScoreColor } from '../lib/scoreColors';
+
+export interface HeatmapDay {
+  date: string;
+  // null when nothing was due
+  percentage: number | null;
+  excused: boolean;
+}
+
+export interface HeatmapChallengeResult {
+  date: string;
+  won: boolean;
+  opponent: string;
+  challenge_type: 'duel' | 'group';
+  rank: number | null;
+  participant_count: number;
+}
+
+interface HeatmapRestPeriod {
+  start_date: string;
+  end_date: string;
+  reason: string | null;
+}
+
+interface YearHeatmapProps {
+  start: string;
+  end: string;
+  today: string;
+  days: HeatmapDay[];
+  restPeriods: HeatmapRestPeriod[];
+  challengeResults: HeatmapChallengeResult[];
+  onSelectDay: (date: string) => void;
+}
+
+const WEEKDAY_ROWS = ['', 'Mon', '', 'Wed', '', 'Fri', ''];
+
+// Arrow keys move a day (up/down) or a week (left/right), like the grid itself
+const KEY_STEPS: Record<string, number> = {
+  ArrowUp: -1,
+  ArrowDown: 1,
+  ArrowLeft: -7,
+  ArrowRight: 7,
+};
+
+function describeChallengeResult(result: HeatmapChallengeResult) {
+  return result.challenge_type === 'group'
+    ? `Finished #${result.rank} of ${result.participant_count} in ${result.opponent}`
+    : `${result.won ? 'Won' : 'Lost'} vs ${result.opponent}`;
+}
+
+// A year of daily scores as a grid of weeks (columns) by weekday (rows). Each
+// day is a button: hovering or focusing it shows its score and challenge
+// results, and the arrow keys move between days.
+export function YearHeatmap({ start, end, today, days, restPeriods, challengeResults, onSelectDay }: YearHeatmapProps) {
+  const [focusedDate, setFocusedDate] = useState(today < end ? today : end);
+  const cellRefs = useRef<Record<string, HTMLButtonElement | null>>({});
+  const movedByKeyboard = useRef(false);
+
+  // A new range starts focused on its last day
+  useEffect(() => {
+    setFocusedDate(today < end ? today : end);
+  }, [start, end, today]);
+
+  useEffect(() => {
+    if (movedByKeyboard.current) {
+      cellRefs.current[focusedDate]?.focus();
+      movedByKeyboard.current = false;
+    }
+  }, [focusedDate]);
+
+  const byDate = Object.fromEntries(days.map(day => [day.date, day]));
+  const gridStart = startOfWeek(parseISO(start));
+  const weekCount = Math.ceil((differenceInCalendarDays(parseISO(end), gridStart) + 1) / 7);
+  const weeks = Array.from({ length: weekCount }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) => format(addDays(gridStart, week * 7 + weekday), 'yyyy-MM-dd'))
+  );
+
+  const getRestPeriod = (date: string) =>
+    restPeriods.find(period => period.start_date <= date && period.end_date >= date);
+
+  const getCellColor = (date: string) => {
+    const day = byDate[date];
+    if (day?.excused || getRestPeriod(date)) return 'bg-slate-300';
+    if (date > today) return 'bg-gray-50 border border-gray-200';
+    if (!day || day.percentage === null) return 'bg-gray-200';
+    return getScoreColor(day.percentage);
+  };
+
+  const describeDay = (date: string) => {
+    const day = byDate[date];
+    const restPeriod = getRestPeriod(date);
+
+    if (day?.excused || restPeriod) {
+      return restPeriod?.reason ? `Rest day: ${restPeriod.reason}` : 'Rest day';
+    }
+    if (date > today) return 'Upcoming';
+    if (!day || day.percentage === null) return 'Nothing due';
+    return `${day.percentage.toFixed(1)}%`;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    let next: string | null = null;
+
+    if (e.key in KEY_STEPS) {
+      next = format(addDays(parseISO(focusedDate), KEY_STEPS[e.key]), 'yyyy-MM-dd');
+    } else if (e.key === 'Home') {
+      next = start;
+    } else if (e.key === 'End') {
+      next = end;
+    }
+
+    if (next === null) return;
+
+    e.preventDefault();
+    if (next >= start && next <= end) {
+      movedByKeyboard.current = true;
+      setFocusedDate(next);
+    }
+  };
+
+  return (
+    <TooltipProvider delayDuration={100}>
+      <div className="overflow-x-auto">
+        <div className="inline-flex flex-col">
+          {/* Month labels */}
+          <div className="flex ml-8 mb-1 text-xs text-gray-500">
+            {weeks.map(week => {
+              const firstOfMonth = week.find(date => date.endsWith('-01') && date >= start && date <= end);
+              return (
+                <div key={week[0]} className="w-3 mr-1 overflow-visible whitespace-nowrap">
+                  {firstOfMonth && format(parseISO(firstOfMonth), 'MMM')}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex">
+            <div className="flex flex-col w-8 text-xs text-gray-500">
+              {WEEKDAY_ROWS.map((label, i) => (
+                <div key={i} className="h-3 mb-1 leading-3">{label}</div>
+              ))}
+            </div>
+
+            <div
+              role="group"
+              aria-label={`Daily scores from ${format(parseISO(start), 'MMM d, yyyy')} to ${format(parseISO(end), 'MMM d, yyyy')}`}
+              aria-describedby="year-heatmap-help"
+              className="flex"
+              onKeyDown={handleKeyDown}
+            >
+              {weeks.map(week => (
+                <div key={week[0]} className="flex flex-col mr-1">
+                  {week.map(date => {
+                    if (date < start || date > end) {
+                      return <div key={date} className="w-3 h-3 mb-1" />;
+                    }
+
+                    const results = challengeResults.filter(result => result.date === date);
+                    const label = [
+                      format(parseISO(date), 'EEE, MMM d, yyyy'),
+                      describeDay(date),
+                      ...results.map(describeChallengeResult),
+                    ].join(' · ');
+
+                    return (
+                      <Tooltip key={date}>
+                        <TooltipTrigger asChild>
+                          <button
+                            type="button"
+                            ref={el => { cellRefs.current[date] = el; }}
+                            tabIndex={date === focusedDate ? 0 : -1}
+                            aria-label={label}
+                            onClick={() => onSelectDay(date)}
+                            onFocus={() => setFocusedDate(date)}
+                            className={`w-3 h-3 mb-1 rounded-sm ${getCellColor(date)} ${
+                              results.length > 0 ? 'ring-1 ring-purple-500 ring-offset-1' : ''
+                            } ${date === today ? 'outline outline-1 outline-blue-600' : ''} focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-600`}
+                          />
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p className="font-medium">{format(parseISO(date), 'EEE, MMM d, yyyy')}</p>
+                          <p>{describeDay(date)}</p>
+                          {results.map((result, i) => (
+                            <p key={i} className={result.won ? 'text-green-600' : 'text-red-600'}>
+                              {describeChallengeResult(result)}
+                            </p>
+                          ))}
+                        </TooltipContent>
+                      </Tooltip>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <p id="year-heatmap-help" className="sr-only">
+            Use the arrow keys to move between days and Enter to see a day's details.
+          </p>
+        </div>
+      </div>
+    </TooltipProvider>
+  );
+}
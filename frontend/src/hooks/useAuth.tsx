@@ -6,9 +6,18 @@ interface User {
   email: string;
 }
 
+interface Profile {
+  id: string;
+  username: string;
+  display_name: string;
+  avatar_url: string | null;
+}
+
 interface AuthContextType {
   user: User | null;
+  profile: Profile | null;
   loading: boolean;
+  refreshProfile: () => Promise<void>;
   signUp: (email: string, password: string, username: string, displayName: string) => Promise<unknown>;
   signIn: (email: string, password: string) => Promise<unknown>;
   signOut: () => Promise<void>;
@@ -18,6 +27,7 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -31,6 +41,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         apiClient.setToken(token);
         const response = await apiClient.getCurrentUser();
         setUser(response.user);
+        setProfile(response.profile);
       }
     } catch (error) {
       console.error('Auth check failed:', error);
@@ -41,6 +52,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  // Pick up changes to the profile, e.g. after editing it
+  const refreshProfile = async () => {
+    const response = await apiClient.getCurrentUser();
+    setProfile(response.profile);
+  };
+
   const signUp = async (email: string, password: string, username: string, displayName: string) => {
     const response = await apiClient.signUp(email, password, username, displayName);
     return response;
@@ -49,15 +66,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const signIn = async (email: string, password: string) => {
     const response = await apiClient.signIn(email, password);
     setUser(response.user);
+    refreshProfile().catch(error => console.error('Error loading profile:', error));
     return response;
   };
 
   const signOut = async () => {
     await apiClient.signOut();
     setUser(null);
+    setProfile(null);
   };
 
-  const contextValue = { user, loading, signUp, signIn, signOut };
+  const contextValue = { user, profile, loading, refreshProfile, signUp, signIn, signOut };
 
   return (
     <AuthContext.Provider value={contextValue}>
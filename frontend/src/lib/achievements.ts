@@ -0,0 +1,33 @@
+import { Award, Clock, Crown, Flame, LucideIcon, Medal, Sparkles, Star, Sword, Trophy, Users } from 'lucide-react';
+
+export interface Achievement {
+  key: string;
+  name: string;
+  description: string;
+  icon: string;
+  // null while locked
+  unlocked_at: string | null;
+}
+
+// Icon names used by the backend's achievement rules
+const ACHIEVEMENT_ICONS: Record<string, LucideIcon> = {
+  sparkles: Sparkles,
+  star: Star,
+  flame: Flame,
+  crown: Crown,
+  clock: Clock,
+  trophy: Trophy,
+  medal: Medal,
+  users: Users,
+  sword: Sword,
+};
+
+export function getAchievementIcon(icon: string): LucideIcon {
+  return ACHIEVEMENT_ICONS[icon] || Award;
+}
+
+export function describeUnlock(achievement: Achievement) {
+  return achievement.unlocked_at
+    ? `${achievement.description} · Unlocked ${new Date(achievement.unlocked_at).toLocaleDateString()}`
+    : achievement.description;
+}
@@ -0,0 +1,85 @@
+import { CalendarCheck, Flame, LucideIcon, Swords, TrendingUp, Trophy } from 'lucide-react';
+import { ChallengeMetric, describeMetric } from './challengeMetrics';
+
+export type ActivityType = 'perfect_day' | 'streak_milestone' | 'challenge_started' | 'challenge_won' | 'personal_record';
+
+export const ACTIVITY_TYPES: { value: ActivityType; label: string }[] = [
+  { value: 'perfect_day', label: 'Perfect days' },
+  { value: 'streak_milestone', label: 'Streak milestones' },
+  { value: 'challenge_started', label: 'Challenges I start' },
+  { value: 'challenge_won', label: 'Challenges I win' },
+  { value: 'personal_record', label: 'Personal records' },
+];
+
+interface ChallengeActivity {
+  challenge_id: string;
+  challenge_type: 'duel' | 'group';
+  name: string | null;
+  metric: ChallengeMetric;
+  metric_task_name: string | null;
+  metric_threshold: number | null;
+  start_date: string;
+  end_date: string;
+  participant_count: number;
+}
+
+// What each event type stores in its data
+export type ActivityEvent = {
+  id: string;
+  created_at: string;
+  user: { id: string; username: string; display_name: string; avatar_url: string | null };
+} & (
+  | { event_type: 'perfect_day'; data: { date: string } }
+  | { event_type: 'streak_milestone'; data: { days: number; date: string } }
+  | { event_type: 'challenge_started' | 'challenge_won'; data: ChallengeActivity }
+  | {
+    event_type: 'personal_record';
+    data: {
+      task_id: string;
+      task_name: string;
+      task_type: 'duration' | 'count';
+      unit: string | null;
+      value: number;
+      previous_best: number;
+      date: string;
+    };
+  }
+);
+
+const ACTIVITY_ICONS: Record<ActivityType, LucideIcon> = {
+  perfect_day: CalendarCheck,
+  streak_milestone: Flame,
+  challenge_started: Swords,
+  challenge_won: Trophy,
+  personal_record: TrendingUp,
+};
+
+export function getActivityIcon(type: ActivityType): LucideIcon {
+  return ACTIVITY_ICONS[type];
+}
+
+const formatAmount = (value: number, taskType: 'duration' | 'count', unit: string | null) =>
+  taskType === 'duration'
+    ? `${Number(value.toFixed(2))}h`
+    : `${Number(value.toFixed(2))}${unit ? ` ${unit}` : ''}`;
+
+const describeChallenge = (data: ChallengeActivity) =>
+  data.challenge_type === 'group'
+    ? `${data.name || 'a group challenge'} with ${data.participant_count - 1} others (${describeMetric(data)})`
+    : `a duel (${describeMetric(data)})`;
+
+// What happened, to follow the user's name
+export function describeActivity(event: ActivityEvent) {
+  switch (event.event_type) {
+    case 'perfect_day':
+      return 'had a perfect day';
+    case 'streak_milestone':
+      return `reached a ${event.data.days}-day streak`;
+    case 'challenge_started':
+      return `started ${describeChallenge(event.data)}`;
+    case 'challenge_won':
+      return `won ${describeChallenge(event.data)}`;
+    case 'personal_record':
+      return `set a record on ${event.data.task_name}: ${formatAmount(event.data.value, event.data.task_type, event.data.unit)}, up from ${formatAmount(event.data.previous_best, event.data.task_type, event.data.unit)}`;
+  }
+}
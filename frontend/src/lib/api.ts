@@ -1,4 +1,9 @@
 import axios, { AxiosRequestConfig } from 'axios';
+import type { Recurrence } from './recurrence';
+import type { TaskTypeFields } from './taskTypes';
+import type { ChallengeMetricSettings } from './challengeMetrics';
+import type { SessionSettings } from './sessions';
+import type { PrivacySettings } from './privacy';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
@@ -51,7 +56,13 @@ class ApiClient {
   async signUp(email: string, password: string, username: string, displayName: string) {
     return this.request('/auth/signup', {
       method: 'POST',
-      data: { email, password, username, displayName },
+      data: {
+        email,
+        password,
+        username,
+        displayName,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      },
     });
   }
 
@@ -76,19 +87,44 @@ class ApiClient {
     return this.request('/auth/me');
   }
 
+  async updateProfile(profile: {
+    display_name?: string;
+    username?: string;
+    bio?: string | null;
+    timezone?: string;
+    streak_threshold?: number;
+  } & Partial<PrivacySettings>) {
+    return this.request('/auth/me', {
+      method: 'PUT',
+      data: profile,
+    });
+  }
+
+  // `image` is a base64 data URL
+  async uploadAvatar(image: string) {
+    return this.request('/auth/me/avatar', {
+      method: 'PUT',
+      data: { image },
+    });
+  }
+
+  async removeAvatar() {
+    return this.request('/auth/me/avatar', { method: 'DELETE' });
+  }
+
   // Task endpoints
   async getTasks() {
     return this.request('/tasks');
   }
 
-  async createTask(task: { name: string; duration_hours: number; points: number }) {
+  async createTask(task: { name: string; points: number } & TaskTypeFields & Recurrence) {
     return this.request('/tasks', {
       method: 'POST',
       data: task,
     });
   }
 
-  async updateTask(id: string, task: { name: string; duration_hours: number; points: number }) {
+  async updateTask(id: string, task: { name: string; points: number } & TaskTypeFields & Recurrence) {
     return this.request(`/tasks/${id}`, {
       method: 'PUT',
       data: task,
@@ -103,32 +139,82 @@ class ApiClient {
     return this.request('/tasks/completions/today');
   }
 
-  async updateTaskCompletion(taskId: string, actualDurationHours: number) {
+  async getCompletions(date?: string) {
+    return this.request('/tasks/completions', { params: { date } });
+  }
+
+  async updateTaskCompletion(taskId: string, value: number, completionDate?: string, notes?: string | null) {
     return this.request('/tasks/completions', {
       method: 'POST',
       data: {
         task_id: taskId,
-        actual_duration_hours: actualDurationHours,
+        value,
+        completion_date: completionDate,
+        notes,
       },
     });
   }
 
+  async getTaskSessions() {
+    return this.request('/tasks/sessions');
+  }
+
+  async startTaskSession(taskId: string, settings: SessionSettings) {
+    return this.request(`/tasks/${taskId}/sessions`, {
+      method: 'POST',
+      data: settings,
+    });
+  }
+
+  async stopTaskSession(sessionId: string) {
+    return this.request(`/tasks/sessions/${sessionId}/stop`, { method: 'PUT' });
+  }
+
+  // Rest period endpoints
+  async getRestPeriods() {
+    return this.request('/rest-periods');
+  }
+
+  async createRestPeriod(restPeriod: { start_date: string; end_date: string; reason?: string }) {
+    return this.request('/rest-periods', {
+      method: 'POST',
+      data: restPeriod,
+    });
+  }
+
+  async deleteRestPeriod(id: string) {
+    return this.request(`/rest-periods/${id}`, { method: 'DELETE' });
+  }
+
   // Challenge endpoints
   async getChallenges() {
     return this.request('/challenges');
   }
 
   async createChallenge(challenge: {
-    challenger_username: string;
+    challenge_type?: 'duel' | 'group';
+    challenger_username?: string;
+    usernames?: string[];
+    name?: string;
     duration_type: string;
     duration_count: number;
-  }) {
+    start_date?: string;
+    max_excused_days?: number;
+  } & ChallengeMetricSettings) {
     return this.request('/challenges', {
       method: 'POST',
       data: challenge,
     });
   }
 
+  async getChallenge(id: string) {
+    return this.request(`/challenges/${id}`);
+  }
+
+  async getChallengeStandings(id: string) {
+    return this.request(`/challenges/${id}/standings`);
+  }
+
   async respondToChallenge(id: string, accept: boolean) {
     return this.request(`/challenges/${id}/respond`, {
       method: 'PUT',
@@ -140,16 +226,64 @@ class ApiClient {
     return this.request(`/challenges/${id}/cancel`, { method: 'PUT' });
   }
 
+  async startChallenge(id: string) {
+    return this.request(`/challenges/${id}/start`, { method: 'PUT' });
+  }
+
   // User endpoints
-  async getTopUsers() {
-    return this.request('/users/top');
+  async getTopUsers(scope?: 'friends') {
+    return this.request('/users/top', { params: { scope } });
   }
 
   async searchUsers(query: string) {
     return this.request(`/users/search`, { params: { q: query } });
   }
 
+  async getUserProfile(username: string) {
+    return this.request(`/users/profile/${encodeURIComponent(username)}`);
+  }
+
+  async getFriends() {
+    return this.request('/users/friends');
+  }
+
+  async sendFriendRequest(userId: string) {
+    return this.request(`/users/${userId}/friend-request`, { method: 'POST' });
+  }
+
+  async respondToFriendRequest(friendshipId: string, accept: boolean) {
+    return this.request(`/users/friend-requests/${friendshipId}/respond`, {
+      method: 'PUT',
+      data: { accept },
+    });
+  }
+
+  async removeFriend(userId: string) {
+    return this.request(`/users/friends/${userId}`, { method: 'DELETE' });
+  }
+
+  async getBlockedUsers() {
+    return this.request('/users/blocks');
+  }
+
+  async blockUser(userId: string) {
+    return this.request(`/users/${userId}/block`, { method: 'POST' });
+  }
+
+  async unblockUser(userId: string) {
+    return this.request(`/users/${userId}/block`, { method: 'DELETE' });
+  }
+
+  // Achievement endpoints
+  async getAchievements() {
+    return this.request('/achievements');
+  }
+
   // Score endpoints
+  async getActivityFeed(before?: string) {
+    return this.request('/activity', { params: { before } });
+  }
+
   async getDashboardData() {
     return this.request('/scores/dashboard');
   }
@@ -157,6 +291,18 @@ class ApiClient {
   async getCalendarData(month: number, year: number) {
     return this.request('/scores/calendar', { params: { month, year } });
   }
+
+  async getDayDetail(date: string) {
+    return this.request(`/scores/days/${date}`);
+  }
+
+  async getCalendarYear(end?: string) {
+    return this.request('/scores/calendar/year', { params: { end } });
+  }
+
+  async getAnalytics(range: { start?: string; end?: string; window?: number }) {
+    return this.request('/scores/analytics', { params: range });
+  }
 }
 
 export const apiClient = new ApiClient(API_BASE_URL);
\ No newline at end of file
@@ -0,0 +1,44 @@
+export type ChallengeMetric = 'average_percentage' | 'total_points' | 'task_hours' | 'streak' | 'perfect_days';
+
+export interface ChallengeMetricSettings {
+  metric: ChallengeMetric;
+  metric_task_name?: string | null;
+  metric_threshold?: number | null;
+}
+
+export const METRIC_OPTIONS: { value: ChallengeMetric; label: string }[] = [
+  { value: 'average_percentage', label: 'Average daily score' },
+  { value: 'total_points', label: 'Total points earned' },
+  { value: 'task_hours', label: 'Most hours on a task' },
+  { value: 'streak', label: 'Longest streak' },
+  { value: 'perfect_days', label: 'Most perfect days' },
+];
+
+export function describeMetric(settings: ChallengeMetricSettings) {
+  switch (settings.metric) {
+    case 'total_points':
+      return 'Most points';
+    case 'task_hours':
+      return `Most hours of ${settings.metric_task_name}`;
+    case 'streak':
+      return `Longest streak at ${Number(settings.metric_threshold)}%+`;
+    case 'perfect_days':
+      return 'Most perfect days';
+    default:
+      return 'Best average score';
+  }
+}
+
+export function formatMetricScore(metric: ChallengeMetric, score: number) {
+  switch (metric) {
+    case 'total_points':
+      return `${Number(score.toFixed(1))} pts`;
+    case 'task_hours':
+      return `${Number(score.toFixed(1))}h`;
+    case 'streak':
+    case 'perfect_days':
+      return `${score} ${score === 1 ? 'day' : 'days'}`;
+    default:
+      return `${score.toFixed(1)}%`;
+  }
+}
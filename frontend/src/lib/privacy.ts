@@ -0,0 +1,17 @@
+import { ActivityType } from './activity';
+
+export type PrivacyLevel = 'everyone' | 'friends' | 'nobody';
+
+export const PRIVACY_LEVELS: { value: PrivacyLevel; label: string }[] = [
+  { value: 'everyone', label: 'Everyone' },
+  { value: 'friends', label: 'Friends only' },
+  { value: 'nobody', label: 'Nobody' },
+];
+
+export interface PrivacySettings {
+  discoverable: boolean;
+  stats_visibility: PrivacyLevel;
+  challenge_privacy: PrivacyLevel;
+  // Activity my friends don't see on their feed
+  activity_opt_out: ActivityType[];
+}
@@ -0,0 +1,38 @@
+export type RecurrenceType = 'daily' | 'weekdays' | 'interval' | 'times_per_week' | 'once';
+
+export interface Recurrence {
+  recurrence_type: RecurrenceType;
+  recurrence_weekdays?: number[] | null;
+  recurrence_interval?: number | null;
+  recurrence_times_per_week?: number | null;
+  recurrence_dates?: string[] | null;
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const RECURRENCE_OPTIONS: { value: RecurrenceType; label: string }[] = [
+  { value: 'daily', label: 'Every day' },
+  { value: 'weekdays', label: 'Specific weekdays' },
+  { value: 'interval', label: 'Every N days' },
+  { value: 'times_per_week', label: 'X times per week' },
+  { value: 'once', label: 'One-off dates' },
+];
+
+export function describeRecurrence(recurrence: Recurrence) {
+  switch (recurrence.recurrence_type) {
+    case 'weekdays':
+      return (recurrence.recurrence_weekdays || []).map(day => WEEKDAY_LABELS[day]).join('/');
+    case 'interval':
+      return recurrence.recurrence_interval === 1
+        ? 'Every day'
+        : `Every ${recurrence.recurrence_interval} days`;
+    case 'times_per_week':
+      return `${recurrence.recurrence_times_per_week}x per week`;
+    case 'once': {
+      const dates = recurrence.recurrence_dates || [];
+      return dates.length === 1 ? `On ${dates[0]}` : `On ${dates.length} dates`;
+    }
+    default:
+      return 'Every day';
+  }
+}
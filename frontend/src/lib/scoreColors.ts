@@ -0,0 +1,14 @@
+// Colour buckets for a day's percentage score, highest first. The calendar,
+// its year heatmap and challenge tables all use these.
+export const SCORE_BUCKETS = [
+  { min: 90, color: 'bg-green-500', label: '90-100%' },
+  { min: 75, color: 'bg-green-400', label: '75-89%' },
+  { min: 60, color: 'bg-yellow-400', label: '60-74%' },
+  { min: 40, color: 'bg-orange-400', label: '40-59%' },
+  { min: 0, color: 'bg-red-400', label: '0-39%' },
+];
+
+export function getScoreColor(score: number) {
+  const bucket = SCORE_BUCKETS.find(b => score >= b.min) || SCORE_BUCKETS[SCORE_BUCKETS.length - 1];
+  return bucket.color;
+}
@@ -0,0 +1,57 @@
+export type SessionMode = 'timer' | 'pomodoro';
+
+export interface TaskSession {
+  id: string;
+  task_id: string;
+  mode: SessionMode;
+  work_minutes: number | null;
+  break_minutes: number | null;
+  started_at: string;
+  ended_at: string | null;
+}
+
+export interface SessionSettings {
+  mode: SessionMode;
+  work_minutes?: number;
+  break_minutes?: number;
+}
+
+export interface SessionStatus {
+  workedSeconds: number;
+  phase: 'work' | 'break';
+  // Seconds left in the current Pomodoro interval; null for a plain timer
+  phaseRemainingSeconds: number | null;
+}
+
+// Where a running session is at `now` (ms). Mirrors the
+// get_session_work_seconds SQL function: Pomodoro sessions repeat work then
+// break, and only work counts.
+export function getSessionStatus(session: TaskSession, now: number): SessionStatus {
+  const elapsed = Math.max((now - new Date(session.started_at).getTime()) / 1000, 0);
+
+  if (session.mode !== 'pomodoro' || !session.work_minutes || !session.break_minutes) {
+    return { workedSeconds: elapsed, phase: 'work', phaseRemainingSeconds: null };
+  }
+
+  const work = session.work_minutes * 60;
+  const cycle = work + session.break_minutes * 60;
+  const intoCycle = elapsed % cycle;
+
+  return {
+    workedSeconds: Math.floor(elapsed / cycle) * work + Math.min(intoCycle, work),
+    phase: intoCycle < work ? 'work' : 'break',
+    phaseRemainingSeconds: intoCycle < work ? work - intoCycle : cycle - intoCycle,
+  };
+}
+
+// Seconds as h:mm:ss, or m:ss under an hour
+export function formatDuration(seconds: number) {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`;
+}
@@ -20,6 +20,16 @@ export type Database = {
           avatar_url: string | null;
           total_wins: number;
           total_losses: number;
+          timezone: string;
+          streak_threshold: number;
+          rating: number;
+          rated_games: number;
+          discoverable: boolean;
+          stats_visibility: 'everyone' | 'friends' | 'nobody';
+          challenge_privacy: 'everyone' | 'friends' | 'nobody';
+          activity_opt_out: ('perfect_day' | 'streak_milestone' | 'challenge_started' | 'challenge_won' | 'personal_record')[];
+          bio: string | null;
+          username_changed_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -30,6 +40,7 @@ export type Database = {
           avatar_url?: string | null;
           total_wins?: number;
           total_losses?: number;
+          timezone?: string;
         };
         Update: {
           username?: string;
@@ -37,6 +48,14 @@ export type Database = {
           avatar_url?: string | null;
           total_wins?: number;
           total_losses?: number;
+          timezone?: string;
+          streak_threshold?: number;
+          discoverable?: boolean;
+          stats_visibility?: 'everyone' | 'friends' | 'nobody';
+          challenge_privacy?: 'everyone' | 'friends' | 'nobody';
+          activity_opt_out?: ('perfect_day' | 'streak_milestone' | 'challenge_started' | 'challenge_won' | 'personal_record')[];
+          bio?: string | null;
+          username_changed_at?: string | null;
         };
       };
       tasks: {
@@ -44,72 +63,309 @@ export type Database = {
           id: string;
           user_id: string;
           name: string;
-          duration_hours: number;
+          task_type: 'duration' | 'boolean' | 'count' | 'avoid';
+          duration_hours: number | null;
+          target_count: number | null;
+          unit: string | null;
+          scoring_policy: 'linear' | 'all_or_nothing' | 'threshold' | 'diminishing' | 'overtime_bonus';
+          scoring_threshold: number | null;
+          overtime_cap: number | null;
           points: number;
           is_active: boolean;
+          recurrence_type: 'daily' | 'weekdays' | 'interval' | 'times_per_week' | 'once';
+          recurrence_weekdays: number[] | null;
+          recurrence_interval: number | null;
+          recurrence_times_per_week: number | null;
+          recurrence_dates: string[] | null;
+          starts_on: string;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           user_id: string;
           name: string;
-          duration_hours: number;
+          task_type?: 'duration' | 'boolean' | 'count' | 'avoid';
+          duration_hours?: number | null;
+          target_count?: number | null;
+          unit?: string | null;
+          scoring_policy?: 'linear' | 'all_or_nothing' | 'threshold' | 'diminishing' | 'overtime_bonus';
+          scoring_threshold?: number | null;
+          overtime_cap?: number | null;
           points: number;
           is_active?: boolean;
+          recurrence_type?: 'daily' | 'weekdays' | 'interval' | 'times_per_week' | 'once';
+          recurrence_weekdays?: number[] | null;
+          recurrence_interval?: number | null;
+          recurrence_times_per_week?: number | null;
+          recurrence_dates?: string[] | null;
+          starts_on?: string;
         };
         Update: {
           name?: string;
-          duration_hours?: number;
+          task_type?: 'duration' | 'boolean' | 'count' | 'avoid';
+          duration_hours?: number | null;
+          target_count?: number | null;
+          unit?: string | null;
+          scoring_policy?: 'linear' | 'all_or_nothing' | 'threshold' | 'diminishing' | 'overtime_bonus';
+          scoring_threshold?: number | null;
+          overtime_cap?: number | null;
           points?: number;
           is_active?: boolean;
+          recurrence_type?: 'daily' | 'weekdays' | 'interval' | 'times_per_week' | 'once';
+          recurrence_weekdays?: number[] | null;
+          recurrence_interval?: number | null;
+          recurrence_times_per_week?: number | null;
+          recurrence_dates?: string[] | null;
+          starts_on?: string;
         };
       };
+      task_versions: {
+        Row: {
+          id: string;
+          task_id: string;
+          user_id: string;
+          effective_from: string;
+          name: string;
+          points: number;
+          is_active: boolean;
+          task_type: 'duration' | 'boolean' | 'count' | 'avoid';
+          duration_hours: number | null;
+          target_count: number | null;
+          unit: string | null;
+          scoring_policy: 'linear' | 'all_or_nothing' | 'threshold' | 'diminishing' | 'overtime_bonus';
+          scoring_threshold: number | null;
+          overtime_cap: number | null;
+          recurrence_type: 'daily' | 'weekdays' | 'interval' | 'times_per_week' | 'once';
+          recurrence_weekdays: number[] | null;
+          recurrence_interval: number | null;
+          recurrence_times_per_week: number | null;
+          recurrence_dates: string[] | null;
+          starts_on: string;
+          created_at: string;
+        };
+        Insert: Record<string, never>;
+        Update: Record<string, never>;
+      };
       task_completions: {
         Row: {
           id: string;
           user_id: string;
           task_id: string;
           completion_date: string;
+          value: number;
           actual_duration_hours: number;
           earned_points: number;
+          notes: string | null;
           created_at: string;
         };
         Insert: {
           user_id: string;
           task_id: string;
           completion_date: string;
-          actual_duration_hours: number;
+          value?: number;
+          actual_duration_hours?: number;
           earned_points: number;
+          notes?: string | null;
         };
         Update: {
+          value?: number;
           actual_duration_hours?: number;
           earned_points?: number;
+          notes?: string | null;
+        };
+      };
+      task_sessions: {
+        Row: {
+          id: string;
+          user_id: string;
+          task_id: string;
+          mode: 'timer' | 'pomodoro';
+          work_minutes: number | null;
+          break_minutes: number | null;
+          started_at: string;
+          ended_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          task_id: string;
+          mode?: 'timer' | 'pomodoro';
+          work_minutes?: number | null;
+          break_minutes?: number | null;
+        };
+        Update: {
+          ended_at?: string | null;
         };
       };
       challenges: {
         Row: {
           id: string;
           creator_id: string;
-          challenger_id: string;
+          challenger_id: string | null;
+          challenge_type: 'duel' | 'group';
+          name: string | null;
           start_date: string;
           end_date: string;
-          status: 'pending' | 'active' | 'completed' | 'cancelled';
+          status: 'pending' | 'scheduled' | 'active' | 'completed' | 'declined' | 'cancelled' | 'expired';
           winner_id: string | null;
+          scheduled_start_date: string | null;
+          duration_type: 'day' | 'week' | 'month' | 'year';
+          duration_count: number;
+          expires_at: string | null;
+          metric: 'average_percentage' | 'total_points' | 'task_hours' | 'streak' | 'perfect_days';
+          metric_task_name: string | null;
+          metric_threshold: number | null;
+          max_excused_days: number;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           creator_id: string;
-          challenger_id: string;
+          challenger_id?: string | null;
+          challenge_type?: 'duel' | 'group';
+          name?: string | null;
           start_date: string;
           end_date: string;
-          status?: 'pending' | 'active' | 'completed' | 'cancelled';
+          status?: 'pending' | 'scheduled' | 'active' | 'completed' | 'declined' | 'cancelled' | 'expired';
+          scheduled_start_date?: string | null;
+          duration_type?: 'day' | 'week' | 'month' | 'year';
+          duration_count?: number;
+          expires_at?: string | null;
+          metric?: 'average_percentage' | 'total_points' | 'task_hours' | 'streak' | 'perfect_days';
+          metric_task_name?: string | null;
+          metric_threshold?: number | null;
+          max_excused_days?: number;
         };
         Update: {
-          status?: 'pending' | 'active' | 'completed' | 'cancelled';
+          status?: 'pending' | 'scheduled' | 'active' | 'completed' | 'declined' | 'cancelled' | 'expired';
           winner_id?: string | null;
         };
       };
+      challenge_participants: {
+        Row: {
+          id: string;
+          challenge_id: string;
+          user_id: string;
+          status: 'invited' | 'accepted' | 'declined';
+          final_score: number | null;
+          rank: number | null;
+          responded_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          challenge_id: string;
+          user_id: string;
+          status?: 'invited' | 'accepted' | 'declined';
+          responded_at?: string | null;
+        };
+        Update: {
+          status?: 'invited' | 'accepted' | 'declined';
+          final_score?: number | null;
+          rank?: number | null;
+          responded_at?: string | null;
+        };
+      };
+      rating_history: {
+        Row: {
+          id: string;
+          user_id: string;
+          challenge_id: string;
+          rating_before: number;
+          rating_after: number;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          challenge_id: string;
+          rating_before: number;
+          rating_after: number;
+        };
+        Update: Record<string, never>;
+      };
+      rest_periods: {
+        Row: {
+          id: string;
+          user_id: string;
+          start_date: string;
+          end_date: string;
+          reason: string | null;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          start_date: string;
+          end_date: string;
+          reason?: string | null;
+        };
+        Update: {
+          end_date?: string;
+          reason?: string | null;
+        };
+      };
+      user_achievements: {
+        Row: {
+          id: string;
+          user_id: string;
+          achievement_key: string;
+          unlocked_at: string;
+        };
+        Insert: {
+          user_id: string;
+          achievement_key: string;
+        };
+        Update: Record<string, never>;
+      };
+      friendships: {
+        Row: {
+          id: string;
+          requester_id: string;
+          addressee_id: string;
+          status: 'pending' | 'accepted';
+          created_at: string;
+          accepted_at: string | null;
+        };
+        Insert: {
+          requester_id: string;
+          addressee_id: string;
+          status?: 'pending' | 'accepted';
+        };
+        Update: {
+          status?: 'pending' | 'accepted';
+          accepted_at?: string | null;
+        };
+      };
+      user_blocks: {
+        Row: {
+          id: string;
+          blocker_id: string;
+          blocked_id: string;
+          created_at: string;
+        };
+        Insert: {
+          blocker_id: string;
+          blocked_id: string;
+        };
+        Update: Record<string, never>;
+      };
+      activity_events: {
+        Row: {
+          id: string;
+          user_id: string;
+          event_type: 'perfect_day' | 'streak_milestone' | 'challenge_started' | 'challenge_won' | 'personal_record';
+          event_key: string;
+          data: Record<string, unknown>;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          event_type: 'perfect_day' | 'streak_milestone' | 'challenge_started' | 'challenge_won' | 'personal_record';
+          event_key: string;
+          data?: Record<string, unknown>;
+        };
+        Update: {
+          data?: Record<string, unknown>;
+        };
+      };
       daily_scores: {
         Row: {
           id: string;
@@ -118,6 +374,19 @@ export type Database = {
           total_possible_points: number;
           earned_points: number;
           percentage_score: number;
+          task_breakdown: {
+            task_id: string;
+            name: string;
+            task_type: 'duration' | 'boolean' | 'count' | 'avoid';
+            duration_hours: number | null;
+            target_count: number | null;
+            unit: string | null;
+            points: number;
+            scoring_policy: string;
+            value: number;
+            earned_points: number;
+          }[] | null;
+          is_excused: boolean;
           created_at: string;
           updated_at: string;
         };
@@ -135,5 +404,22 @@ export type Database = {
         };
       };
     };
+    Views: {
+      public_profiles: {
+        Row: {
+          id: string;
+          username: string;
+          display_name: string;
+          avatar_url: string | null;
+          bio: string | null;
+          created_at: string;
+          // Null when the user's privacy settings hide them
+          rating: number | null;
+          rated_games: number | null;
+          total_wins: number | null;
+          total_losses: number | null;
+        };
+      };
+    };
   };
 };
\ No newline at end of file
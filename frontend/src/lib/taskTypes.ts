@@ -0,0 +1,78 @@
+export type TaskType = 'duration' | 'boolean' | 'count' | 'avoid';
+
+export type ScoringPolicy = 'linear' | 'all_or_nothing' | 'threshold' | 'diminishing' | 'overtime_bonus';
+
+export interface TaskTypeFields {
+  task_type: TaskType;
+  duration_hours?: number | null;
+  target_count?: number | null;
+  unit?: string | null;
+  scoring_policy?: ScoringPolicy;
+  scoring_threshold?: number | null;
+  overtime_cap?: number | null;
+}
+
+export const TASK_TYPE_OPTIONS: { value: TaskType; label: string }[] = [
+  { value: 'duration', label: 'Hours' },
+  { value: 'boolean', label: 'Done / not done' },
+  { value: 'count', label: 'Count toward a target' },
+  { value: 'avoid', label: 'Habit to avoid' },
+];
+
+export const SCORING_POLICY_OPTIONS: { value: ScoringPolicy; label: string }[] = [
+  { value: 'linear', label: 'In proportion to progress' },
+  { value: 'all_or_nothing', label: 'All or nothing' },
+  { value: 'threshold', label: 'Nothing below a minimum' },
+  { value: 'diminishing', label: 'Diminishing returns' },
+  { value: 'overtime_bonus', label: 'Bonus for going over' },
+];
+
+// Only duration and count tasks have partial progress to score
+export function hasScoringPolicy(taskType: TaskType) {
+  return taskType === 'duration' || taskType === 'count';
+}
+
+export function describeScoringPolicy(task: TaskTypeFields) {
+  if (!hasScoringPolicy(task.task_type)) return null;
+
+  switch (task.scoring_policy) {
+    case 'all_or_nothing':
+      return 'All or nothing';
+    case 'threshold':
+      return `Counts from ${Number(task.scoring_threshold)}%`;
+    case 'diminishing':
+      return 'Diminishing returns';
+    case 'overtime_bonus':
+      return `Up to +${Number(task.overtime_cap)}% bonus`;
+    default:
+      return null;
+  }
+}
+
+// What a task asks for, e.g. "1.5h", "8 glasses"
+export function describeTaskTarget(task: TaskTypeFields) {
+  switch (task.task_type) {
+    case 'boolean':
+      return 'Once';
+    case 'count':
+      return `${Number(task.target_count)}${task.unit ? ` ${task.unit}` : ''}`;
+    case 'avoid':
+      return 'Avoid';
+    default:
+      return `${Number(task.duration_hours)}h`;
+  }
+}
+
+// How far along a task is for a logged value, as a percentage
+export function getTaskProgress(task: TaskTypeFields, value: number) {
+  switch (task.task_type) {
+    case 'boolean':
+      return value >= 1 ? 100 : 0;
+    case 'count':
+      return Math.min((value / Number(task.target_count)) * 100, 100);
+    case 'avoid':
+      return value > 0 ? 0 : 100;
+    default:
+      return Number(task.duration_hours) > 0 ? Math.min((value / Number(task.duration_hours)) * 100, 100) : 0;
+  }
+}
@@ -0,0 +1,366 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../hooks/useAuth.tsx';
+import { apiClient } from '../lib/api';
+import { format, parseISO, subDays } from 'date-fns';
+import { TrendingUp, TrendingDown, Star, Award, Clock, Target } from 'lucide-react';
+import { WEEKDAY_LABELS } from '../lib/recurrence';
+import { TaskType } from '../lib/taskTypes';
+import { TrendChart, TrendPoint } from '../components/TrendChart';
+
+interface AnalyticsSummary {
+  counted_days: number;
+  excused_days: number;
+  perfect_days: number;
+  average: number | null;
+  earned_points: number;
+  hours: number;
+}
+
+interface WeekdayStat {
+  weekday: number;
+  days: number;
+  average: number | null;
+}
+
+interface WeekStat {
+  week_start: string;
+  days: number;
+  average: number | null;
+  earned_points: number;
+  change: number | null;
+}
+
+interface TaskStat {
+  task_id: string;
+  name: string | null;
+  task_type: TaskType | null;
+  hours: number;
+  due_days: number;
+  completed_days: number;
+  completion_rate: number | null;
+  earned_points: number;
+  possible_points: number;
+}
+
+interface AnalyticsData {
+  start: string;
+  end: string;
+  window: number;
+  summary: AnalyticsSummary;
+  trend: TrendPoint[];
+  weekdays: { weekdays: WeekdayStat[]; best: number | null; worst: number | null };
+  weeks: WeekStat[];
+  tasks: TaskStat[];
+}
+
+type RangePreset = '30' | '90' | '365' | 'custom';
+
+const RANGE_OPTIONS: { value: RangePreset; label: string }[] = [
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last year' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+const WINDOW_OPTIONS = [7, 14, 30];
+
+export function Analytics() {
+  const { user } = useAuth();
+  const [preset, setPreset] = useState<RangePreset>('30');
+  const [customStart, setCustomStart] = useState(format(subDays(new Date(), 29), 'yyyy-MM-dd'));
+  const [customEnd, setCustomEnd] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [movingWindow, setMovingWindow] = useState(7);
+  const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    // Presets end on the server's idea of the user's today
+    const range = preset === 'custom'
+      ? { start: customStart, end: customEnd }
+      : { start: format(subDays(new Date(), Number(preset) - 1), 'yyyy-MM-dd') };
+
+    const loadAnalytics = async () => {
+      try {
+        const response = await apiClient.getAnalytics({ ...range, window: movingWindow });
+        setAnalytics(response);
+        setError('');
+      } catch (error) {
+        console.error('Error loading analytics:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load analytics.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAnalytics();
+  }, [user, preset, customStart, customEnd, movingWindow]);
+
+  const formatPercent = (value: number | null) => value === null ? '-' : `${value.toFixed(1)}%`;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const maxWeekdayAverage = Math.max(100, ...(analytics?.weekdays.weekdays.map(w => w.average ?? 0) || []));
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Analytics</h1>
+          <p className="mt-2 text-gray-600">See how your scores and tasks are trending over time.</p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Range</label>
+            <select
+              value={preset}
+              onChange={(e) => setPreset(e.target.value as RangePreset)}
+              className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            >
+              {RANGE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          {preset === 'custom' && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">From</label>
+                <input
+                  type="date"
+                  value={customStart}
+                  max={customEnd}
+                  onChange={(e) => setCustomStart(e.target.value)}
+                  className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">To</label>
+                <input
+                  type="date"
+                  value={customEnd}
+                  min={customStart}
+                  onChange={(e) => setCustomEnd(e.target.value)}
+                  className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                />
+              </div>
+            </>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Moving average</label>
+            <select
+              value={movingWindow}
+              onChange={(e) => setMovingWindow(Number(e.target.value))}
+              className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            >
+              {WINDOW_OPTIONS.map(days => (
+                <option key={days} value={days}>{days} days</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl">{error}</div>
+      )}
+
+      {analytics && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <div className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50">
+              <div className="flex items-center">
+                <div className="w-12 h-12 bg-gradient-to-r from-blue-500 to-blue-600 rounded-xl flex items-center justify-center">
+                  <Target className="h-6 w-6 text-white" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-600">Average Score</p>
+                  <p className="text-2xl font-bold text-gray-900">{formatPercent(analytics.summary.average)}</p>
+                  <p className="text-xs text-gray-500">
+                    Over {analytics.summary.counted_days} days
+                    {analytics.summary.excused_days > 0 && `, ${analytics.summary.excused_days} rest days left out`}
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50">
+              <div className="flex items-center">
+                <div className="w-12 h-12 bg-gradient-to-r from-green-500 to-green-600 rounded-xl flex items-center justify-center">
+                  <Star className="h-6 w-6 text-white" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-600">Perfect Days</p>
+                  <p className="text-2xl font-bold text-gray-900">{analytics.summary.perfect_days}</p>
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50">
+              <div className="flex items-center">
+                <div className="w-12 h-12 bg-gradient-to-r from-purple-500 to-purple-600 rounded-xl flex items-center justify-center">
+                  <Award className="h-6 w-6 text-white" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-600">Points Earned</p>
+                  <p className="text-2xl font-bold text-gray-900">{analytics.summary.earned_points}</p>
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50">
+              <div className="flex items-center">
+                <div className="w-12 h-12 bg-gradient-to-r from-orange-500 to-orange-600 rounded-xl flex items-center justify-center">
+                  <Clock className="h-6 w-6 text-white" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-600">Hours Logged</p>
+                  <p className="text-2xl font-bold text-gray-900">{analytics.summary.hours}h</p>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Trend */}
+          <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-gray-200/50">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Score Trend</h2>
+            </div>
+            <div className="p-6">
+              <TrendChart trend={analytics.trend} window={analytics.window} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {/* Weekdays */}
+            <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-gray-200/50">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-semibold text-gray-900">By Weekday</h2>
+                {analytics.weekdays.best !== null && (
+                  <p className="text-sm text-gray-500">
+                    Best on {WEEKDAY_LABELS[analytics.weekdays.best]}
+                    {analytics.weekdays.worst !== null && `, weakest on ${WEEKDAY_LABELS[analytics.weekdays.worst]}`}
+                  </p>
+                )}
+              </div>
+              <div className="p-6 space-y-3">
+                {analytics.weekdays.weekdays.map(stat => (
+                  <div key={stat.weekday} className="flex items-center text-sm">
+                    <span className="w-10 text-gray-600">{WEEKDAY_LABELS[stat.weekday]}</span>
+                    <div className="flex-1 bg-gray-200 rounded-full h-2 mx-3">
+                      <div
+                        className={`h-2 rounded-full ${
+                          stat.weekday === analytics.weekdays.best
+                            ? 'bg-green-500'
+                            : stat.weekday === analytics.weekdays.worst ? 'bg-red-400' : 'bg-blue-500'
+                        }`}
+                        style={{ width: `${((stat.average ?? 0) / maxWeekdayAverage) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-16 text-right text-gray-900">{formatPercent(stat.average)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Week over week */}
+            <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-gray-200/50">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-semibold text-gray-900">Week over Week</h2>
+              </div>
+              <div className="p-6 overflow-x-auto max-h-96">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-600">Week of</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-600">Average</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-600">Change</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-600">Points</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...analytics.weeks].reverse().map(week => (
+                      <tr key={week.week_start}>
+                        <td className="px-3 py-2 text-gray-600 whitespace-nowrap">{format(parseISO(week.week_start), 'MMM d')}</td>
+                        <td className="px-3 py-2 text-gray-900">{formatPercent(week.average)}</td>
+                        <td className="px-3 py-2">
+                          {week.change === null ? (
+                            <span className="text-gray-400">-</span>
+                          ) : (
+                            <span className={`flex items-center ${week.change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              {week.change >= 0 ? <TrendingUp className="h-4 w-4 mr-1" /> : <TrendingDown className="h-4 w-4 mr-1" />}
+                              {week.change > 0 && '+'}{week.change.toFixed(1)}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-gray-900">{week.earned_points}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+
+          {/* Tasks */}
+          <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-gray-200/50">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Tasks</h2>
+            </div>
+            <div className="p-6 overflow-x-auto">
+              {analytics.tasks.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">No task activity in this range.</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-600">Task</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-600">Completion rate</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-600">Days met</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-600">Hours</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-600">Points</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analytics.tasks.map(task => (
+                      <tr key={task.task_id}>
+                        <td className="px-3 py-2 font-medium text-gray-900">{task.name || 'Deleted task'}</td>
+                        <td className="px-3 py-2">
+                          {task.completion_rate === null ? (
+                            <span className="text-gray-400">Not due</span>
+                          ) : (
+                            <div className="flex items-center">
+                              <div className="w-24 bg-gray-200 rounded-full h-2 mr-2">
+                                <div
+                                  className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full"
+                                  style={{ width: `${task.completion_rate}%` }}
+                                />
+                              </div>
+                              {formatPercent(task.completion_rate)}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-gray-900">{task.completed_days} / {task.due_days}</td>
+                        <td className="px-3 py-2 text-gray-900">{task.task_type === 'duration' || task.hours > 0 ? `${task.hours}h` : '-'}</td>
+                        <td className="px-3 py-2 text-gray-900">{task.earned_points} / {task.possible_points}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,25 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../hooks/useAuth.tsx';
 import { apiClient } from '../lib/api';
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, addMonths, subMonths } from 'date-fns';
-import { ChevronLeft, ChevronRight, Trophy, Target, Calendar as CalendarIcon } from 'lucide-react';
+import { format, parseISO, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, addMonths, subMonths, addDays, subDays } from 'date-fns';
+import { ChevronLeft, ChevronRight, Trophy, Target, Calendar as CalendarIcon, Coffee } from 'lucide-react';
+import { SCORE_BUCKETS, getScoreColor } from '../lib/scoreColors';
+import { YearHeatmap, HeatmapDay } from '../components/YearHeatmap';
+import { DayDetailDrawer } from '../components/DayDetailDrawer';
 
 interface DayScore {
-  date: string;
+  score_date: string;
   percentage_score: number;
   earned_points: number;
   total_possible_points: number;
+  is_excused: boolean;
+}
+
+interface RestPeriod {
+  id: string;
+  start_date: string;
+  end_date: string;
+  reason: string | null;
 }
 
 interface ChallengeResult {
@@ -16,8 +27,28 @@ interface ChallengeResult {
   won: boolean;
   opponent: string;
   challenge_id: string;
+  challenge_type: 'duel' | 'group';
+  rank: number | null;
+  participant_count: number;
+}
+
+interface YearData {
+  start: string;
+  end: string;
+  today: string;
+  days: HeatmapDay[];
+  restPeriods: RestPeriod[];
+  challengeResults: ChallengeResult[];
+  stats: {
+    countedDays: number;
+    averageScore: number;
+    totalWins: number;
+    totalLosses: number;
+  };
 }
 
+type CalendarView = 'month' | 'year';
+
 interface MonthlyStats {
   totalWins: number;
   totalLosses: number;
@@ -30,6 +61,7 @@ export function Calendar() {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [dayScores, setDayScores] = useState<DayScore[]>([]);
   const [challengeResults, setChallengeResults] = useState<ChallengeResult[]>([]);
+  const [restPeriods, setRestPeriods] = useState<RestPeriod[]>([]);
   const [monthlyStats, setMonthlyStats] = useState<MonthlyStats>({
     totalWins: 0,
     totalLosses: 0,
@@ -37,6 +69,11 @@ export function Calendar() {
     bestDay: null,
   });
   const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<CalendarView>('month');
+  // Last day of the year shown in the heatmap; undefined for the year to today
+  const [yearEnd, setYearEnd] = useState<string | undefined>(undefined);
+  const [yearData, setYearData] = useState<YearData | null>(null);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -44,6 +81,21 @@ export function Calendar() {
     }
   }, [user, currentDate]);
 
+  useEffect(() => {
+    if (!user || view !== 'year') return;
+
+    const loadYearData = async () => {
+      try {
+        const response = await apiClient.getCalendarYear(yearEnd);
+        setYearData(response);
+      } catch (error) {
+        console.error('Error loading calendar year:', error);
+      }
+    };
+
+    loadYearData();
+  }, [user, view, yearEnd]);
+
   const loadCalendarData = async () => {
     try {
       const response = await apiClient.getCalendarData(
@@ -53,6 +105,7 @@ export function Calendar() {
       
       setDayScores(response.dayScores || []);
       setChallengeResults(response.challengeResults || []);
+      setRestPeriods(response.restPeriods || []);
       setMonthlyStats(response.monthlyStats);
     } catch (error) {
       console.error('Error loading calendar data:', error);
@@ -71,12 +124,9 @@ export function Calendar() {
     return challengeResults.filter(result => result.date === dateStr);
   };
 
-  const getScoreColor = (score: number) => {
-    if (score >= 90) return 'bg-green-500';
-    if (score >= 75) return 'bg-green-400';
-    if (score >= 60) return 'bg-yellow-400';
-    if (score >= 40) return 'bg-orange-400';
-    return 'bg-red-400';
+  const getRestPeriod = (date: Date) => {
+    const dateStr = format(date, 'yyyy-MM-dd');
+    return restPeriods.find(period => period.start_date <= dateStr && period.end_date >= dateStr);
   };
 
   const monthStart = startOfMonth(currentDate);
@@ -86,6 +136,17 @@ export function Calendar() {
   const previousMonth = () => setCurrentDate(subMonths(currentDate, 1));
   const nextMonth = () => setCurrentDate(addMonths(currentDate, 1));
 
+  const previousYear = () => {
+    if (yearData) setYearEnd(format(subDays(parseISO(yearData.start), 1), 'yyyy-MM-dd'));
+  };
+  const nextYear = () => {
+    if (!yearData) return;
+    const end = format(addDays(parseISO(yearData.end), 365), 'yyyy-MM-dd');
+    setYearEnd(end >= yearData.today ? undefined : end);
+  };
+
+  const openDay = (date: Date) => setSelectedDate(format(date, 'yyyy-MM-dd'));
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -96,193 +157,291 @@ export function Calendar() {
 
   return (
     <div className="space-y-8">
-      <div>
-        <h1 className="text-3xl font-bold text-gray-900">Calendar</h1>
-        <p className="mt-2 text-gray-600">Track your daily progress and challenge results.</p>
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Calendar</h1>
+          <p className="mt-2 text-gray-600">Track your daily progress and challenge results.</p>
+        </div>
+        <div className="inline-flex rounded-xl border border-gray-300 bg-white p-1" role="group" aria-label="Calendar view">
+          {(['month', 'year'] as CalendarView[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setView(option)}
+              aria-pressed={view === option}
+              className={`px-4 py-1.5 text-sm font-medium rounded-lg transition-all ${
+                view === option
+                  ? 'bg-gradient-to-r from-blue-600 to-purple-600 text-white'
+                  : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option === 'month' ? 'Month' : 'Year'}
+            </button>
+          ))}
+        </div>
       </div>
 
-      {/* Monthly Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
-        <div className="bg-white/80 backdrop-blur-md px-4 py-6 rounded-2xl shadow-lg border border-gray-200/50">
-          <div className="flex items-center">
-            <div className="w-12 h-12 bg-gradient-to-r from-green-500 to-green-600 rounded-xl flex items-center justify-center mr-3">
-              <Trophy className="h-6 w-6 text-white" />
-            </div>
-            <div className="ml-2">
-              <p className="text-sm font-medium text-gray-600">Wins This Month</p>
-              <p className="text-2xl font-bold text-gray-900">{monthlyStats.totalWins}</p>
+      {view === 'year' ? (
+        <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-gray-200/50">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">
+                  {yearData
+                    ? `${format(parseISO(yearData.start), 'MMM d, yyyy')} – ${format(parseISO(yearData.end), 'MMM d, yyyy')}`
+                    : 'Year'}
+                </h2>
+                {yearData && (
+                  <p className="text-sm text-gray-500">
+                    {yearData.stats.averageScore.toFixed(1)}% average over {yearData.stats.countedDays} days
+                    {' · '}{yearData.stats.totalWins} wins, {yearData.stats.totalLosses} losses
+                  </p>
+                )}
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  onClick={previousYear}
+                  aria-label="Previous year"
+                  className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+                >
+                  <ChevronLeft className="h-5 w-5" />
+                </button>
+                <button
+                  onClick={nextYear}
+                  aria-label="Next year"
+                  disabled={!yearData || yearData.end >= yearData.today}
+                  className="p-2 text-gray-400 hover:text-gray-600 disabled:opacity-30 disabled:hover:text-gray-400 transition-colors"
+                >
+                  <ChevronRight className="h-5 w-5" />
+                </button>
+              </div>
             </div>
           </div>
-        </div>
-
-        <div className="bg-white/80 backdrop-blur-md px-4 py-6 rounded-2xl shadow-lg border border-gray-200/50">
-          <div className="flex items-center">
-            <div className="w-12 h-12 bg-gradient-to-r from-red-500 to-red-600 rounded-xl flex items-center justify-center mr-3">
-              <Trophy className="h-6 w-6 text-white" />
-            </div>
-            <div className="ml-2">
-              <p className="text-sm font-medium text-gray-600">Losses This Month</p>
-              <p className="text-2xl font-bold text-gray-900">{monthlyStats.totalLosses}</p>
-            </div>
+          <div className="p-6">
+            {yearData ? (
+              <YearHeatmap
+                start={yearData.start}
+                end={yearData.end}
+                today={yearData.today}
+                days={yearData.days}
+                restPeriods={yearData.restPeriods}
+                challengeResults={yearData.challengeResults}
+                onSelectDay={setSelectedDate}
+              />
+            ) : (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            )}
           </div>
         </div>
-
-        <div className="bg-white/80 backdrop-blur-md px-4 py-6 rounded-2xl shadow-lg border border-gray-200/50">
-          <div className="flex items-center">
-            <div className="w-12 h-12 bg-gradient-to-r from-blue-500 to-blue-600 rounded-xl flex items-center justify-center mr-3">
-              <Target className="h-6 w-6 text-white" />
-            </div>
-            <div className="ml-2">
-              <p className="text-sm font-medium text-gray-600">Average Score</p>
-              <p className="text-2xl font-bold text-gray-900">{monthlyStats.averageScore.toFixed(1)}%</p>
+      ) : (
+        <>
+          {/* Monthly Stats */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <div className="bg-white/80 backdrop-blur-md px-4 py-6 rounded-2xl shadow-lg border border-gray-200/50">
+              <div className="flex items-center">
+                <div className="w-12 h-12 bg-gradient-to-r from-green-500 to-green-600 rounded-xl flex items-center justify-center mr-3">
+                  <Trophy className="h-6 w-6 text-white" />
+                </div>
+                <div className="ml-2">
+                  <p className="text-sm font-medium text-gray-600">Wins This Month</p>
+                  <p className="text-2xl font-bold text-gray-900">{monthlyStats.totalWins}</p>
+                </div>
+              </div>
             </div>
-          </div>
-        </div>
 
-        <div className="bg-white/80 backdrop-blur-md px-4 py-6 rounded-2xl shadow-lg border border-gray-200/50">
-          <div className="flex items-center">
-            <div className="w-12 h-12 bg-gradient-to-r from-purple-500 to-purple-600 rounded-xl flex items-center justify-center mr-3">
-              <CalendarIcon className="h-6 w-6 text-white" />
+            <div className="bg-white/80 backdrop-blur-md px-4 py-6 rounded-2xl shadow-lg border border-gray-200/50">
+              <div className="flex items-center">
+                <div className="w-12 h-12 bg-gradient-to-r from-red-500 to-red-600 rounded-xl flex items-center justify-center mr-3">
+                  <Trophy className="h-6 w-6 text-white" />
+                </div>
+                <div className="ml-2">
+                  <p className="text-sm font-medium text-gray-600">Losses This Month</p>
+                  <p className="text-2xl font-bold text-gray-900">{monthlyStats.totalLosses}</p>
+                </div>
+              </div>
             </div>
-            <div className="ml-2">
-              <p className="text-sm font-medium text-gray-600">Best Day</p>
-              <p className="text-lg font-bold text-gray-900">
-                {monthlyStats.bestDay 
-                  ? `${monthlyStats.bestDay.score.toFixed(1)}%`
-                  : 'N/A'
-                }
-              </p>
-              {monthlyStats.bestDay && (
-                <p className="text-xs text-gray-500">
-                  {format(new Date(monthlyStats.bestDay.date), 'MMM d')}
-                </p>
-              )}
+
+            <div className="bg-white/80 backdrop-blur-md px-4 py-6 rounded-2xl shadow-lg border border-gray-200/50">
+              <div className="flex items-center">
+                <div className="w-12 h-12 bg-gradient-to-r from-blue-500 to-blue-600 rounded-xl flex items-center justify-center mr-3">
+                  <Target className="h-6 w-6 text-white" />
+                </div>
+                <div className="ml-2">
+                  <p className="text-sm font-medium text-gray-600">Average Score</p>
+                  <p className="text-2xl font-bold text-gray-900">{monthlyStats.averageScore.toFixed(1)}%</p>
+                </div>
+              </div>
             </div>
-          </div>
-        </div>
-      </div>
 
-      {/* Calendar */}
-      <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-gray-200/50">
-        <div className="px-6 py-4 border-b border-gray-200">
-          <div className="flex items-center justify-between">
-            <h2 className="text-lg font-semibold text-gray-900">
-              {format(currentDate, 'MMMM yyyy')}
-            </h2>
-            <div className="flex space-x-2">
-              <button
-                onClick={previousMonth}
-                className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
-              >
-                <ChevronLeft className="h-5 w-5" />
-              </button>
-              <button
-                onClick={nextMonth}
-                className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
-              >
-                <ChevronRight className="h-5 w-5" />
-              </button>
+            <div className="bg-white/80 backdrop-blur-md px-4 py-6 rounded-2xl shadow-lg border border-gray-200/50">
+              <div className="flex items-center">
+                <div className="w-12 h-12 bg-gradient-to-r from-purple-500 to-purple-600 rounded-xl flex items-center justify-center mr-3">
+                  <CalendarIcon className="h-6 w-6 text-white" />
+                </div>
+                <div className="ml-2">
+                  <p className="text-sm font-medium text-gray-600">Best Day</p>
+                  <p className="text-lg font-bold text-gray-900">
+                    {monthlyStats.bestDay 
+                      ? `${monthlyStats.bestDay.score.toFixed(1)}%`
+                      : 'N/A'
+                    }
+                  </p>
+                  {monthlyStats.bestDay && (
+                    <p className="text-xs text-gray-500">
+                      {format(new Date(monthlyStats.bestDay.date), 'MMM d')}
+                    </p>
+                  )}
+                </div>
+              </div>
             </div>
           </div>
-        </div>
 
-        <div className="p-6">
-          {/* Calendar Header */}
-          <div className="grid grid-cols-7 gap-1 mb-4">
-            {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(day => (
-              <div key={day} className="p-2 text-center text-sm font-medium text-gray-500">
-                {day}
+          {/* Calendar */}
+          <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-gray-200/50">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-900">
+                  {format(currentDate, 'MMMM yyyy')}
+                </h2>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={previousMonth}
+                    className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+                  >
+                    <ChevronLeft className="h-5 w-5" />
+                  </button>
+                  <button
+                    onClick={nextMonth}
+                    className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+                  >
+                    <ChevronRight className="h-5 w-5" />
+                  </button>
+                </div>
               </div>
-            ))}
-          </div>
+            </div>
 
-          {/* Calendar Days */}
-          <div className="grid grid-cols-7 gap-1">
-            {days.map(day => {
-              const dayScore = getDayScore(day);
-              const challengeResults = getDayChallengeResults(day);
-              const isToday = isSameDay(day, new Date());
-
-              return (
-                <div
-                  key={day.toISOString()}
-                  // className={`min-h-[80px] p-2 border border-gray-200 rounded ${
-                  //   !isSameMonth(day, currentDate) ? 'bg-gray-50' : 'bg-white'
-                  // } ${isToday ? 'ring-2 ring-blue-500' : ''}`}
-                  className={`min-h-[80px] p-2 border border-gray-200/50 rounded-lg ${
-                    !isSameMonth(day, currentDate) ? 'bg-gray-50/50' : 'bg-white/50'
-                  } ${isToday ? 'ring-2 ring-gradient-to-r from-blue-500 to-purple-500' : ''}`}
-                >
-                  <div className="flex items-center justify-between mb-1">
-                    <span className={`text-sm ${
-                      !isSameMonth(day, currentDate) ? 'text-gray-400' : 'text-gray-900'
-                    }`}>
-                      {format(day, 'd')}
-                    </span>
-                    {dayScore && (
-                      <div
-                        className={`w-3 h-3 rounded-full ${getScoreColor(dayScore.percentage_score)}`}
-                        title={`Score: ${dayScore.percentage_score.toFixed(1)}%`}
-                      />
-                    )}
+            <div className="p-6">
+              {/* Calendar Header */}
+              <div className="grid grid-cols-7 gap-1 mb-4">
+                {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(day => (
+                  <div key={day} className="p-2 text-center text-sm font-medium text-gray-500">
+                    {day}
                   </div>
+                ))}
+              </div>
 
-                  {/* Challenge Results */}
-                  <div className="space-y-1">
-                    {challengeResults.map((result, index) => (
-                      <div
-                        key={index}
-                        className={`text-xs px-1 py-0.5 rounded ${
-                          result.won 
-                            ? 'bg-green-100 text-green-800' 
-                            : 'bg-red-100 text-red-800'
-                        }`}
-                        title={`${result.won ? 'Won' : 'Lost'} vs ${result.opponent}`}
-                      >
-                        {result.won ? 'W' : 'L'} vs {result.opponent.split(' ')[0]}
+              {/* Calendar Days */}
+              <div className="grid grid-cols-7 gap-1">
+                {days.map(day => {
+                  const dayScore = getDayScore(day);
+                  const challengeResults = getDayChallengeResults(day);
+                  const restPeriod = getRestPeriod(day);
+                  const isToday = isSameDay(day, new Date());
+
+                  return (
+                    <div
+                      key={day.toISOString()}
+                      role="button"
+                      tabIndex={0}
+                      aria-label={`${format(day, 'EEEE, MMMM d')}: show details`}
+                      onClick={() => openDay(day)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' || e.key === ' ') {
+                          e.preventDefault();
+                          openDay(day);
+                        }
+                      }}
+                      // className={`min-h-[80px] p-2 border border-gray-200 rounded ${
+                      //   !isSameMonth(day, currentDate) ? 'bg-gray-50' : 'bg-white'
+                      // } ${isToday ? 'ring-2 ring-blue-500' : ''}`}
+                      className={`min-h-[80px] p-2 border border-gray-200/50 rounded-lg cursor-pointer hover:border-blue-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 transition-colors ${
+                        restPeriod ? 'bg-slate-100' : !isSameMonth(day, currentDate) ? 'bg-gray-50/50' : 'bg-white/50'
+                      } ${isToday ? 'ring-2 ring-gradient-to-r from-blue-500 to-purple-500' : ''}`}
+                    >
+                      <div className="flex items-center justify-between mb-1">
+                        <span className={`text-sm ${
+                          !isSameMonth(day, currentDate) ? 'text-gray-400' : 'text-gray-900'
+                        }`}>
+                          {format(day, 'd')}
+                        </span>
+                        {restPeriod ? (
+                          <span title={restPeriod.reason ? `Rest day: ${restPeriod.reason}` : 'Rest day'}>
+                            <Coffee className="h-3.5 w-3.5 text-slate-500" />
+                          </span>
+                        ) : dayScore && (
+                          <div
+                            className={`w-3 h-3 rounded-full ${getScoreColor(dayScore.percentage_score)}`}
+                            title={`Score: ${dayScore.percentage_score.toFixed(1)}%`}
+                          />
+                        )}
                       </div>
-                    ))}
-                  </div>
 
-                  {/* Score Display */}
-                  {dayScore && (
-                    <div className="mt-1">
-                      <div className="text-xs text-gray-600">
-                        {dayScore.percentage_score.toFixed(0)}%
+                      {/* Challenge Results */}
+                      <div className="space-y-1">
+                        {challengeResults.map((result, index) => (
+                          <div
+                            key={index}
+                            className={`text-xs px-1 py-0.5 rounded ${
+                              result.won 
+                                ? 'bg-green-100 text-green-800' 
+                                : 'bg-red-100 text-red-800'
+                            }`}
+                            title={result.challenge_type === 'group'
+                              ? `Finished #${result.rank} of ${result.participant_count} in ${result.opponent}`
+                              : `${result.won ? 'Won' : 'Lost'} vs ${result.opponent}`}
+                          >
+                            {result.challenge_type === 'group'
+                              ? `#${result.rank} ${result.opponent.split(' ')[0]}`
+                              : `${result.won ? 'W' : 'L'} vs ${result.opponent.split(' ')[0]}`}
+                          </div>
+                        ))}
                       </div>
+
+                      {/* Score Display */}
+                      {dayScore && (
+                        <div className="mt-1">
+                          <div className={`text-xs ${restPeriod ? 'text-slate-400 line-through' : 'text-gray-600'}`}>
+                            {dayScore.percentage_score.toFixed(0)}%
+                          </div>
+                        </div>
+                      )}
                     </div>
-                  )}
-                </div>
-              );
-            })}
+                  );
+                })}
+              </div>
+            </div>
           </div>
-        </div>
-      </div>
+        </>
+      )}
 
       {/* Legend */}
       <div className="bg-white/80 backdrop-blur-md p-4 rounded-2xl shadow-lg border border-gray-200/50">
         <h3 className="text-sm font-medium text-gray-900 mb-2">Legend</h3>
         <div className="flex flex-wrap gap-4 text-xs">
+          {SCORE_BUCKETS.map(bucket => (
+            <div key={bucket.label} className="flex items-center">
+              <div className={`w-3 h-3 rounded-full ${bucket.color} mr-2`}></div>
+              <span>{bucket.label} Score</span>
+            </div>
+          ))}
           <div className="flex items-center">
-            <div className="w-3 h-3 rounded-full bg-green-500 mr-2"></div>
-            <span>90-100% Score</span>
-          </div>
-          <div className="flex items-center">
-            <div className="w-3 h-3 rounded-full bg-green-400 mr-2"></div>
-            <span>75-89% Score</span>
-          </div>
-          <div className="flex items-center">
-            <div className="w-3 h-3 rounded-full bg-yellow-400 mr-2"></div>
-            <span>60-74% Score</span>
-          </div>
-          <div className="flex items-center">
-            <div className="w-3 h-3 rounded-full bg-orange-400 mr-2"></div>
-            <span>40-59% Score</span>
-          </div>
-          <div className="flex items-center">
-            <div className="w-3 h-3 rounded-full bg-red-400 mr-2"></div>
-            <span>0-39% Score</span>
+            <Coffee className="h-3.5 w-3.5 text-slate-500 mr-2" />
+            <span>Rest Day (not counted)</span>
           </div>
+          {view === 'year' && (
+            <>
+              <div className="flex items-center">
+                <div className="w-3 h-3 rounded-sm bg-gray-200 mr-2"></div>
+                <span>Nothing due</span>
+              </div>
+              <div className="flex items-center">
+                <div className="w-3 h-3 rounded-sm bg-white ring-1 ring-purple-500 ring-offset-1 mr-2"></div>
+                <span>Challenge ended</span>
+              </div>
+            </>
+          )}
           <div className="flex items-center">
             <div className="px-2 py-0.5 bg-green-100 text-green-800 rounded mr-2 text-xs">W</div>
             <span>Challenge Win</span>
@@ -293,6 +452,10 @@ export function Calendar() {
           </div>
         </div>
       </div>
+
+      {selectedDate && (
+        <DayDetailDrawer date={selectedDate} onClose={() => setSelectedDate(null)} />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,259 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth.tsx';
+import { apiClient } from '../lib/api';
+import { format } from 'date-fns';
+import { ArrowLeft, Clock, Crown, Medal, Target, Timer } from 'lucide-react';
+import { ChallengeMetric, describeMetric, formatMetricScore } from '../lib/challengeMetrics';
+import { getScoreColor } from '../lib/scoreColors';
+
+interface Challenge {
+  id: string;
+  creator_id: string;
+  challenge_type: 'duel' | 'group';
+  name: string | null;
+  start_date: string;
+  end_date: string;
+  status: 'pending' | 'scheduled' | 'active' | 'completed' | 'declined' | 'cancelled' | 'expired';
+  metric: ChallengeMetric;
+  metric_task_name: string | null;
+  metric_threshold: number | null;
+  max_excused_days: number;
+}
+
+interface Standing {
+  user_id: string;
+  score: number;
+  rank: number;
+}
+
+interface ProgressDay {
+  date: string;
+  excused: boolean;
+  percentage_score: number | null;
+  earned_points: number | null;
+  running_points: number;
+  running_average: number | null;
+}
+
+interface ParticipantProgress {
+  user_id: string;
+  username: string;
+  display_name: string;
+  days: ProgressDay[];
+}
+
+interface ChallengeDetailData {
+  challenge: Challenge;
+  today: string;
+  standings: Standing[];
+  leader: { user_id: string; margin: number } | null;
+  days_remaining: number;
+  participants: ParticipantProgress[];
+}
+
+export function ChallengeDetail() {
+  const { id } = useParams();
+  const { user } = useAuth();
+  const [detail, setDetail] = useState<ChallengeDetailData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadChallenge = useCallback(async () => {
+    try {
+      const response = await apiClient.getChallenge(id as string);
+      setDetail(response);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load challenge.');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (user && id) {
+      loadChallenge();
+    }
+  }, [user, id, loadChallenge]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <div className="space-y-4">
+        <Link to="/challenges" className="inline-flex items-center text-sm text-blue-600 hover:text-blue-500">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to challenges
+        </Link>
+        <p className="text-gray-500">{error || 'Challenge not found.'}</p>
+      </div>
+    );
+  }
+
+  const { challenge, standings, leader, participants } = detail;
+  const nameOf = (userId: string) => {
+    if (userId === user?.id) return 'You';
+    return participants.find(p => p.user_id === userId)?.display_name || 'Unknown';
+  };
+  const title = challenge.challenge_type === 'group'
+    ? challenge.name || 'Group challenge'
+    : participants.map(p => nameOf(p.user_id)).join(' vs ');
+  const myStanding = standings.find(s => s.user_id === user?.id);
+  const dates = participants[0]?.days.map(day => day.date) || [];
+  // Show the running figure that matters for the metric
+  const showsPoints = challenge.metric === 'total_points';
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <Link to="/challenges" className="inline-flex items-center text-sm text-blue-600 hover:text-blue-500">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to challenges
+        </Link>
+        <h1 className="mt-2 text-3xl font-bold text-gray-900">{title}</h1>
+        <div className="mt-2 flex flex-wrap items-center gap-4 text-sm text-gray-600">
+          <span className="flex items-center">
+            <Clock className="h-4 w-4 mr-1" />
+            {format(new Date(challenge.start_date), 'MMM d')} - {format(new Date(challenge.end_date), 'MMM d, yyyy')}
+          </span>
+          <span className="flex items-center">
+            <Target className="h-4 w-4 mr-1" />
+            {describeMetric(challenge)}
+          </span>
+          <span>
+            {challenge.max_excused_days === 0
+              ? 'No rest days'
+              : `Up to ${challenge.max_excused_days} rest ${challenge.max_excused_days === 1 ? 'day' : 'days'} each`}
+          </span>
+          <span className="capitalize">{challenge.status}</span>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50">
+          <div className="flex items-center">
+            <div className="flex-shrink-0">
+              <div className="w-12 h-12 bg-gradient-to-r from-yellow-500 to-yellow-600 rounded-xl flex items-center justify-center">
+                <Crown className="h-6 w-6 text-white" />
+              </div>
+            </div>
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">
+                {challenge.status === 'completed' ? 'Winner' : 'Leader'}
+              </p>
+              <p className="text-2xl font-bold text-gray-900">
+                {leader ? nameOf(leader.user_id) : standings.length > 0 ? 'Tied' : '-'}
+              </p>
+              {leader && standings.length > 1 && (
+                <p className="text-sm text-gray-500">
+                  by {formatMetricScore(challenge.metric, leader.margin)}
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50">
+          <div className="flex items-center">
+            <div className="flex-shrink-0">
+              <div className="w-12 h-12 bg-gradient-to-r from-blue-500 to-blue-600 rounded-xl flex items-center justify-center">
+                <Timer className="h-6 w-6 text-white" />
+              </div>
+            </div>
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Days Remaining</p>
+              <p className="text-2xl font-bold text-gray-900">{detail.days_remaining}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50">
+          <div className="flex items-center">
+            <div className="flex-shrink-0">
+              <div className="w-12 h-12 bg-gradient-to-r from-purple-500 to-purple-600 rounded-xl flex items-center justify-center">
+                <Medal className="h-6 w-6 text-white" />
+              </div>
+            </div>
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Your Position</p>
+              <p className="text-2xl font-bold text-gray-900">
+                {myStanding ? `#${myStanding.rank} of ${standings.length}` : '-'}
+              </p>
+              {myStanding && (
+                <p className="text-sm text-gray-500">{formatMetricScore(challenge.metric, myStanding.score)}</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Day by day */}
+      <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-gray-200/50">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Day by Day</h2>
+          <p className="text-sm text-gray-500">
+            Daily score, with the running {showsPoints ? 'points total' : 'average'} underneath.
+          </p>
+        </div>
+        <div className="p-6 overflow-x-auto">
+          {dates.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">
+              Daily scores show up here once the challenge has started.
+            </p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-600">Date</th>
+                  {standings.map(standing => (
+                    <th key={standing.user_id} className="px-3 py-2 text-left font-medium text-gray-600 whitespace-nowrap">
+                      #{standing.rank} {nameOf(standing.user_id)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {dates.map((date, index) => (
+                  <tr key={date} className={date === detail.today ? 'bg-blue-50' : ''}>
+                    <td className="px-3 py-2 text-gray-600 whitespace-nowrap">{format(new Date(date), 'EEE, MMM d')}</td>
+                    {standings.map(standing => {
+                      const day = participants.find(p => p.user_id === standing.user_id)?.days[index];
+                      if (!day) return <td key={standing.user_id} />;
+                      return (
+                        <td key={standing.user_id} className="px-3 py-2">
+                          {day.excused ? (
+                            <span className="text-slate-500">Rest day</span>
+                          ) : day.percentage_score === null ? (
+                            <span className="text-gray-400">Nothing due</span>
+                          ) : (
+                            <span className="flex items-center">
+                              <span className={`w-3 h-3 rounded-full mr-2 ${getScoreColor(day.percentage_score)}`} />
+                              {day.percentage_score.toFixed(1)}%
+                            </span>
+                          )}
+                          <span className="block text-xs text-gray-500">
+                            {showsPoints
+                              ? `${day.running_points} pts`
+                              : day.running_average === null ? '-' : `avg ${day.running_average.toFixed(1)}%`}
+                          </span>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
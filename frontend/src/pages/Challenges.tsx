@@ -1,37 +1,104 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useAuth } from '../hooks/useAuth.tsx';
 import { apiClient } from '../lib/api';
+import { Link } from 'react-router-dom';
 import { format } from 'date-fns';
-import { Trophy, Clock, User, Plus, Check, X } from 'lucide-react';
+import { Trophy, Clock, User, Users, Plus, Check, X, Play, Medal, Target, BarChart3 } from 'lucide-react';
+import {
+  ChallengeMetric,
+  METRIC_OPTIONS,
+  describeMetric,
+  formatMetricScore,
+} from '../lib/challengeMetrics';
+import { Avatar } from '../components/Avatar';
+
+interface ChallengeParticipant {
+  user_id: string;
+  status: 'invited' | 'accepted' | 'declined';
+  rank: number | null;
+  final_score: number | null;
+  profile: {
+    username: string;
+    display_name: string;
+    avatar_url: string | null;
+  };
+}
 
 interface Challenge {
   id: string;
   creator_id: string;
-  challenger_id: string;
+  challenger_id: string | null;
+  challenge_type: 'duel' | 'group';
+  name: string | null;
   start_date: string;
   end_date: string;
-  status: 'pending' | 'active' | 'completed' | 'cancelled' | 'rejected';
+  status: 'pending' | 'scheduled' | 'active' | 'completed' | 'declined' | 'cancelled' | 'expired';
+  scheduled_start_date: string | null;
+  duration_type: 'day' | 'week' | 'month' | 'year';
+  duration_count: number;
   winner_id: string | null;
+  metric: ChallengeMetric;
+  metric_task_name: string | null;
+  metric_threshold: number | null;
+  max_excused_days: number;
   creator_profile: {
     username: string;
     display_name: string;
+    avatar_url: string | null;
   };
   challenger_profile: {
     username: string;
     display_name: string;
-  };
+    avatar_url: string | null;
+  } | null;
+  participants: ChallengeParticipant[];
+}
+
+interface Standing {
+  user_id: string;
+  username: string;
+  display_name: string;
+  score: number;
+  rank: number;
 }
 
 interface ChallengeForm {
+  challenge_type: 'duel' | 'group';
   challenger_username: string;
+  name: string;
   duration_type: 'day' | 'week' | 'month' | 'year';
   duration_count: number;
+  start_date: string;
+  max_excused_days: number;
+  metric: ChallengeMetric;
+  metric_task_name: string;
+  metric_threshold: number;
 }
 
+// Group challenges are for 3 to 30 people, creator included
+const MIN_GROUP_INVITEES = 2;
+const MAX_GROUP_INVITEES = 29;
+
+const emptyForm: ChallengeForm = {
+  challenge_type: 'duel',
+  challenger_username: '',
+  name: '',
+  duration_type: 'day',
+  duration_count: 1,
+  start_date: '',
+  max_excused_days: 2,
+  metric: 'average_percentage',
+  metric_task_name: '',
+  metric_threshold: 80,
+};
+
 interface UserSuggestion {
   id: string;
   username: string;
   display_name: string;
+  avatar_url: string | null;
+  friendship: 'friends' | 'incoming' | 'outgoing' | null;
+  can_challenge: boolean;
 }
 
 export function Challenges() {
@@ -39,17 +106,15 @@ export function Challenges() {
   const [challenges, setChallenges] = useState<Challenge[]>([]);
   const [showForm, setShowForm] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [formData, setFormData] = useState<ChallengeForm>({
-    challenger_username: '',
-    duration_type: 'day',
-    duration_count: 1,
-  });
+  const [formData, setFormData] = useState<ChallengeForm>(emptyForm);
   const [userSuggestions, setUserSuggestions] = useState<UserSuggestion[]>([]);
   const [selectedUser, setSelectedUser] = useState<UserSuggestion | null>(null);
+  const [groupInvitees, setGroupInvitees] = useState<UserSuggestion[]>([]);
   const [suggestionOpen, setSuggestionOpen] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const suggestionRef = useRef<HTMLDivElement>(null);
   const [searchLoading, setSearchLoading] = useState(false);
+  const [standings, setStandings] = useState<Record<string, Standing[]>>({});
 
   useEffect(() => {
     if (user) {
@@ -81,10 +146,11 @@ export function Challenges() {
     const handler = setTimeout(async () => {
       try {
         const res = await apiClient.searchUsers(formData.challenger_username.trim());
-        const suggestions = (res.users || []).slice(0, 5);
+        // The search ranks friends first
+        const suggestions: UserSuggestion[] = (res.users || []).slice(0, 5);
         setUserSuggestions(suggestions);
         // If autofilled, select if exact match
-        const exact = suggestions.find(u => u.username === formData.challenger_username.trim());
+        const exact = suggestions.find(u => u.username === formData.challenger_username.trim() && u.can_challenge);
         setSelectedUser(exact || null);
       } catch {
         setUserSuggestions([]);
@@ -124,18 +190,60 @@ export function Challenges() {
     setLoading(false);
   };
 
+  const isGroupForm = formData.challenge_type === 'group';
+  const canSubmit = (isGroupForm ? groupInvitees.length >= MIN_GROUP_INVITEES : !!selectedUser) &&
+    (formData.metric !== 'task_hours' || !!formData.metric_task_name.trim());
+
+  const pickSuggestion = (u: UserSuggestion) => {
+    if (!u.can_challenge) return;
+
+    if (isGroupForm) {
+      setGroupInvitees(prev =>
+        prev.some(invitee => invitee.id === u.id) || prev.length >= MAX_GROUP_INVITEES ? prev : [...prev, u]
+      );
+      setFormData(prev => ({ ...prev, challenger_username: '' }));
+    } else {
+      setFormData(prev => ({ ...prev, challenger_username: u.username }));
+      setSelectedUser(u);
+    }
+    setSuggestionOpen(false);
+  };
+
   const createChallenge = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedUser) return;
+    if (!canSubmit) return;
+    const metricSettings = {
+      metric: formData.metric,
+      metric_task_name: formData.metric === 'task_hours' ? formData.metric_task_name : null,
+      metric_threshold: formData.metric === 'streak' ? formData.metric_threshold : null,
+    };
     try {
-      await apiClient.createChallenge(formData);
+      await apiClient.createChallenge(
+        isGroupForm
+          ? {
+              challenge_type: 'group',
+              name: formData.name,
+              usernames: groupInvitees.map(u => u.username),
+              duration_type: formData.duration_type,
+              duration_count: formData.duration_count,
+              start_date: formData.start_date || undefined,
+              max_excused_days: formData.max_excused_days,
+              ...metricSettings,
+            }
+          : {
+              challenge_type: 'duel',
+              challenger_username: formData.challenger_username,
+              duration_type: formData.duration_type,
+              duration_count: formData.duration_count,
+              start_date: formData.start_date || undefined,
+              max_excused_days: formData.max_excused_days,
+              ...metricSettings,
+            }
+      );
       setShowForm(false);
-      setFormData({
-        challenger_username: '',
-        duration_type: 'day',
-        duration_count: 1,
-      });
+      setFormData(emptyForm);
       setSelectedUser(null);
+      setGroupInvitees([]);
       setUserSuggestions([]);
       loadChallenges();
     } catch (error: unknown) {
@@ -157,7 +265,36 @@ export function Challenges() {
     }
   };
 
-  // Cancel challenge (creator only, pending only)
+  // Start a group challenge without waiting for everyone (creator only)
+  const startChallenge = async (challengeId: string) => {
+    if (!window.confirm('Start now? Anyone who has not answered yet will miss out.')) return;
+    try {
+      await apiClient.startChallenge(challengeId);
+      loadChallenges();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to start challenge.');
+    }
+  };
+
+  // Show or hide the live standings of a challenge
+  const toggleStandings = async (challengeId: string) => {
+    if (standings[challengeId]) {
+      setStandings(prev => {
+        const next = { ...prev };
+        delete next[challengeId];
+        return next;
+      });
+      return;
+    }
+    try {
+      const response = await apiClient.getChallengeStandings(challengeId);
+      setStandings(prev => ({ ...prev, [challengeId]: response.standings || [] }));
+    } catch (error) {
+      console.error('Error loading standings:', error);
+    }
+  };
+
+  // Cancel challenge (creator only, before it starts)
   const cancelChallenge = async (challengeId: string) => {
     if (!window.confirm('Are you sure you want to cancel this challenge?')) return;
     try {
@@ -171,23 +308,62 @@ export function Challenges() {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending': return 'bg-yellow-100 text-yellow-800';
+      case 'scheduled': return 'bg-purple-100 text-purple-800';
       case 'active': return 'bg-green-100 text-green-800';
       case 'completed': return 'bg-blue-100 text-blue-800';
       case 'cancelled': return 'bg-red-100 text-red-800';
-      case 'rejected': return 'bg-gray-100 text-gray-800';
+      case 'declined': return 'bg-gray-100 text-gray-800';
+      case 'expired': return 'bg-gray-100 text-gray-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
 
   const getWinnerDisplay = (challenge: Challenge) => {
     if (!challenge.winner_id) return 'Tie';
-    if (challenge.winner_id === challenge.creator_id) {
-      return challenge.creator_profile.display_name;
-    } else {
-      return challenge.challenger_profile.display_name;
+    const winner = challenge.participants.find(p => p.user_id === challenge.winner_id);
+    return winner?.profile.display_name || 'Unknown';
+  };
+
+  // Until it's accepted, a challenge without a chosen start date has no dates yet
+  const getDateRange = (challenge: Challenge) => {
+    if (challenge.status === 'pending' && !challenge.scheduled_start_date) {
+      const unit = challenge.duration_count === 1 ? challenge.duration_type : `${challenge.duration_type}s`;
+      return `${challenge.duration_count} ${unit} from acceptance`;
+    }
+    return `${format(new Date(challenge.start_date), 'MMM d')} - ${format(new Date(challenge.end_date), 'MMM d, yyyy')}`;
+  };
+
+  const getChallengeTitle = (challenge: Challenge) => {
+    if (challenge.challenge_type === 'group') {
+      return challenge.name || 'Group challenge';
+    }
+    return challenge.creator_id === user?.id
+      ? `You vs ${challenge.challenger_profile?.display_name}`
+      : `${challenge.creator_profile.display_name} vs You`;
+  };
+
+  const getOpponentProfile = (challenge: Challenge) =>
+    challenge.creator_id === user?.id ? challenge.challenger_profile : challenge.creator_profile;
+
+  const getPodium = (challenge: Challenge) =>
+    challenge.participants
+      .filter(p => p.rank !== null && p.rank <= 3)
+      .sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0));
+
+  const getParticipantStatusColor = (status: ChallengeParticipant['status']) => {
+    switch (status) {
+      case 'accepted': return 'bg-green-50 text-green-700';
+      case 'declined': return 'bg-gray-100 text-gray-500 line-through';
+      default: return 'bg-yellow-50 text-yellow-700';
     }
   };
 
+  const getMedalColor = (rank: number) => {
+    if (rank === 1) return 'text-yellow-500';
+    if (rank === 2) return 'text-gray-400';
+    return 'text-orange-500';
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -217,9 +393,48 @@ export function Challenges() {
         <div className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50">
           <h2 className="text-lg font-semibold text-gray-900 mb-4">Create New Challenge</h2>
           <form onSubmit={createChallenge} className="space-y-4" autoComplete="off">
+            <div className="flex space-x-2">
+              {(['duel', 'group'] as const).map(type => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => {
+                    setFormData(prev => ({ ...prev, challenge_type: type, challenger_username: '' }));
+                    setSelectedUser(null);
+                    setGroupInvitees([]);
+                  }}
+                  className={`inline-flex items-center px-4 py-2 text-sm font-medium rounded-xl transition-all ${
+                    formData.challenge_type === type
+                      ? 'bg-gradient-to-r from-blue-500 to-purple-500 text-white shadow-lg'
+                      : 'text-gray-600 bg-white border border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  {type === 'duel' ? <User className="h-4 w-4 mr-2" /> : <Users className="h-4 w-4 mr-2" />}
+                  {type === 'duel' ? '1v1' : 'Group'}
+                </button>
+              ))}
+            </div>
+
+            {isGroupForm && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Challenge Name
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={e => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., Office Step-Up"
+                  className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                />
+              </div>
+            )}
+
             <div className="relative">
               <label className="block text-sm font-medium text-gray-700">
-                Challenger Username
+                {isGroupForm
+                  ? `Invite Participants (${groupInvitees.length}/${MAX_GROUP_INVITEES})`
+                  : 'Challenger Username'}
               </label>
               <input
                 ref={inputRef}
@@ -231,9 +446,9 @@ export function Challenges() {
                   setSelectedUser(null);
                 }}
                 onFocus={() => setSuggestionOpen(true)}
-                placeholder="Enter username to challenge"
+                placeholder={isGroupForm ? 'Search users to invite' : 'Enter username to challenge'}
                 className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                required
+                required={!isGroupForm}
                 autoComplete="off"
               />
               {suggestionOpen && userSuggestions.length > 0 && (
@@ -241,21 +456,96 @@ export function Challenges() {
                   {userSuggestions.map((u: UserSuggestion) => (
                     <div
                       key={u.id}
-                      className={`px-4 py-2 cursor-pointer hover:bg-blue-100 ${selectedUser?.username === u.username ? 'bg-blue-50' : ''}`}
-                      onClick={() => {
-                        setFormData(prev => ({ ...prev, challenger_username: u.username }));
-                        setSelectedUser(u);
-                        setSuggestionOpen(false);
-                      }}
+                      className={`flex items-center px-4 py-2 ${
+                        u.can_challenge ? 'cursor-pointer hover:bg-blue-100' : 'cursor-not-allowed opacity-50'
+                      } ${selectedUser?.username === u.username ? 'bg-blue-50' : ''}`}
+                      onClick={() => pickSuggestion(u)}
+                      aria-disabled={!u.can_challenge}
                     >
-                      <span className="font-medium">{u.display_name}</span> <span className="text-gray-500">@{u.username}</span>
+                      <span className="mr-2"><Avatar url={u.avatar_url} name={u.display_name} size="xs" /></span>
+                      <span className="font-medium">{u.display_name}</span>&nbsp;<span className="text-gray-500">@{u.username}</span>
+                      {u.friendship === 'friends' && (
+                        <span className="ml-2 px-1.5 py-0.5 text-xs bg-green-50 text-green-700 rounded-full">Friend</span>
+                      )}
+                      {!u.can_challenge && (
+                        <span className="ml-2 text-xs text-gray-500">Not accepting challenges</span>
+                      )}
                     </div>
                   ))}
                 </div>
               )}
               {searchLoading && <div className="absolute right-2 top-10 text-xs text-gray-400">Searching...</div>}
+              {isGroupForm && groupInvitees.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {groupInvitees.map(invitee => (
+                    <span key={invitee.id} className="inline-flex items-center px-2 py-1 text-xs bg-blue-50 text-blue-700 rounded-full">
+                      @{invitee.username}
+                      <button
+                        type="button"
+                        onClick={() => setGroupInvitees(prev => prev.filter(u => u.id !== invitee.id))}
+                        className="ml-1 text-blue-400 hover:text-blue-700"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              {isGroupForm && groupInvitees.length < MIN_GROUP_INVITEES && (
+                <p className="mt-1 text-xs text-gray-500">Invite at least {MIN_GROUP_INVITEES} people.</p>
+              )}
             </div>
             
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Win By
+              </label>
+              <select
+                value={formData.metric}
+                onChange={(e) => setFormData(prev => ({ ...prev, metric: e.target.value as ChallengeMetric }))}
+                className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+              >
+                {METRIC_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {formData.metric === 'task_hours' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Task Name
+                </label>
+                <input
+                  type="text"
+                  value={formData.metric_task_name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, metric_task_name: e.target.value }))}
+                  placeholder="e.g., Study"
+                  className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                  required
+                />
+                <p className="mt-1 text-xs text-gray-500">Everyone's hours on their own task with this name count.</p>
+              </div>
+            )}
+
+            {formData.metric === 'streak' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Streak Threshold (%)
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={formData.metric_threshold}
+                  onChange={(e) => setFormData(prev => ({ ...prev, metric_threshold: parseInt(e.target.value) }))}
+                  className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                  required
+                />
+                <p className="mt-1 text-xs text-gray-500">Days scoring at least this much keep a streak going.</p>
+              </div>
+            )}
+
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700">
@@ -288,6 +578,37 @@ export function Challenges() {
               </div>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Start Date
+                </label>
+                <input
+                  type="date"
+                  value={formData.start_date}
+                  min={format(new Date(), 'yyyy-MM-dd')}
+                  onChange={(e) => setFormData(prev => ({ ...prev, start_date: e.target.value }))}
+                  className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                />
+                <p className="mt-1 text-xs text-gray-500">Leave empty to start the day the challenge is accepted.</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Rest Days Allowed
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="30"
+                  value={formData.max_excused_days}
+                  onChange={(e) => setFormData(prev => ({ ...prev, max_excused_days: parseInt(e.target.value) || 0 }))}
+                  className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                />
+                <p className="mt-1 text-xs text-gray-500">Rest days each person can leave out. Any more count like normal days.</p>
+              </div>
+            </div>
+
             <div className="flex justify-end space-x-3">
               <button
                 type="button"
@@ -296,7 +617,7 @@ export function Challenges() {
               >
                 Cancel
               </button>
-              {selectedUser && (
+              {canSubmit && (
                 <button
                   type="submit"
                   className="px-6 py-3 border border-transparent rounded-xl shadow-sm text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 transition-all"
@@ -321,71 +642,178 @@ export function Challenges() {
             </p>
           ) : (
             <div className="space-y-4">
-              {challenges.map((challenge) => (
-                <div key={challenge.id} className="border border-gray-200/50 rounded-xl p-4 bg-gray-50/50">
-                  <div className="flex items-center justify-between mb-4">
-                    <div className="flex items-center space-x-4">
-                      <div className="flex items-center space-x-2">
-                        <User className="h-4 w-4 text-gray-400" />
-                        <span className="font-medium">
-                          {challenge.creator_id === user?.id 
-                            ? `You vs ${challenge.challenger_profile.display_name}`
-                            : `${challenge.creator_profile.display_name} vs You`
-                          }
+              {challenges.map((challenge) => {
+                const myParticipation = challenge.participants.find(p => p.user_id === user?.id);
+                const acceptedCount = challenge.participants.filter(p => p.status === 'accepted').length;
+
+                return (
+                  <div key={challenge.id} className="border border-gray-200/50 rounded-xl p-4 bg-gray-50/50">
+                    <div className="flex items-center justify-between mb-4">
+                      <div className="flex items-center space-x-4">
+                        <div className="flex items-center space-x-2">
+                          {challenge.challenge_type === 'group'
+                            ? <Users className="h-4 w-4 text-gray-400" />
+                            : (
+                              <Avatar
+                                url={getOpponentProfile(challenge)?.avatar_url}
+                                name={getOpponentProfile(challenge)?.display_name || ''}
+                                size="xs"
+                              />
+                            )}
+                          {challenge.status === 'active' || challenge.status === 'completed' ? (
+                            <Link to={`/challenges/${challenge.id}`} className="font-medium hover:text-blue-600">
+                              {getChallengeTitle(challenge)}
+                            </Link>
+                          ) : (
+                            <span className="font-medium">{getChallengeTitle(challenge)}</span>
+                          )}
+                        </div>
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(challenge.status)}`}>
+                          {challenge.status.charAt(0).toUpperCase() + challenge.status.slice(1)}
                         </span>
                       </div>
-                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(challenge.status)}`}>
-                        {challenge.status.charAt(0).toUpperCase() + challenge.status.slice(1)}
-                      </span>
+                      {/* Start/Cancel buttons for creator until it starts */}
+                      {(challenge.status === 'pending' || challenge.status === 'scheduled') && challenge.creator_id === user?.id && (
+                        <div className="flex space-x-2">
+                          {challenge.status === 'pending' && challenge.challenge_type === 'group' && acceptedCount >= 2 && (
+                            <button
+                              onClick={() => startChallenge(challenge.id)}
+                              className="inline-flex items-center px-3 py-2 border border-transparent text-xs font-medium rounded-lg text-white bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 transition-all"
+                            >
+                              <Play className="h-3 w-3 mr-1" />
+                              Start Now
+                            </button>
+                          )}
+                          <button
+                            onClick={() => cancelChallenge(challenge.id)}
+                            className="inline-flex items-center px-3 py-2 border border-transparent text-xs font-medium rounded-lg text-white bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 transition-all"
+                          >
+                            <X className="h-3 w-3 mr-1" />
+                            Cancel
+                          </button>
+                        </div>
+                      )}
+                      {/* Accept/Decline for invitees if pending */}
+                      {challenge.status === 'pending' && myParticipation?.status === 'invited' && (
+                        <div className="flex space-x-2">
+                          <button
+                            onClick={() => respondToChallenge(challenge.id, true)}
+                            className="inline-flex items-center px-3 py-2 border border-transparent text-xs font-medium rounded-lg text-white bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 transition-all"
+                          >
+                            <Check className="h-3 w-3 mr-1" />
+                            Accept
+                          </button>
+                          <button
+                            onClick={() => respondToChallenge(challenge.id, false)}
+                            className="inline-flex items-center px-3 py-2 border border-transparent text-xs font-medium rounded-lg text-white bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 transition-all"
+                          >
+                            <X className="h-3 w-3 mr-1" />
+                            Decline
+                          </button>
+                        </div>
+                      )}
                     </div>
-                    {/* Cancel button for creator if pending */}
-                    {challenge.status === 'pending' && challenge.creator_id === user?.id && (
-                      <button
-                        onClick={() => cancelChallenge(challenge.id)}
-                        className="inline-flex items-center px-3 py-2 border border-transparent text-xs font-medium rounded-lg text-white bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 transition-all"
-                      >
-                        <X className="h-3 w-3 mr-1" />
-                        Cancel
-                      </button>
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm text-gray-600">
+                      <div className="flex items-center">
+                        <Clock className="h-4 w-4 mr-1" />
+                        <span>{getDateRange(challenge)}</span>
+                      </div>
+
+                      <div className="flex items-center">
+                        <Target className="h-4 w-4 mr-1" />
+                        <span>{describeMetric(challenge)}</span>
+                      </div>
+                    
+                      {challenge.status === 'completed' && challenge.challenge_type === 'duel' && (
+                        <div className="flex items-center">
+                          <Trophy className="h-4 w-4 mr-1" />
+                          <span>Winner: {getWinnerDisplay(challenge)}</span>
+                        </div>
+                      )}
+
+                      {challenge.challenge_type === 'group' && (
+                        <div className="flex items-center">
+                          <Users className="h-4 w-4 mr-1" />
+                          <span>{acceptedCount} of {challenge.participants.length} in</span>
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Group participants, or the podium once it's over */}
+                    {challenge.challenge_type === 'group' && challenge.status === 'completed' && (
+                      <div className="mt-4 flex flex-wrap gap-4">
+                        {getPodium(challenge).map(p => (
+                          <div key={p.user_id} className="flex items-center px-3 py-2 bg-white rounded-xl border border-gray-200/50 text-sm">
+                            <Medal className={`h-4 w-4 mr-2 ${getMedalColor(p.rank ?? 3)}`} />
+                            <span className="mr-2"><Avatar url={p.profile.avatar_url} name={p.profile.display_name} size="xs" /></span>
+                            <span className="font-medium">{p.user_id === user?.id ? 'You' : p.profile.display_name}</span>
+                            {p.final_score !== null && (
+                              <span className="ml-2 text-gray-500">{formatMetricScore(challenge.metric, Number(p.final_score))}</span>
+                            )}
+                          </div>
+                        ))}
+                        {myParticipation?.rank && myParticipation.rank > 3 && (
+                          <div className="flex items-center px-3 py-2 text-sm text-gray-600">
+                            You finished #{myParticipation.rank} of {acceptedCount}
+                          </div>
+                        )}
+                      </div>
                     )}
-                    {/* Accept/Decline for challenger if pending */}
-                    {challenge.status === 'pending' && challenge.challenger_id === user?.id && (
-                      <div className="flex space-x-2">
+                    {challenge.challenge_type === 'group' && challenge.status !== 'completed' && (
+                      <div className="mt-4 flex flex-wrap gap-2">
+                        {challenge.participants.map(p => (
+                          <span
+                            key={p.user_id}
+                            className={`inline-flex items-center pl-1 pr-2 py-1 text-xs rounded-full ${getParticipantStatusColor(p.status)}`}
+                            title={p.status}
+                          >
+                            <span className="mr-1"><Avatar url={p.profile.avatar_url} name={p.profile.display_name} size="xs" /></span>
+                            {p.user_id === user?.id ? 'You' : p.profile.display_name}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+
+                    {/* Live standings by the challenge's metric */}
+                    {challenge.status === 'active' && (
+                      <div className="mt-4">
                         <button
-                          onClick={() => respondToChallenge(challenge.id, true)}
-                          className="inline-flex items-center px-3 py-2 border border-transparent text-xs font-medium rounded-lg text-white bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 transition-all"
+                          onClick={() => toggleStandings(challenge.id)}
+                          className="inline-flex items-center text-sm text-blue-600 hover:text-blue-500"
                         >
-                          <Check className="h-3 w-3 mr-1" />
-                          Accept
+                          <BarChart3 className="h-4 w-4 mr-1" />
+                          {standings[challenge.id] ? 'Hide standings' : 'Show standings'}
                         </button>
-                        <button
-                          onClick={() => respondToChallenge(challenge.id, false)}
-                          className="inline-flex items-center px-3 py-2 border border-transparent text-xs font-medium rounded-lg text-white bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 transition-all"
+                        <Link
+                          to={`/challenges/${challenge.id}`}
+                          className="ml-4 text-sm text-blue-600 hover:text-blue-500"
                         >
-                          <X className="h-3 w-3 mr-1" />
-                          Decline
-                        </button>
+                          Day-by-day view
+                        </Link>
+                        {standings[challenge.id] && (
+                          <ol className="mt-2 space-y-1">
+                            {standings[challenge.id].map(standing => (
+                              <li
+                                key={standing.user_id}
+                                className={`flex items-center justify-between px-3 py-2 rounded-lg text-sm ${
+                                  standing.user_id === user?.id ? 'bg-blue-50' : 'bg-white'
+                                }`}
+                              >
+                                <span>
+                                  <span className="text-gray-500 mr-2">#{standing.rank}</span>
+                                  <span className="font-medium">{standing.user_id === user?.id ? 'You' : standing.display_name}</span>
+                                </span>
+                                <span className="text-gray-600">{formatMetricScore(challenge.metric, standing.score)}</span>
+                              </li>
+                            ))}
+                          </ol>
+                        )}
                       </div>
                     )}
                   </div>
-
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm text-gray-600">
-                    <div className="flex items-center">
-                      <Clock className="h-4 w-4 mr-1" />
-                      <span>
-                        {format(new Date(challenge.start_date), 'MMM d')} - {format(new Date(challenge.end_date), 'MMM d, yyyy')}
-                      </span>
-                    </div>
-                    
-                    {challenge.status === 'completed' && (
-                      <div className="flex items-center">
-                        <Trophy className="h-4 w-4 mr-1" />
-                        <span>Winner: {getWinnerDisplay(challenge)}</span>
-                      </div>
-                    )}
-                  </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </div>
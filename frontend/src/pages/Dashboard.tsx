@@ -1,36 +1,53 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../hooks/useAuth.tsx';
 import { apiClient } from '../lib/api';
-import { Target, Trophy, Calendar, TrendingUp } from 'lucide-react';
+import { Target, Trophy, Calendar, TrendingUp, Flame, Snowflake } from 'lucide-react';
+import { TaskTypeFields, describeTaskTarget } from '../lib/taskTypes';
+import { Achievement, describeUnlock, getAchievementIcon } from '../lib/achievements';
+import { ActivityFeed } from '../components/ActivityFeed';
 
 interface DashboardStats {
   todayScore: number;
+  todayExcused: boolean;
   totalWins: number;
   totalLosses: number;
   activeChallenges: number;
   weeklyAverage: number;
+  currentStreak: number;
+  longestStreak: number;
+  streakFreezes: number;
+  streakThreshold: number;
 }
 
-interface TodayTask {
+interface TodayTask extends TaskTypeFields {
   id: string;
   name: string;
-  duration_hours: number;
   points: number;
+  // False for a times-per-week task that doesn't count toward today yet
+  is_due: boolean;
+  value: number;
   completed_duration: number;
   earned_points: number;
   completion_percentage: number;
+  current_streak: number;
 }
 
 export function Dashboard() {
   const { user } = useAuth();
   const [stats, setStats] = useState<DashboardStats>({
     todayScore: 0,
+    todayExcused: false,
     totalWins: 0,
     totalLosses: 0,
     activeChallenges: 0,
     weeklyAverage: 0,
+    currentStreak: 0,
+    longestStreak: 0,
+    streakFreezes: 0,
+    streakThreshold: 80,
   });
   const [todayTasks, setTodayTasks] = useState<TodayTask[]>([]);
+  const [achievements, setAchievements] = useState<Achievement[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -41,9 +58,13 @@ export function Dashboard() {
 
   const loadDashboardData = async () => {
     try {
-      const response = await apiClient.getDashboardData();
+      const [response, achievementsResponse] = await Promise.all([
+        apiClient.getDashboardData(),
+        apiClient.getAchievements(),
+      ]);
       setStats(response.stats);
       setTodayTasks(response.todayTasks);
+      setAchievements(achievementsResponse.achievements || []);
     } catch (error) {
       console.error('Error loading dashboard data:', error);
     } finally {
@@ -51,6 +72,19 @@ export function Dashboard() {
     }
   };
 
+  const getProgressLabel = (task: TodayTask) => {
+    switch (task.task_type) {
+      case 'boolean':
+        return task.value >= 1 ? 'Done' : 'Not done yet';
+      case 'count':
+        return `${task.value} / ${describeTaskTarget(task)}`;
+      case 'avoid':
+        return task.value > 0 ? 'Slipped today' : 'Kept so far';
+      default:
+        return `${task.completed_duration.toFixed(1)}h / ${task.duration_hours}h`;
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -78,6 +112,7 @@ export function Dashboard() {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Today's Score</p>
               <p className="text-2xl font-bold text-gray-900">{stats.todayScore.toFixed(1)}%</p>
+              {stats.todayExcused && <p className="text-xs text-slate-500">Rest day, not counted</p>}
             </div>
           </div>
         </div>
@@ -125,6 +160,71 @@ export function Dashboard() {
         </div>
       </div>
 
+      {/* Streak */}
+      <div className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center">
+            <div className="w-12 h-12 bg-gradient-to-r from-orange-500 to-red-500 rounded-xl flex items-center justify-center">
+              <Flame className="h-6 w-6 text-white" />
+            </div>
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Current Streak</p>
+              <p className="text-2xl font-bold text-gray-900">
+                {stats.currentStreak} {stats.currentStreak === 1 ? 'day' : 'days'}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-8 text-sm text-gray-600">
+            <div>
+              <p className="font-medium">Best</p>
+              <p className="text-lg font-semibold text-gray-900">{stats.longestStreak} days</p>
+            </div>
+            <div>
+              <p className="font-medium">Freezes</p>
+              <p className="flex items-center text-lg font-semibold text-gray-900">
+                <Snowflake className="h-4 w-4 mr-1 text-blue-500" />
+                {stats.streakFreezes}
+              </p>
+            </div>
+            <p className="max-w-xs text-gray-500">
+              Days scoring {stats.streakThreshold}% or more keep your streak going. A week in a row earns a freeze for a missed day.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Achievements */}
+      <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-gray-200/50">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Achievements</h2>
+          <span className="text-sm text-gray-500">
+            {achievements.filter(a => a.unlocked_at).length} / {achievements.length} unlocked
+          </span>
+        </div>
+        <div className="p-6 grid grid-cols-2 md:grid-cols-5 gap-4">
+          {achievements.map((achievement) => {
+            const Icon = getAchievementIcon(achievement.icon);
+            const unlocked = !!achievement.unlocked_at;
+
+            return (
+              <div
+                key={achievement.key}
+                title={describeUnlock(achievement)}
+                className={`flex flex-col items-center text-center rounded-xl p-3 ${unlocked ? '' : 'opacity-40 grayscale'}`}
+              >
+                <div className={`w-12 h-12 rounded-full flex items-center justify-center ${
+                  unlocked ? 'bg-gradient-to-r from-yellow-400 to-orange-500' : 'bg-gray-300'
+                }`}>
+                  <Icon className="h-6 w-6 text-white" />
+                </div>
+                <p className="mt-2 text-sm font-medium text-gray-900">{achievement.name}</p>
+                <p className="text-xs text-gray-500">{achievement.description}</p>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
       {/* Today's Tasks */}
       <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-gray-200/50">
         <div className="px-6 py-4 border-b border-gray-200">
@@ -140,15 +240,25 @@ export function Dashboard() {
               {todayTasks.map((task) => (
                 <div key={task.id} className="border border-gray-200/50 rounded-xl p-4 bg-gray-50/50">
                   <div className="flex items-center justify-between mb-2">
-                    <h3 className="font-medium text-gray-900">{task.name}</h3>
-                    <span className="text-sm text-gray-500">
-                      {task.earned_points.toFixed(1)} / {task.points} points
-                    </span>
+                    <h3 className="flex items-center font-medium text-gray-900">
+                      {task.name}
+                      {task.current_streak > 0 && (
+                        <span className="ml-2 inline-flex items-center text-sm font-normal text-orange-600">
+                          <Flame className="h-4 w-4 mr-0.5" />
+                          {task.current_streak}
+                        </span>
+                      )}
+                    </h3>
+                    {task.is_due ? (
+                      <span className={`text-sm ${task.earned_points < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                        {task.earned_points.toFixed(1)} / {task.points} points
+                      </span>
+                    ) : (
+                      <span className="text-sm text-gray-500">Optional today</span>
+                    )}
                   </div>
                   <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
-                    <span>
-                      {task.completed_duration.toFixed(1)}h / {task.duration_hours}h
-                    </span>
+                    <span>{getProgressLabel(task)}</span>
                     <span>{task.completion_percentage.toFixed(1)}% complete</span>
                   </div>
                   <div className="w-full bg-gray-200 rounded-full h-2">
@@ -163,6 +273,9 @@ export function Dashboard() {
           )}
         </div>
       </div>
+
+      {/* Activity */}
+      <ActivityFeed />
     </div>
   );
 }
\ No newline at end of file
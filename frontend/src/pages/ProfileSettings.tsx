@@ -0,0 +1,235 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeft, Upload, Trash2 } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth.tsx';
+import { apiClient } from '../lib/api';
+import { Avatar } from '../components/Avatar';
+
+const MAX_BIO_LENGTH = 280;
+const MAX_AVATAR_BYTES = 2 * 1024 * 1024;
+const AVATAR_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+interface ProfileForm {
+  display_name: string;
+  username: string;
+  bio: string;
+}
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export function ProfileSettings() {
+  const { user, profile, refreshProfile } = useAuth();
+  const [form, setForm] = useState<ProfileForm>({ display_name: '', username: '', bio: '' });
+  const [currentUsername, setCurrentUsername] = useState('');
+  const [nextUsernameChange, setNextUsernameChange] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [avatarError, setAvatarError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    apiClient.getCurrentUser()
+      .then((response) => {
+        setForm({
+          display_name: response.profile?.display_name || '',
+          username: response.profile?.username || '',
+          bio: response.profile?.bio || '',
+        });
+        setCurrentUsername(response.profile?.username || '');
+        setNextUsernameChange(response.next_username_change);
+      })
+      .catch((error) => console.error('Error loading profile:', error))
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  const saveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setStatus(null);
+    try {
+      const response = await apiClient.updateProfile({
+        display_name: form.display_name,
+        bio: form.bio.trim() || null,
+        // Only send the username when it changed, so saving anything else
+        // works during the cooldown
+        ...(form.username !== currentUsername ? { username: form.username } : {}),
+      });
+      setCurrentUsername(response.profile.username);
+      setNextUsernameChange(response.next_username_change);
+      await refreshProfile();
+      setStatus('Profile saved.');
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Failed to save profile.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const uploadAvatar = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setAvatarError(null);
+    if (!AVATAR_TYPES.includes(file.type)) {
+      setAvatarError('Choose a PNG, JPEG, GIF or WebP image.');
+      return;
+    }
+    if (file.size > MAX_AVATAR_BYTES) {
+      setAvatarError('Avatars can be at most 2 MB.');
+      return;
+    }
+
+    setUploading(true);
+    try {
+      await apiClient.uploadAvatar(await readAsDataUrl(file));
+      await refreshProfile();
+    } catch (error) {
+      setAvatarError(error instanceof Error ? error.message : 'Failed to upload avatar.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const removeAvatar = async () => {
+    setAvatarError(null);
+    setUploading(true);
+    try {
+      await apiClient.removeAvatar();
+      await refreshProfile();
+    } catch (error) {
+      setAvatarError(error instanceof Error ? error.message : 'Failed to remove avatar.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <Link to="/settings" className="inline-flex items-center text-sm text-blue-600 hover:text-blue-500">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Settings
+        </Link>
+        <h1 className="mt-2 text-3xl font-bold text-gray-900">Profile</h1>
+        <p className="mt-2 text-gray-600">
+          How other users see you.{' '}
+          <Link to={`/u/${currentUsername}`} className="text-blue-600 hover:text-blue-500">View your profile</Link>
+        </p>
+      </div>
+
+      <div className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Avatar</h2>
+        <div className="flex items-center space-x-6">
+          <Avatar url={profile?.avatar_url} name={form.display_name} size="lg" />
+          <div className="space-y-2">
+            <div className="flex items-center space-x-3">
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploading}
+                className="inline-flex items-center px-4 py-2 border border-transparent rounded-xl shadow-sm text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                {uploading ? 'Uploading...' : 'Upload'}
+              </button>
+              {profile?.avatar_url && (
+                <button
+                  type="button"
+                  onClick={removeAvatar}
+                  disabled={uploading}
+                  className="inline-flex items-center px-4 py-2 rounded-xl text-sm font-medium bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 transition-all disabled:opacity-50"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Remove
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-gray-500">PNG, JPEG, GIF or WebP, up to 2 MB.</p>
+            {avatarError && <p className="text-sm text-red-600">{avatarError}</p>}
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={AVATAR_TYPES.join(',')}
+            onChange={uploadAvatar}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      <form onSubmit={saveProfile} className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50 space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Display Name</label>
+          <input
+            type="text"
+            required
+            maxLength={50}
+            value={form.display_name}
+            onChange={(e) => setForm(prev => ({ ...prev, display_name: e.target.value }))}
+            className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Username</label>
+          <input
+            type="text"
+            required
+            pattern="[A-Za-z0-9_]{3,30}"
+            title="3-30 letters, numbers or underscores"
+            value={form.username}
+            disabled={!!nextUsernameChange}
+            onChange={(e) => setForm(prev => ({ ...prev, username: e.target.value }))}
+            className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all disabled:bg-gray-50 disabled:text-gray-500"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            {nextUsernameChange
+              ? `You can change your username again on ${format(parseISO(nextUsernameChange), 'MMMM d, yyyy')}.`
+              : 'After changing your username you have to wait 30 days to change it again.'}
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Bio</label>
+          <textarea
+            rows={3}
+            maxLength={MAX_BIO_LENGTH}
+            value={form.bio}
+            placeholder="A few words about you and what you're working on"
+            onChange={(e) => setForm(prev => ({ ...prev, bio: e.target.value }))}
+            className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+          />
+          <p className="mt-1 text-xs text-gray-500 text-right">{form.bio.length} / {MAX_BIO_LENGTH}</p>
+        </div>
+        <div className="flex items-center justify-end space-x-3">
+          {status && <span className="text-sm text-gray-600">{status}</span>}
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-6 py-3 border border-transparent rounded-xl shadow-sm text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Profile'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,402 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth.tsx';
+import { apiClient } from '../lib/api';
+import { format, parseISO } from 'date-fns';
+import { Globe, Flame, Coffee, Trash2, Shield, Ban, UserCircle } from 'lucide-react';
+import { PRIVACY_LEVELS, PrivacySettings } from '../lib/privacy';
+import { ACTIVITY_TYPES } from '../lib/activity';
+
+const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Intl.supportedValuesOf isn't in the ES2020 lib typings
+const supportedValuesOf = (Intl as unknown as {
+  supportedValuesOf?: (key: 'timeZone') => string[];
+}).supportedValuesOf;
+
+const timezones = supportedValuesOf ? supportedValuesOf('timeZone') : [browserTimezone, 'UTC'];
+
+interface RestPeriod {
+  id: string;
+  start_date: string;
+  end_date: string;
+  reason: string | null;
+}
+
+interface BlockedUser {
+  id: string;
+  username: string;
+  display_name: string;
+  blocked_at: string;
+}
+
+export function Settings() {
+  const { user } = useAuth();
+  const [timezone, setTimezone] = useState('UTC');
+  const [streakThreshold, setStreakThreshold] = useState(80);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [restPeriods, setRestPeriods] = useState<RestPeriod[]>([]);
+  const [restForm, setRestForm] = useState({ start_date: '', end_date: '', reason: '' });
+  const [restStatus, setRestStatus] = useState<string | null>(null);
+  const [privacy, setPrivacy] = useState<PrivacySettings>({
+    discoverable: true,
+    stats_visibility: 'everyone',
+    challenge_privacy: 'everyone',
+    activity_opt_out: [],
+  });
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([]);
+
+  useEffect(() => {
+    if (user) {
+      loadProfile();
+      loadRestPeriods();
+      loadBlockedUsers();
+    }
+  }, [user]);
+
+  const loadProfile = async () => {
+    try {
+      const response = await apiClient.getCurrentUser();
+      setTimezone(response.profile?.timezone || 'UTC');
+      setStreakThreshold(response.profile?.streak_threshold ?? 80);
+      setPrivacy({
+        discoverable: response.profile?.discoverable ?? true,
+        stats_visibility: response.profile?.stats_visibility || 'everyone',
+        challenge_privacy: response.profile?.challenge_privacy || 'everyone',
+        activity_opt_out: response.profile?.activity_opt_out || [],
+      });
+    } catch (error) {
+      console.error('Error loading profile:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadRestPeriods = async () => {
+    try {
+      const response = await apiClient.getRestPeriods();
+      setRestPeriods(response.restPeriods || []);
+    } catch (error) {
+      console.error('Error loading rest periods:', error);
+    }
+  };
+
+  const loadBlockedUsers = async () => {
+    try {
+      const response = await apiClient.getBlockedUsers();
+      setBlockedUsers(response.users || []);
+    } catch (error) {
+      console.error('Error loading blocked users:', error);
+    }
+  };
+
+  const unblockUser = async (id: string) => {
+    try {
+      await apiClient.unblockUser(id);
+      loadBlockedUsers();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to unblock user.');
+    }
+  };
+
+  const addRestPeriod = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setRestStatus(null);
+    try {
+      await apiClient.createRestPeriod({
+        start_date: restForm.start_date,
+        end_date: restForm.end_date || restForm.start_date,
+        reason: restForm.reason || undefined,
+      });
+      setRestForm({ start_date: '', end_date: '', reason: '' });
+      loadRestPeriods();
+    } catch (error) {
+      setRestStatus(error instanceof Error ? error.message : 'Failed to add rest days.');
+    }
+  };
+
+  const removeRestPeriod = async (id: string) => {
+    setRestStatus(null);
+    try {
+      await apiClient.deleteRestPeriod(id);
+      loadRestPeriods();
+    } catch (error) {
+      setRestStatus(error instanceof Error ? error.message : 'Failed to remove rest days.');
+    }
+  };
+
+  const describeRestPeriod = (period: RestPeriod) =>
+    period.start_date === period.end_date
+      ? format(parseISO(period.start_date), 'MMM d, yyyy')
+      : `${format(parseISO(period.start_date), 'MMM d')} - ${format(parseISO(period.end_date), 'MMM d, yyyy')}`;
+
+  const saveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setStatus(null);
+    try {
+      await apiClient.updateProfile({ timezone, streak_threshold: streakThreshold, ...privacy });
+      setStatus('Settings saved.');
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Failed to save settings.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
+          <p className="mt-2 text-gray-600">Manage how your account works.</p>
+        </div>
+        <Link
+          to="/settings/profile"
+          className="inline-flex items-center px-4 py-2 rounded-xl text-sm font-medium bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 transition-all"
+        >
+          <UserCircle className="h-4 w-4 mr-2" />
+          Edit Profile
+        </Link>
+      </div>
+
+      <form onSubmit={saveSettings} className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50 space-y-4">
+        <div className="flex items-center space-x-2">
+          <Globe className="h-5 w-5 text-gray-400" />
+          <h2 className="text-lg font-semibold text-gray-900">Timezone</h2>
+        </div>
+        <p className="text-sm text-gray-600">
+          Your days start and end at midnight in this timezone. Completions, daily scores and
+          challenge dates all follow it.
+        </p>
+        <div>
+          <select
+            value={timezone}
+            onChange={(e) => setTimezone(e.target.value)}
+            className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+          >
+            {!timezones.includes(timezone) && <option value={timezone}>{timezone}</option>}
+            {timezones.map(tz => (
+              <option key={tz} value={tz}>{tz}</option>
+            ))}
+          </select>
+          {timezone !== browserTimezone && (
+            <button
+              type="button"
+              onClick={() => setTimezone(browserTimezone)}
+              className="mt-2 text-sm text-blue-600 hover:text-blue-500"
+            >
+              Use this device's timezone ({browserTimezone})
+            </button>
+          )}
+        </div>
+        <div className="flex items-center space-x-2 pt-2">
+          <Flame className="h-5 w-5 text-gray-400" />
+          <h2 className="text-lg font-semibold text-gray-900">Streak</h2>
+        </div>
+        <p className="text-sm text-gray-600">
+          Days where your score reaches this percentage keep your overall streak going.
+        </p>
+        <div>
+          <input
+            type="number"
+            min="1"
+            max="100"
+            value={streakThreshold}
+            onChange={(e) => setStreakThreshold(parseInt(e.target.value, 10) || 0)}
+            className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+          />
+        </div>
+        <div className="flex items-center space-x-2 pt-2">
+          <Shield className="h-5 w-5 text-gray-400" />
+          <h2 className="text-lg font-semibold text-gray-900">Privacy</h2>
+        </div>
+        <label className="flex items-start space-x-3">
+          <input
+            type="checkbox"
+            checked={privacy.discoverable}
+            onChange={(e) => setPrivacy(prev => ({ ...prev, discoverable: e.target.checked }))}
+            className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <span className="text-sm text-gray-700">
+            Show me in user search and the leaderboard
+            <span className="block text-gray-500">Friends can always find you.</span>
+          </span>
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Who can see my rating, record and badges</label>
+            <select
+              value={privacy.stats_visibility}
+              onChange={(e) => setPrivacy(prev => ({ ...prev, stats_visibility: e.target.value as PrivacySettings['stats_visibility'] }))}
+              className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            >
+              {PRIVACY_LEVELS.map(level => (
+                <option key={level.value} value={level.value}>{level.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Who can challenge me</label>
+            <select
+              value={privacy.challenge_privacy}
+              onChange={(e) => setPrivacy(prev => ({ ...prev, challenge_privacy: e.target.value as PrivacySettings['challenge_privacy'] }))}
+              className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            >
+              {PRIVACY_LEVELS.map(level => (
+                <option key={level.value} value={level.value}>{level.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div>
+          <p className="block text-sm font-medium text-gray-700">Share on my friends' activity feeds</p>
+          <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-2">
+            {ACTIVITY_TYPES.map(type => (
+              <label key={type.value} className="flex items-center space-x-3 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!privacy.activity_opt_out.includes(type.value)}
+                  onChange={(e) => setPrivacy(prev => ({
+                    ...prev,
+                    activity_opt_out: e.target.checked
+                      ? prev.activity_opt_out.filter(value => value !== type.value)
+                      : [...prev.activity_opt_out, type.value],
+                  }))}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span>{type.label}</span>
+              </label>
+            ))}
+          </div>
+          <p className="mt-1 text-xs text-gray-500">Your own feed always shows everything, and friends who can't see your stats never see your activity.</p>
+        </div>
+        <div className="flex items-center justify-end space-x-3">
+          {status && <span className="text-sm text-gray-600">{status}</span>}
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-6 py-3 border border-transparent rounded-xl shadow-sm text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Settings'}
+          </button>
+        </div>
+      </form>
+
+      <div className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50 space-y-4">
+        <div className="flex items-center space-x-2">
+          <Coffee className="h-5 w-5 text-gray-400" />
+          <h2 className="text-lg font-semibold text-gray-900">Rest Days</h2>
+        </div>
+        <p className="text-sm text-gray-600">
+          Taking a break, travelling or unwell? Rest days don't count toward your averages or
+          streaks. Challenges allow a few each; any beyond that count like normal days.
+        </p>
+
+        {restPeriods.length > 0 && (
+          <ul className="divide-y divide-gray-200 border border-gray-200/50 rounded-xl">
+            {restPeriods.map(period => (
+              <li key={period.id} className="flex items-center justify-between px-4 py-3 text-sm">
+                <div>
+                  <p className="font-medium text-gray-900">{describeRestPeriod(period)}</p>
+                  {period.reason && <p className="text-gray-500">{period.reason}</p>}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeRestPeriod(period.id)}
+                  className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                  title="Remove"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={addRestPeriod} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">From</label>
+            <input
+              type="date"
+              required
+              value={restForm.start_date}
+              onChange={(e) => setRestForm(prev => ({ ...prev, start_date: e.target.value }))}
+              className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">To</label>
+            <input
+              type="date"
+              value={restForm.end_date}
+              min={restForm.start_date || undefined}
+              onChange={(e) => setRestForm(prev => ({ ...prev, end_date: e.target.value }))}
+              className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Reason (optional)</label>
+            <input
+              type="text"
+              value={restForm.reason}
+              placeholder="e.g., Vacation"
+              onChange={(e) => setRestForm(prev => ({ ...prev, reason: e.target.value }))}
+              className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            />
+          </div>
+          <button
+            type="submit"
+            className="px-6 py-3 border border-transparent rounded-xl shadow-sm text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all"
+          >
+            Add Rest Days
+          </button>
+        </form>
+        {restStatus && <p className="text-sm text-red-600">{restStatus}</p>}
+      </div>
+
+      <div className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50 space-y-4">
+        <div className="flex items-center space-x-2">
+          <Ban className="h-5 w-5 text-gray-400" />
+          <h2 className="text-lg font-semibold text-gray-900">Blocked Users</h2>
+        </div>
+        <p className="text-sm text-gray-600">
+          Blocked users can't find you, see your stats, send you friend requests or challenge you,
+          and you won't see them either. Block someone from the Users page.
+        </p>
+
+        {blockedUsers.length === 0 ? (
+          <p className="text-sm text-gray-500">You haven't blocked anyone.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200/50 rounded-xl">
+            {blockedUsers.map(blocked => (
+              <li key={blocked.id} className="flex items-center justify-between px-4 py-3 text-sm">
+                <div>
+                  <p className="font-medium text-gray-900">{blocked.display_name}</p>
+                  <p className="text-gray-500">@{blocked.username} · blocked {format(parseISO(blocked.blocked_at), 'MMM d, yyyy')}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => unblockUser(blocked.id)}
+                  className="px-3 py-1.5 rounded-lg text-sm font-medium bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 transition-all"
+                >
+                  Unblock
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,65 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '../hooks/useAuth.tsx';
 import { apiClient } from '../lib/api';
 import { useForm } from 'react-hook-form';
-import { Plus, Edit2, Trash2, Clock, Award } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Plus, Edit2, Trash2, Clock, Award, Repeat, X, Lock, CheckCircle2, Circle, ShieldCheck, ShieldOff, TrendingUp, Flame } from 'lucide-react';
+import {
+  Recurrence,
+  RecurrenceType,
+  RECURRENCE_OPTIONS,
+  WEEKDAY_LABELS,
+  describeRecurrence,
+} from '../lib/recurrence';
+import {
+  TaskType,
+  TaskTypeFields,
+  ScoringPolicy,
+  TASK_TYPE_OPTIONS,
+  SCORING_POLICY_OPTIONS,
+  hasScoringPolicy,
+  describeTaskTarget,
+  describeScoringPolicy,
+  getTaskProgress,
+} from '../lib/taskTypes';
+import { SessionMode, TaskSession } from '../lib/sessions';
+import { TaskTimer } from '../components/TaskTimer';
+import { Achievement, getAchievementIcon } from '../lib/achievements';
 
-interface Task {
+interface Task extends Recurrence, TaskTypeFields {
   id: string;
   name: string;
-  duration_hours: number;
   points: number;
   is_active: boolean;
+  is_due_today: boolean;
+  is_loggable_today: boolean;
+  current_streak: number;
+  longest_streak: number;
 }
 
 interface TaskForm {
   name: string;
+  task_type: TaskType;
   duration_hours: number;
+  target_count: number;
+  unit: string;
+  scoring_policy: ScoringPolicy;
+  scoring_threshold: number;
+  overtime_cap: number;
   points: number;
+  recurrence_type: RecurrenceType;
+  recurrence_weekdays: string[];
+  recurrence_interval: number;
+  recurrence_times_per_week: number;
+}
+
+interface CompletionDay {
+  date: string;
+  today: string;
+  earliest_date: string;
+  locked: boolean;
+  due_task_ids: string[];
+  loggable_task_ids: string[];
 }
 
 export function Tasks() {
@@ -24,17 +68,53 @@ export function Tasks() {
   const [showForm, setShowForm] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [completions, setCompletions] = useState<Record<string, number>>({});
+  // undefined means "today" as the server resolves it in the user's timezone
+  const [selectedDate, setSelectedDate] = useState<string | undefined>(undefined);
+  const [completionDay, setCompletionDay] = useState<CompletionDay | null>(null);
   const [loading, setLoading] = useState(true);
+  const [sessions, setSessions] = useState<TaskSession[]>([]);
+  const [clockOffset, setClockOffset] = useState(0);
+  const [oneOffDates, setOneOffDates] = useState<string[]>([]);
+  const [newOneOffDate, setNewOneOffDate] = useState('');
+  const [unlocked, setUnlocked] = useState<Achievement[]>([]);
 
-  const { register, handleSubmit, reset, setValue } = useForm<TaskForm>();
+  const { register, handleSubmit, reset, setValue, watch } = useForm<TaskForm>({
+    defaultValues: { task_type: 'duration', scoring_policy: 'linear', recurrence_type: 'daily', recurrence_weekdays: [] },
+  });
+  const recurrenceType = watch('recurrence_type');
+  const taskType = watch('task_type');
+  const scoringPolicy = watch('scoring_policy');
 
   useEffect(() => {
     if (user) {
       loadTasks();
-      loadTodayCompletions();
+      loadSessions();
     }
   }, [user]);
 
+  const loadCompletions = useCallback(async () => {
+    try {
+      const response = await apiClient.getCompletions(selectedDate);
+      setCompletions(response.completions || {});
+      setCompletionDay({
+        date: response.date,
+        today: response.today,
+        earliest_date: response.earliest_date,
+        locked: response.locked,
+        due_task_ids: response.due_task_ids || [],
+        loggable_task_ids: response.loggable_task_ids || [],
+      });
+    } catch (error) {
+      console.error('Error loading completions:', error);
+    }
+  }, [selectedDate]);
+
+  useEffect(() => {
+    if (user) {
+      loadCompletions();
+    }
+  }, [user, loadCompletions]);
+
   const loadTasks = async () => {
     try {
       const response = await apiClient.getTasks();
@@ -45,32 +125,59 @@ export function Tasks() {
     setLoading(false);
   };
 
-  const loadTodayCompletions = async () => {
+  const loadSessions = async () => {
     try {
-      const response = await apiClient.getTodayCompletions();
-      setCompletions(response.completions || {});
+      const response = await apiClient.getTaskSessions();
+      setSessions(response.sessions || []);
+      setClockOffset(new Date(response.server_time).getTime() - Date.now());
     } catch (error) {
-      console.error('Error loading completions:', error);
+      console.error('Error loading sessions:', error);
     }
   };
 
   const onSubmit = async (data: TaskForm) => {
+    const task = {
+      name: data.name,
+      task_type: data.task_type,
+      duration_hours: data.task_type === 'duration' ? data.duration_hours : null,
+      target_count: data.task_type === 'count' ? data.target_count : null,
+      unit: data.task_type === 'count' ? data.unit : null,
+      scoring_policy: hasScoringPolicy(data.task_type) ? data.scoring_policy : 'linear',
+      scoring_threshold: data.scoring_policy === 'threshold' ? data.scoring_threshold : null,
+      overtime_cap: data.scoring_policy === 'overtime_bonus' ? data.overtime_cap : null,
+      points: data.points,
+      recurrence_type: data.recurrence_type,
+      recurrence_weekdays: (data.recurrence_weekdays || []).map(Number),
+      recurrence_interval: data.recurrence_interval,
+      recurrence_times_per_week: data.recurrence_times_per_week,
+      recurrence_dates: oneOffDates,
+    };
+
     try {
       if (editingTask) {
-        await apiClient.updateTask(editingTask.id, data);
+        await apiClient.updateTask(editingTask.id, task);
       } else {
-        await apiClient.createTask(data);
+        await apiClient.createTask(task);
       }
 
       reset();
+      setOneOffDates([]);
       setShowForm(false);
       setEditingTask(null);
       loadTasks();
+      loadCompletions();
     } catch (error) {
       console.error('Error saving task:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save task.');
     }
   };
 
+  const addOneOffDate = () => {
+    if (!newOneOffDate || oneOffDates.includes(newOneOffDate)) return;
+    setOneOffDates(prev => [...prev, newOneOffDate].sort());
+    setNewOneOffDate('');
+  };
+
   const deleteTask = async (taskId: string) => {
     if (!confirm('Are you sure you want to delete this task?')) return;
 
@@ -82,29 +189,176 @@ export function Tasks() {
     }
   };
 
-  const updateCompletion = async (taskId: string, duration: number) => {
+  const startSession = async (taskId: string, mode: SessionMode) => {
+    try {
+      await apiClient.startTaskSession(taskId, { mode });
+    } catch (error) {
+      console.error('Error starting session:', error);
+      alert(error instanceof Error ? error.message : 'Failed to start the timer.');
+    }
+    loadSessions();
+  };
+
+  const stopSession = async (session: TaskSession) => {
     try {
-      await apiClient.updateTaskCompletion(taskId, duration);
-      setCompletions(prev => ({ ...prev, [taskId]: duration }));
+      const response = await apiClient.stopTaskSession(session.id);
+      showUnlocked(response.achievements);
+      if (response.skipped?.length) {
+        alert('Some of this session fell on days that can no longer be edited, so it was not logged there.');
+      }
+    } catch (error) {
+      console.error('Error stopping session:', error);
+    }
+    // Another device may have stopped it first; either way the time is logged
+    loadSessions();
+    loadCompletions();
+  };
+
+  const showUnlocked = (achievements?: Achievement[]) => {
+    if (achievements?.length) {
+      setUnlocked(prev => [...prev, ...achievements]);
+    }
+  };
+
+  const updateCompletion = async (taskId: string, value: number) => {
+    try {
+      const response = await apiClient.updateTaskCompletion(taskId, value, completionDay?.date);
+      setCompletions(prev => ({ ...prev, [taskId]: value }));
+      showUnlocked(response.achievements);
     } catch (error) {
       console.error('Error updating completion:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update progress.');
     }
   };
 
+  const isViewingToday = !completionDay || completionDay.date === completionDay.today;
+  const isTaskDue = (task: Task) =>
+    completionDay ? completionDay.due_task_ids.includes(task.id) : task.is_due_today;
+  // Times-per-week tasks can be logged on any day; logging one makes it count
+  const isTaskLoggable = (task: Task) =>
+    completionDay ? completionDay.loggable_task_ids.includes(task.id) : task.is_loggable_today;
+
   const startEdit = (task: Task) => {
     setEditingTask(task);
     setValue('name', task.name);
-    setValue('duration_hours', task.duration_hours);
+    setValue('task_type', task.task_type);
+    setValue('duration_hours', task.duration_hours || 1);
+    setValue('target_count', task.target_count || 1);
+    setValue('unit', task.unit || '');
+    setValue('scoring_policy', task.scoring_policy || 'linear');
+    setValue('scoring_threshold', task.scoring_threshold || 50);
+    setValue('overtime_cap', task.overtime_cap || 50);
     setValue('points', task.points);
+    setValue('recurrence_type', task.recurrence_type);
+    setValue('recurrence_weekdays', (task.recurrence_weekdays || []).map(String));
+    setValue('recurrence_interval', task.recurrence_interval || 2);
+    setValue('recurrence_times_per_week', task.recurrence_times_per_week || 3);
+    setOneOffDates(task.recurrence_dates || []);
     setShowForm(true);
   };
 
   const cancelEdit = () => {
     setEditingTask(null);
     setShowForm(false);
+    setOneOffDates([]);
     reset();
   };
 
+  const getProgressLabel = (task: Task, value: number) => {
+    switch (task.task_type) {
+      case 'boolean':
+        return value >= 1 ? 'Done' : 'Not done';
+      case 'count':
+        return `${value} / ${describeTaskTarget(task)}`;
+      case 'avoid':
+        return value > 0 ? 'Broken' : 'Kept';
+      default:
+        return `${value}h / ${task.duration_hours}h`;
+    }
+  };
+
+  // The input that fits how the task is logged
+  const renderProgressInput = (task: Task, value: number) => {
+    const locked = completionDay?.locked;
+
+    switch (task.task_type) {
+      case 'boolean':
+        return (
+          <button
+            type="button"
+            disabled={locked}
+            onClick={() => updateCompletion(task.id, value >= 1 ? 0 : 1)}
+            className={`inline-flex items-center px-3 py-2 rounded-lg text-sm font-medium transition-all disabled:opacity-50 ${
+              value >= 1 ? 'bg-green-100 text-green-800' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {value >= 1 ? <CheckCircle2 className="h-4 w-4 mr-2" /> : <Circle className="h-4 w-4 mr-2" />}
+            {value >= 1 ? 'Done' : 'Mark as done'}
+          </button>
+        );
+      case 'avoid':
+        return (
+          <div className="flex items-center space-x-2">
+            <button
+              type="button"
+              disabled={locked}
+              onClick={() => updateCompletion(task.id, 0)}
+              className={`inline-flex items-center px-3 py-2 rounded-lg text-sm font-medium transition-all disabled:opacity-50 ${
+                value > 0 ? 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50' : 'bg-green-100 text-green-800'
+              }`}
+            >
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Kept it
+            </button>
+            <button
+              type="button"
+              disabled={locked}
+              onClick={() => updateCompletion(task.id, 1)}
+              className={`inline-flex items-center px-3 py-2 rounded-lg text-sm font-medium transition-all disabled:opacity-50 ${
+                value > 0 ? 'bg-red-100 text-red-800' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <ShieldOff className="h-4 w-4 mr-2" />
+              Slipped
+            </button>
+          </div>
+        );
+      case 'count':
+        return (
+          <div className="flex items-center space-x-2">
+            <input
+              type="number"
+              step="1"
+              min="0"
+              value={value}
+              disabled={locked}
+              onChange={(e) => updateCompletion(task.id, parseFloat(e.target.value) || 0)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+              placeholder="Count"
+            />
+            <span className="text-sm text-gray-600">{task.unit || 'done'}</span>
+          </div>
+        );
+      default:
+        return (
+          <div className="flex items-center space-x-2">
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              max={task.scoring_policy === 'overtime_bonus' ? undefined : Number(task.duration_hours) * 2}
+              value={value}
+              disabled={locked}
+              onChange={(e) => updateCompletion(task.id, parseFloat(e.target.value) || 0)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+              placeholder="Hours completed"
+            />
+            <span className="text-sm text-gray-600">hours</span>
+          </div>
+        );
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -129,6 +383,36 @@ export function Tasks() {
         </button>
       </div>
 
+      {/* Newly unlocked achievements */}
+      {unlocked.length > 0 && (
+        <div className="bg-gradient-to-r from-yellow-50 to-orange-50 border border-orange-200 rounded-2xl p-4 flex items-start justify-between">
+          <div className="space-y-2">
+            {unlocked.map((achievement) => {
+              const Icon = getAchievementIcon(achievement.icon);
+              return (
+                <div key={achievement.key} className="flex items-center">
+                  <div className="w-8 h-8 rounded-full bg-gradient-to-r from-yellow-400 to-orange-500 flex items-center justify-center">
+                    <Icon className="h-4 w-4 text-white" />
+                  </div>
+                  <p className="ml-3 text-sm text-gray-900">
+                    <span className="font-semibold">Achievement unlocked: {achievement.name}</span>
+                    <span className="text-gray-600"> · {achievement.description}</span>
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+          <button
+            type="button"
+            onClick={() => setUnlocked([])}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Dismiss"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
       {/* Task Form */}
       {showForm && (
         <div className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50">
@@ -136,7 +420,7 @@ export function Tasks() {
             {editingTask ? 'Edit Task' : 'Create New Task'}
           </h2>
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700">Task Name</label>
                 <input
@@ -147,14 +431,51 @@ export function Tasks() {
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700">Duration (hours)</label>
-                <input
-                  {...register('duration_hours', { required: true, min: 0.1 })}
-                  type="number"
-                  step="0.1"
-                  placeholder="e.g., 1.5"
+                <label className="block text-sm font-medium text-gray-700">Type</label>
+                <select
+                  {...register('task_type')}
                   className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                />
+                >
+                  {TASK_TYPE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                {taskType === 'duration' && (
+                  <>
+                    <label className="block text-sm font-medium text-gray-700">Duration (hours)</label>
+                    <input
+                      {...register('duration_hours', { required: true, min: 0.1 })}
+                      type="number"
+                      step="0.1"
+                      placeholder="e.g., 1.5"
+                      className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                    />
+                  </>
+                )}
+                {taskType === 'count' && (
+                  <>
+                    <label className="block text-sm font-medium text-gray-700">Target</label>
+                    <div className="mt-1 flex space-x-2">
+                      <input
+                        {...register('target_count', { required: true, min: 1 })}
+                        type="number"
+                        placeholder="e.g., 8"
+                        className="block w-1/2 px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                      />
+                      <input
+                        {...register('unit')}
+                        type="text"
+                        placeholder="glasses"
+                        className="block w-1/2 px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                      />
+                    </div>
+                  </>
+                )}
+                {taskType === 'avoid' && (
+                  <p className="mt-6 text-sm text-gray-500">Earns its points unless you slip, and costs them if you do.</p>
+                )}
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700">Points</label>
@@ -166,6 +487,135 @@ export function Tasks() {
                 />
               </div>
             </div>
+            {hasScoringPolicy(taskType) && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Scoring</label>
+                  <select
+                    {...register('scoring_policy')}
+                    className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                  >
+                    {SCORING_POLICY_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                {scoringPolicy === 'threshold' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Minimum (% of target)</label>
+                    <input
+                      {...register('scoring_threshold', { required: true, min: 1, max: 100 })}
+                      type="number"
+                      placeholder="e.g., 50"
+                      className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                    />
+                  </div>
+                )}
+                {scoringPolicy === 'overtime_bonus' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Bonus cap (% extra)</label>
+                    <input
+                      {...register('overtime_cap', { required: true, min: 1, max: 100 })}
+                      type="number"
+                      placeholder="e.g., 50"
+                      className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Repeats</label>
+                <select
+                  {...register('recurrence_type')}
+                  className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                >
+                  {RECURRENCE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="md:col-span-2">
+                {recurrenceType === 'weekdays' && (
+                  <>
+                    <label className="block text-sm font-medium text-gray-700">On</label>
+                    <div className="mt-1 flex flex-wrap gap-2">
+                      {WEEKDAY_LABELS.map((label, day) => (
+                        <label key={label} className="flex items-center px-3 py-2 border border-gray-300 rounded-xl text-sm cursor-pointer">
+                          <input
+                            {...register('recurrence_weekdays')}
+                            type="checkbox"
+                            value={String(day)}
+                            className="mr-2"
+                          />
+                          {label}
+                        </label>
+                      ))}
+                    </div>
+                  </>
+                )}
+                {recurrenceType === 'interval' && (
+                  <>
+                    <label className="block text-sm font-medium text-gray-700">Every how many days</label>
+                    <input
+                      {...register('recurrence_interval', { required: true, min: 1, valueAsNumber: true })}
+                      type="number"
+                      min="1"
+                      placeholder="e.g., 2"
+                      className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                    />
+                  </>
+                )}
+                {recurrenceType === 'times_per_week' && (
+                  <>
+                    <label className="block text-sm font-medium text-gray-700">Times per week</label>
+                    <input
+                      {...register('recurrence_times_per_week', { required: true, min: 1, max: 7, valueAsNumber: true })}
+                      type="number"
+                      min="1"
+                      max="7"
+                      placeholder="e.g., 3"
+                      className="mt-1 block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                    />
+                  </>
+                )}
+                {recurrenceType === 'once' && (
+                  <>
+                    <label className="block text-sm font-medium text-gray-700">Dates</label>
+                    <div className="mt-1 flex items-center space-x-2">
+                      <input
+                        type="date"
+                        value={newOneOffDate}
+                        onChange={(e) => setNewOneOffDate(e.target.value)}
+                        className="block w-full px-4 py-3 border border-gray-300 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                      />
+                      <button
+                        type="button"
+                        onClick={addOneOffDate}
+                        className="px-4 py-3 border border-gray-300 rounded-xl shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 transition-all"
+                      >
+                        Add
+                      </button>
+                    </div>
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {oneOffDates.map(date => (
+                        <span key={date} className="inline-flex items-center px-2 py-1 text-xs bg-blue-50 text-blue-700 rounded-full">
+                          {date}
+                          <button
+                            type="button"
+                            onClick={() => setOneOffDates(prev => prev.filter(d => d !== date))}
+                            className="ml-1 text-blue-400 hover:text-blue-700"
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
             <div className="flex justify-end space-x-3">
               <button
                 type="button"
@@ -187,9 +637,28 @@ export function Tasks() {
 
       {/* Tasks List */}
       <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-gray-200/50">
-        <div className="px-6 py-4 border-b border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
           <h2 className="text-lg font-semibold text-gray-900">Your Tasks</h2>
+          {completionDay && (
+            <div className="flex items-center space-x-2 text-sm">
+              <label className="text-gray-600">Logging for</label>
+              <input
+                type="date"
+                value={completionDay.date}
+                min={completionDay.earliest_date}
+                max={completionDay.today}
+                onChange={(e) => setSelectedDate(e.target.value || undefined)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+              />
+            </div>
+          )}
         </div>
+        {completionDay?.locked && (
+          <div className="mx-6 mt-4 flex items-center px-4 py-3 text-sm text-yellow-800 bg-yellow-50 rounded-xl">
+            <Lock className="h-4 w-4 mr-2" />
+            This day counted toward a finished challenge and can no longer be edited.
+          </div>
+        )}
         <div className="p-6">
           {tasks.length === 0 ? (
             <p className="text-gray-500 text-center py-8">
@@ -205,12 +674,28 @@ export function Tasks() {
                       <div className="flex items-center space-x-4 text-sm text-gray-600 mt-1">
                         <span className="flex items-center">
                           <Clock className="h-4 w-4 mr-1" />
-                          {task.duration_hours}h
+                          {describeTaskTarget(task)}
                         </span>
                         <span className="flex items-center">
                           <Award className="h-4 w-4 mr-1" />
                           {task.points} points
                         </span>
+                        <span className="flex items-center">
+                          <Repeat className="h-4 w-4 mr-1" />
+                          {describeRecurrence(task)}
+                        </span>
+                        {task.longest_streak > 0 && (
+                          <span className="flex items-center">
+                            <Flame className="h-4 w-4 mr-1 text-orange-500" />
+                            {task.current_streak} day streak · best {task.longest_streak}
+                          </span>
+                        )}
+                        {describeScoringPolicy(task) && (
+                          <span className="flex items-center">
+                            <TrendingUp className="h-4 w-4 mr-1" />
+                            {describeScoringPolicy(task)}
+                          </span>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
@@ -230,35 +715,44 @@ export function Tasks() {
                   </div>
                   
                   {/* Today's Progress */}
-                  <div className="space-y-2">
-                    <div className="flex items-center justify-between text-sm">
-                      <span className="text-gray-600">Today's Progress</span>
-                      <span className="text-gray-900">
-                        {completions[task.id] || 0}h / {task.duration_hours}h
-                      </span>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <input
-                        type="number"
-                        step="0.1"
-                        min="0"
-                        max={task.duration_hours * 2}
-                        value={completions[task.id] || 0}
-                        onChange={(e) => updateCompletion(task.id, parseFloat(e.target.value) || 0)}
-                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                        placeholder="Hours completed"
-                      />
-                      <span className="text-sm text-gray-600">hours</span>
-                    </div>
-                    <div className="w-full bg-gray-200 rounded-full h-2">
-                      <div
-                        className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full transition-all duration-300"
-                        style={{ 
-                          width: `${Math.min(((completions[task.id] || 0) / task.duration_hours) * 100, 100)}%` 
-                        }}
-                      ></div>
+                  {!isTaskLoggable(task) ? (
+                    <p className="text-sm text-gray-500">{isViewingToday ? 'Not due today' : 'Not due on this day'}</p>
+                  ) : (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-gray-600">
+                          {isViewingToday || !completionDay
+                            ? "Today's Progress"
+                            : `Progress on ${format(parseISO(completionDay.date), 'MMM d')}`}
+                        </span>
+                        <span className="text-gray-900">
+                          {getProgressLabel(task, completions[task.id] || 0)}
+                        </span>
+                      </div>
+                      {!isTaskDue(task) && (
+                        <p className="text-xs text-gray-500">
+                          {isViewingToday ? 'Optional today' : 'Optional on this day'}: counts toward the weekly goal once logged
+                        </p>
+                      )}
+                      {renderProgressInput(task, completions[task.id] || 0)}
+                      {task.task_type === 'duration' && (
+                        <TaskTimer
+                          session={sessions.find(session => session.task_id === task.id)}
+                          clockOffset={clockOffset}
+                          onStart={(mode) => startSession(task.id, mode)}
+                          onStop={stopSession}
+                        />
+                      )}
+                      <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div
+                          className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full transition-all duration-300"
+                          style={{ 
+                            width: `${getTaskProgress(task, completions[task.id] || 0)}%` 
+                          }}
+                        ></div>
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </div>
               ))}
             </div>
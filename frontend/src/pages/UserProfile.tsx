@@ -0,0 +1,311 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeft, Star, Trophy, Target, Flame, Plus, EyeOff, Swords, UserCheck } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth.tsx';
+import { apiClient } from '../lib/api';
+import { Avatar } from '../components/Avatar';
+import { Achievement, describeUnlock, getAchievementIcon } from '../lib/achievements';
+import { ChallengeMetric, describeMetric } from '../lib/challengeMetrics';
+
+interface ProfileUser {
+  id: string;
+  username: string;
+  display_name: string;
+  avatar_url: string | null;
+  bio: string | null;
+  // Stats are null when the user's privacy settings hide them
+  total_wins: number | null;
+  total_losses: number | null;
+  rating: number | null;
+  rated_games: number | null;
+  stats_hidden: boolean;
+  provisional: boolean;
+  achievements: Achievement[];
+  friendship: 'friends' | 'incoming' | 'outgoing' | null;
+  can_challenge: boolean;
+  created_at: string;
+}
+
+interface RecentChallenge {
+  id: string;
+  challenge_type: 'duel' | 'group';
+  name: string | null;
+  metric: ChallengeMetric;
+  metric_task_name: string | null;
+  metric_threshold: number | null;
+  start_date: string;
+  end_date: string;
+  won: boolean;
+  draw: boolean;
+  rank: number | null;
+  participant_count: number;
+  // null when the opponent keeps their stats private
+  opponent: { id: string; username: string; display_name: string; avatar_url: string | null } | null;
+}
+
+interface PublicProfile {
+  user: ProfileUser;
+  stats: {
+    win_rate: number | null;
+    current_streak: number;
+    longest_streak: number;
+    recent_challenges: RecentChallenge[];
+  } | null;
+  head_to_head: {
+    wins: number;
+    losses: number;
+    draws: number;
+    last_played: string | null;
+  } | null;
+}
+
+const describeResult = (challenge: RecentChallenge) => {
+  if (challenge.challenge_type === 'group') {
+    return challenge.won ? 'Won' : `#${challenge.rank} of ${challenge.participant_count}`;
+  }
+  if (challenge.draw) return 'Draw';
+  return challenge.won ? 'Won' : 'Lost';
+};
+
+export function UserProfile() {
+  const { username } = useParams<{ username: string }>();
+  const { user: currentUser } = useAuth();
+  const navigate = useNavigate();
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!currentUser || !username) return;
+
+    setProfile(null);
+    setError('');
+    apiClient.getUserProfile(username)
+      .then(setProfile)
+      .catch((error) => {
+        console.error('Error loading profile:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load this profile.');
+      });
+  }, [currentUser, username]);
+
+  const challengeUser = () => {
+    if (!profile) return;
+    // The challenges page picks this up to pre-fill its form
+    localStorage.setItem('prefilledChallenger', profile.user.username);
+    navigate('/challenges');
+  };
+
+  if (error) {
+    return (
+      <div className="space-y-4">
+        <Link to="/users" className="inline-flex items-center text-sm text-blue-600 hover:text-blue-500">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Find Users
+        </Link>
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl">{error}</div>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const { user, stats, head_to_head: headToHead } = profile;
+  const isSelf = user.id === currentUser?.id;
+
+  return (
+    <div className="space-y-8">
+      <Link to="/users" className="inline-flex items-center text-sm text-blue-600 hover:text-blue-500">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Find Users
+      </Link>
+
+      {/* Header */}
+      <div className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-6">
+          <div className="flex items-center space-x-6">
+            <Avatar url={user.avatar_url} name={user.display_name} size="lg" />
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">{user.display_name}</h1>
+              <p className="text-gray-500">
+                @{user.username} · joined {format(parseISO(user.created_at), 'MMMM yyyy')}
+              </p>
+              {user.friendship === 'friends' && (
+                <span className="mt-1 inline-flex items-center px-2 py-0.5 text-xs bg-green-50 text-green-700 rounded-full">
+                  <UserCheck className="h-3 w-3 mr-1" />
+                  Friend
+                </span>
+              )}
+              {user.bio && <p className="mt-2 text-gray-700 max-w-xl whitespace-pre-wrap">{user.bio}</p>}
+              {user.achievements.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-3">
+                  {user.achievements.map((achievement) => {
+                    const Icon = getAchievementIcon(achievement.icon);
+                    return (
+                      <span
+                        key={achievement.key}
+                        title={`${achievement.name}: ${describeUnlock(achievement)}`}
+                        className="w-7 h-7 rounded-full bg-gradient-to-r from-yellow-400 to-orange-500 flex items-center justify-center"
+                      >
+                        <Icon className="h-4 w-4 text-white" />
+                      </span>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {isSelf ? (
+            <Link
+              to="/settings/profile"
+              className="inline-flex items-center justify-center px-4 py-2 rounded-xl text-sm font-medium bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 transition-all"
+            >
+              Edit Profile
+            </Link>
+          ) : (
+            <button
+              onClick={challengeUser}
+              disabled={!user.can_challenge}
+              title={user.can_challenge ? undefined : 'Not accepting challenges from you'}
+              className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-xl shadow-sm text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Challenge
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Stats */}
+      {stats ? (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+          <div className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50">
+            <p className="text-sm font-medium text-gray-600">Rating</p>
+            <p
+              className="flex items-center text-2xl font-bold text-gray-900"
+              title={user.provisional
+                ? `Provisional: based on ${user.rated_games} of the first 5 challenges`
+                : `Based on ${user.rated_games} challenges`}
+            >
+              <Star className="h-5 w-5 mr-1 text-yellow-500" />
+              {Math.round(user.rating ?? 0)}
+              {user.provisional && <span className="text-gray-400">?</span>}
+            </p>
+          </div>
+          <div className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50">
+            <p className="text-sm font-medium text-gray-600">Win Rate</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {stats.win_rate === null ? '—' : `${stats.win_rate}%`}
+            </p>
+            <p className="flex items-center text-xs text-gray-500 mt-1">
+              <Trophy className="h-3 w-3 mr-1 text-green-600" />
+              {user.total_wins} wins
+              <Target className="h-3 w-3 ml-2 mr-1 text-red-600" />
+              {user.total_losses} losses
+            </p>
+          </div>
+          <div className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50">
+            <p className="text-sm font-medium text-gray-600">Current Streak</p>
+            <p className="flex items-center text-2xl font-bold text-gray-900">
+              <Flame className="h-5 w-5 mr-1 text-orange-500" />
+              {stats.current_streak} {stats.current_streak === 1 ? 'day' : 'days'}
+            </p>
+            <p className="text-xs text-gray-500 mt-1">Longest {stats.longest_streak}</p>
+          </div>
+          <div className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50">
+            <p className="text-sm font-medium text-gray-600">Head to Head</p>
+            {headToHead ? (
+              <>
+                <p className="flex items-center text-2xl font-bold text-gray-900">
+                  <Swords className="h-5 w-5 mr-1 text-purple-500" />
+                  {headToHead.wins}–{headToHead.losses}
+                  {headToHead.draws > 0 && `–${headToHead.draws}`}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {headToHead.last_played
+                    ? `Your record · last played ${format(parseISO(headToHead.last_played), 'MMM d, yyyy')}`
+                    : "You haven't played each other yet"}
+                </p>
+              </>
+            ) : (
+              <p className="text-2xl font-bold text-gray-400">—</p>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="bg-white/80 backdrop-blur-md p-6 rounded-2xl shadow-lg border border-gray-200/50 flex items-center justify-between">
+          <p className="flex items-center text-gray-600">
+            <EyeOff className="h-5 w-5 mr-2 text-gray-400" />
+            {user.display_name} keeps their stats private.
+          </p>
+          {headToHead && (
+            <p className="flex items-center text-gray-900 font-medium" title="Your record against them">
+              <Swords className="h-5 w-5 mr-1 text-purple-500" />
+              You {headToHead.wins}–{headToHead.losses}
+              {headToHead.draws > 0 && `–${headToHead.draws}`}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Recent challenges */}
+      {stats && (
+        <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-gray-200/50">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Recent Challenges</h2>
+          </div>
+          <div className="p-6">
+            {stats.recent_challenges.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">No completed challenges yet.</p>
+            ) : (
+              <ul className="space-y-3">
+                {stats.recent_challenges.map(challenge => (
+                  <li key={challenge.id} className="flex items-center justify-between border border-gray-200/50 rounded-xl px-4 py-3 bg-gray-50/50">
+                    <div className="flex items-center space-x-3">
+                      {challenge.challenge_type === 'duel' && (
+                        <Avatar
+                          url={challenge.opponent?.avatar_url}
+                          name={challenge.opponent?.display_name || 'A private user'}
+                          size="sm"
+                        />
+                      )}
+                      <div>
+                        <p className="font-medium text-gray-900">
+                          {challenge.challenge_type === 'group' ? (
+                            challenge.name || 'Group challenge'
+                          ) : challenge.opponent ? (
+                            <>vs <Link to={`/u/${challenge.opponent.username}`} className="hover:text-blue-600">{challenge.opponent.display_name}</Link></>
+                          ) : (
+                            'vs a private user'
+                          )}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {describeMetric(challenge)} · {format(parseISO(challenge.start_date), 'MMM d')} – {format(parseISO(challenge.end_date), 'MMM d, yyyy')}
+                        </p>
+                      </div>
+                    </div>
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                      challenge.won
+                        ? 'bg-green-100 text-green-800'
+                        : challenge.draw
+                          ? 'bg-gray-100 text-gray-800'
+                          : 'bg-red-100 text-red-800'
+                    }`}>
+                      {describeResult(challenge)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,27 +1,56 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth.tsx';
 import { apiClient } from '../lib/api';
-import { Search, User, Trophy, Target, Plus } from 'lucide-react';
+import { Search, Trophy, Target, Plus, Star, UserPlus, UserMinus, UserCheck, Check, X, Clock, Ban, EyeOff } from 'lucide-react';
+import { Achievement, describeUnlock, getAchievementIcon } from '../lib/achievements';
+import { Avatar } from '../components/Avatar';
 
 interface UserProfile {
   id: string;
   username: string;
   display_name: string;
-  total_wins: number;
-  total_losses: number;
+  avatar_url: string | null;
+  bio: string | null;
+  // Stats are null when the user's privacy settings hide them
+  total_wins: number | null;
+  total_losses: number | null;
+  rating: number | null;
+  rated_games: number | null;
+  stats_hidden: boolean;
+  provisional: boolean;
+  achievements: Achievement[];
+  friendship: 'friends' | 'incoming' | 'outgoing' | null;
+  friendship_id: string | null;
+  can_challenge: boolean;
   created_at: string;
 }
 
+interface FriendRequest extends UserProfile {
+  since: string;
+}
+
+type UsersTab = 'top' | 'friends';
+
 export function Users() {
   const { user } = useAuth();
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [loading, setLoading] = useState(false);
   const [searchResults, setSearchResults] = useState<UserProfile[]>([]);
+  const [tab, setTab] = useState<UsersTab>('top');
+  const [incoming, setIncoming] = useState<FriendRequest[]>([]);
+  const [outgoing, setOutgoing] = useState<FriendRequest[]>([]);
+
+  useEffect(() => {
+    if (user) {
+      loadTopUsers(tab);
+    }
+  }, [user, tab]);
 
   useEffect(() => {
     if (user) {
-      loadTopUsers();
+      loadFriendRequests();
     }
   }, [user]);
 
@@ -33,10 +62,10 @@ export function Users() {
     }
   }, [searchTerm]);
 
-  const loadTopUsers = async () => {
+  const loadTopUsers = async (scope: UsersTab) => {
     setLoading(true);
     try {
-      const response = await apiClient.getTopUsers();
+      const response = await apiClient.getTopUsers(scope === 'friends' ? 'friends' : undefined);
       setUsers(response.users || []);
     } catch (error) {
       console.error('Error loading users:', error);
@@ -45,6 +74,29 @@ export function Users() {
     }
   };
 
+  const loadFriendRequests = async () => {
+    try {
+      const response = await apiClient.getFriends();
+      setIncoming(response.incoming || []);
+      setOutgoing(response.outgoing || []);
+    } catch (error) {
+      console.error('Error loading friend requests:', error);
+    }
+  };
+
+  // Refresh everything a friendship change shows up in
+  const runFriendAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Error updating friendship:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update friendship.');
+    }
+    loadTopUsers(tab);
+    loadFriendRequests();
+    if (searchTerm.trim()) searchUsers();
+  };
+
   const searchUsers = async () => {
     if (!searchTerm.trim()) return;
 
@@ -71,13 +123,67 @@ export function Users() {
     }
   };
 
-  const getWinRate = (wins: number, losses: number) => {
-    const total = wins + losses;
-    return total > 0 ? ((wins / total) * 100).toFixed(1) : '0.0';
+  const blockUser = (userProfile: UserProfile) => {
+    if (!confirm(`Block @${userProfile.username}? You won't see each other in search or leaderboards, and neither of you can befriend or challenge the other.`)) {
+      return;
+    }
+    runFriendAction(() => apiClient.blockUser(userProfile.id));
+  };
+
+  const getWinRate = (wins: number | null, losses: number | null) => {
+    const total = (wins ?? 0) + (losses ?? 0);
+    return total > 0 ? (((wins ?? 0) / total) * 100).toFixed(1) : '0.0';
   };
 
   const displayUsers = searchTerm.trim() ? searchResults : users;
 
+  const renderFriendButton = (userProfile: UserProfile) => {
+    switch (userProfile.friendship) {
+      case 'friends':
+        return (
+          <button
+            onClick={() => runFriendAction(() => apiClient.removeFriend(userProfile.id))}
+            title="Remove friend"
+            className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-xl border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 transition-all"
+          >
+            <UserCheck className="h-4 w-4 mr-1 text-green-600" />
+            Friends
+          </button>
+        );
+      case 'outgoing':
+        return (
+          <button
+            onClick={() => runFriendAction(() => apiClient.removeFriend(userProfile.id))}
+            title="Cancel friend request"
+            className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-xl border border-gray-300 bg-white text-gray-500 hover:bg-gray-50 transition-all"
+          >
+            <Clock className="h-4 w-4 mr-1" />
+            Requested
+          </button>
+        );
+      case 'incoming':
+        return (
+          <button
+            onClick={() => runFriendAction(() => apiClient.respondToFriendRequest(userProfile.friendship_id!, true))}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-xl border border-green-300 bg-green-50 text-green-700 hover:bg-green-100 transition-all"
+          >
+            <Check className="h-4 w-4 mr-1" />
+            Accept
+          </button>
+        );
+      default:
+        return (
+          <button
+            onClick={() => runFriendAction(() => apiClient.sendFriendRequest(userProfile.id))}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-xl border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 transition-all"
+          >
+            <UserPlus className="h-4 w-4 mr-1" />
+            Add Friend
+          </button>
+        );
+    }
+  };
+
   return (
     <div className="space-y-8">
       <div>
@@ -101,12 +207,82 @@ export function Users() {
         </div>
       </div>
 
+      {/* Friend Requests */}
+      {(incoming.length > 0 || outgoing.length > 0) && (
+        <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-gray-200/50">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Friend Requests</h2>
+          </div>
+          <div className="p-6 space-y-3">
+            {incoming.map(request => (
+              <div key={request.id} className="flex items-center justify-between">
+                <p className="text-sm text-gray-900">
+                  <span className="font-medium">{request.display_name}</span>{' '}
+                  <span className="text-gray-500">@{request.username} wants to be friends</span>
+                </p>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => runFriendAction(() => apiClient.respondToFriendRequest(request.friendship_id!, true))}
+                    className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-lg text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 transition-all"
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Accept
+                  </button>
+                  <button
+                    onClick={() => runFriendAction(() => apiClient.respondToFriendRequest(request.friendship_id!, false))}
+                    className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 transition-all"
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Decline
+                  </button>
+                </div>
+              </div>
+            ))}
+            {outgoing.map(request => (
+              <div key={request.id} className="flex items-center justify-between">
+                <p className="text-sm text-gray-900">
+                  <span className="text-gray-500">Waiting on</span>{' '}
+                  <span className="font-medium">{request.display_name}</span>{' '}
+                  <span className="text-gray-500">@{request.username}</span>
+                </p>
+                <button
+                  onClick={() => runFriendAction(() => apiClient.removeFriend(request.id))}
+                  className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 transition-all"
+                >
+                  <UserMinus className="h-4 w-4 mr-1" />
+                  Cancel
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Users List */}
       <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-gray-200/50">
-        <div className="px-6 py-4 border-b border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
           <h2 className="text-lg font-semibold text-gray-900">
-            {searchTerm.trim() ? 'Search Results' : 'Top Users'}
+            {searchTerm.trim() ? 'Search Results' : tab === 'friends' ? 'Friends Leaderboard' : 'Top Users'}
           </h2>
+          {!searchTerm.trim() && (
+            <div className="inline-flex rounded-xl border border-gray-300 bg-white p-1" role="group" aria-label="Leaderboard">
+              {(['top', 'friends'] as UsersTab[]).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setTab(option)}
+                  aria-pressed={tab === option}
+                  className={`px-4 py-1.5 text-sm font-medium rounded-lg transition-all ${
+                    tab === option
+                      ? 'bg-gradient-to-r from-blue-600 to-purple-600 text-white'
+                      : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {option === 'top' ? 'Everyone' : 'Friends'}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
         <div className="p-6">
           {loading ? (
@@ -123,45 +299,110 @@ export function Users() {
                 <div key={userProfile.id} className="border border-gray-200/50 rounded-xl p-4 bg-gray-50/50">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-4">
-                      <div className="flex-shrink-0">
-                        <div className="h-12 w-12 rounded-full bg-gradient-to-r from-blue-500 to-purple-500 flex items-center justify-center">
-                          <User className="h-6 w-6 text-white" />
-                        </div>
-                      </div>
+                      <Link to={`/u/${userProfile.username}`} aria-label={`View ${userProfile.display_name}'s profile`}>
+                        <Avatar url={userProfile.avatar_url} name={userProfile.display_name} />
+                      </Link>
                       <div>
                         <h3 className="text-lg font-medium text-gray-900">
-                          {userProfile.display_name}
+                          <Link to={`/u/${userProfile.username}`} className="hover:text-blue-600">
+                            {userProfile.display_name}
+                          </Link>
                         </h3>
                         <p className="text-sm text-gray-500">@{userProfile.username}</p>
+                        {userProfile.bio && (
+                          <p className="text-sm text-gray-600 mt-1 max-w-md line-clamp-2">{userProfile.bio}</p>
+                        )}
+                        {userProfile.achievements?.length > 0 && (
+                          <div className="flex items-center space-x-1 mt-1">
+                            {userProfile.achievements.slice(0, 5).map((achievement) => {
+                              const Icon = getAchievementIcon(achievement.icon);
+                              return (
+                                <span
+                                  key={achievement.key}
+                                  title={`${achievement.name}: ${describeUnlock(achievement)}`}
+                                  className="w-6 h-6 rounded-full bg-gradient-to-r from-yellow-400 to-orange-500 flex items-center justify-center"
+                                >
+                                  <Icon className="h-3.5 w-3.5 text-white" />
+                                </span>
+                              );
+                            })}
+                            {userProfile.achievements.length > 5 && (
+                              <span className="text-xs text-gray-500">+{userProfile.achievements.length - 5}</span>
+                            )}
+                          </div>
+                        )}
                       </div>
                     </div>
 
                     <div className="flex items-center space-x-6">
-                      <div className="text-center">
-                        <div className="flex items-center text-sm text-gray-600">
-                          <Trophy className="h-4 w-4 mr-1 text-green-600" />
-                          <span>{userProfile.total_wins} wins</span>
+                      {userProfile.stats_hidden ? (
+                        <div className="flex items-center text-sm text-gray-500" title="This user keeps their stats private">
+                          <EyeOff className="h-4 w-4 mr-1" />
+                          Stats hidden
                         </div>
-                        <div className="flex items-center text-sm text-gray-600 mt-1">
-                          <Target className="h-4 w-4 mr-1 text-red-600" />
-                          <span>{userProfile.total_losses} losses</span>
-                        </div>
-                      </div>
+                      ) : (
+                        <>
+                          <div className="text-center">
+                            <p className="text-sm text-gray-600">Rating</p>
+                            <p
+                              className="flex items-center justify-center text-lg font-semibold text-gray-900"
+                              title={userProfile.provisional
+                                ? `Provisional: based on ${userProfile.rated_games} of the first 5 challenges`
+                                : `Based on ${userProfile.rated_games} challenges`}
+                            >
+                              <Star className="h-4 w-4 mr-1 text-yellow-500" />
+                              {Math.round(userProfile.rating ?? 0)}
+                              {userProfile.provisional && <span className="text-gray-400">?</span>}
+                            </p>
+                            {userProfile.provisional && (
+                              <p className="text-xs text-gray-400">Provisional</p>
+                            )}
+                          </div>
 
-                      <div className="text-center">
-                        <p className="text-sm text-gray-600">Win Rate</p>
-                        <p className="text-lg font-semibold text-gray-900">
-                          {getWinRate(userProfile.total_wins, userProfile.total_losses)}%
-                        </p>
-                      </div>
+                          <div className="text-center">
+                            <div className="flex items-center text-sm text-gray-600">
+                              <Trophy className="h-4 w-4 mr-1 text-green-600" />
+                              <span>{userProfile.total_wins} wins</span>
+                            </div>
+                            <div className="flex items-center text-sm text-gray-600 mt-1">
+                              <Target className="h-4 w-4 mr-1 text-red-600" />
+                              <span>{userProfile.total_losses} losses</span>
+                            </div>
+                          </div>
+
+                          <div className="text-center">
+                            <p className="text-sm text-gray-600">Win Rate</p>
+                            <p className="text-lg font-semibold text-gray-900">
+                              {getWinRate(userProfile.total_wins, userProfile.total_losses)}%
+                            </p>
+                          </div>
+                        </>
+                      )}
+
+                      {userProfile.id !== user?.id && renderFriendButton(userProfile)}
+
+                      {userProfile.id !== user?.id && (
+                        <button
+                          onClick={() => createChallenge(userProfile.id)}
+                          disabled={!userProfile.can_challenge}
+                          title={userProfile.can_challenge ? undefined : 'Not accepting challenges from you'}
+                          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-xl shadow-sm text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <Plus className="h-4 w-4 mr-2" />
+                          Challenge
+                        </button>
+                      )}
 
-                      <button
-                        onClick={() => createChallenge(userProfile.id)}
-                        className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-xl shadow-sm text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all"
-                      >
-                        <Plus className="h-4 w-4 mr-2" />
-                        Challenge
-                      </button>
+                      {userProfile.id !== user?.id && (
+                        <button
+                          onClick={() => blockUser(userProfile)}
+                          title="Block"
+                          aria-label={`Block @${userProfile.username}`}
+                          className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                        >
+                          <Ban className="h-4 w-4" />
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>